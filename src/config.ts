@@ -1,4 +1,18 @@
-import type { BoxConfig, HazmatFees } from "./types";
+import type {
+  BoxConfig,
+  HazmatFees,
+  HazmatSegregationConfig,
+  RateRule,
+  HolidayRule,
+  CalendarConfig,
+  ShipScheduleConfig,
+  WarehouseConfig,
+  VendorProfile,
+  FallbackRateTable,
+  FreightConfig,
+  CarrierId,
+  USPSMailClass,
+} from "./types";
 
 // =============================================================================
 // FedEx API Configuration
@@ -13,6 +27,12 @@ export function getFedExApiBase(useSandbox: boolean): string {
 
 export const FEDEX_TOKEN_EXPIRY_BUFFER_SECONDS = 60;
 export const FEDEX_API_TIMEOUT_MS = 8000;
+// Address validation runs before rating, so keep it well under the rate timeout
+export const FEDEX_ADDRESS_VALIDATION_TIMEOUT_MS = 3000;
+
+// FedEx parcel limits per package; anything larger ships LTL freight
+export const FEDEX_PARCEL_MAX_WEIGHT_LBS = 150;
+export const FEDEX_PARCEL_MAX_LENGTH_PLUS_GIRTH_IN = 165;
 
 export const DOMESTIC_GROUND_SERVICES = [
   "FEDEX_GROUND",
@@ -54,13 +74,106 @@ export const SERVICE_DISPLAY_NAMES: Record<string, string> = {
   INTERNATIONAL_PRIORITY: "FedEx International Priority",
   INTERNATIONAL_ECONOMY: "FedEx International Economy",
   INTERNATIONAL_FIRST: "FedEx International First",
+  FEDEX_FREIGHT_PRIORITY: "FedEx Freight Priority",
+  FEDEX_FREIGHT_ECONOMY: "FedEx Freight Economy",
+};
+
+export const FEDEX_FREIGHT_SERVICES = [
+  "FEDEX_FREIGHT_PRIORITY",
+  "FEDEX_FREIGHT_ECONOMY",
+] as const;
+
+// =============================================================================
+// Carrier Configuration
+// =============================================================================
+
+export const CARRIER_IDS: readonly CarrierId[] = ["fedex", "ups", "usps"];
+// Carriers rated when ENABLED_CARRIERS is not set
+export const DEFAULT_ENABLED_CARRIERS: readonly CarrierId[] = ["fedex"];
+export const CARRIER_API_TIMEOUT_MS = 8000;
+
+export const UPS_API_BASE_PRODUCTION = "https://onlinetools.ups.com";
+export const UPS_API_BASE_SANDBOX = "https://wwwcie.ups.com";
+export const UPS_RATING_API_VERSION = "v2409";
+export const UPS_TOKEN_EXPIRY_BUFFER_SECONDS = 60;
+
+export function getUPSApiBase(useSandbox: boolean): string {
+  return useSandbox ? UPS_API_BASE_SANDBOX : UPS_API_BASE_PRODUCTION;
+}
+
+// UPS service codes we offer, keyed by the code UPS returns
+export const UPS_SERVICES: Record<
+  string,
+  { serviceType: string; name: string; ground: boolean; international: boolean }
+> = {
+  "03": { serviceType: "UPS_GROUND", name: "UPS Ground", ground: true, international: false },
+  "12": { serviceType: "UPS_3_DAY_SELECT", name: "UPS 3 Day Select", ground: false, international: false },
+  "02": { serviceType: "UPS_2ND_DAY_AIR", name: "UPS 2nd Day Air", ground: false, international: false },
+  "13": { serviceType: "UPS_NEXT_DAY_AIR_SAVER", name: "UPS Next Day Air Saver", ground: false, international: false },
+  "01": { serviceType: "UPS_NEXT_DAY_AIR", name: "UPS Next Day Air", ground: false, international: false },
+  "08": { serviceType: "UPS_WORLDWIDE_EXPEDITED", name: "UPS Worldwide Expedited", ground: false, international: true },
+  "65": { serviceType: "UPS_WORLDWIDE_SAVER", name: "UPS Worldwide Saver", ground: false, international: true },
+};
+
+export const USPS_API_BASE_PRODUCTION = "https://apis.usps.com";
+export const USPS_API_BASE_SANDBOX = "https://apis-tem.usps.com";
+export const USPS_TOKEN_EXPIRY_BUFFER_SECONDS = 60;
+
+export function getUSPSApiBase(useSandbox: boolean): string {
+  return useSandbox ? USPS_API_BASE_SANDBOX : USPS_API_BASE_PRODUCTION;
+}
+
+// USPS mail classes we offer. The Prices API does not return transit times,
+// so these are USPS published service standards.
+export const USPS_SERVICES: Record<
+  USPSMailClass,
+  { serviceType: string; name: string; ground: boolean; transitDays: number }
+> = {
+  USPS_GROUND_ADVANTAGE: { serviceType: "USPS_GROUND_ADVANTAGE", name: "USPS Ground Advantage", ground: true, transitDays: 5 },
+  PRIORITY_MAIL: { serviceType: "USPS_PRIORITY_MAIL", name: "USPS Priority Mail", ground: false, transitDays: 3 },
+  PRIORITY_MAIL_EXPRESS: { serviceType: "USPS_PRIORITY_MAIL_EXPRESS", name: "USPS Priority Mail Express", ground: false, transitDays: 1 },
 };
+// USPS does not accept parcels over 70 lbs
+export const USPS_MAX_PACKAGE_WEIGHT_LBS = 70;
+
+// =============================================================================
+// Runtime Configuration (KV)
+// =============================================================================
+
+export const CONFIG_KV_KEY = "config";
+export const CONFIG_SCHEMA_VERSION = 1;
+export const CONFIG_CACHE_TTL_MS = 60_000;
+export const CONFIG_AUDIT_KEY_PREFIX = "audit:";
+export const CONFIG_AUDIT_LIST_LIMIT = 100;
+
+// =============================================================================
+// Rate Quote Cache
+// =============================================================================
+
+export const RATE_CACHE_KEY_PREFIX = "rates:";
+export const RATE_CACHE_DEFAULT_TTL_SECONDS = 900;
+// Workers KV rejects expirationTtl values below 60 seconds
+export const RATE_CACHE_MIN_TTL_SECONDS = 60;
+
+// Last successful quote per lane, used when FedEx errors or times out
+export const LAST_GOOD_RATE_KEY_PREFIX = "lane:";
+export const STALE_RATE_DEFAULT_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+// Residential/business classification per destination address
+export const ADDRESS_CLASSIFICATION_KEY_PREFIX = "addr:";
+export const ADDRESS_CLASSIFICATION_TTL_SECONDS = 30 * 24 * 60 * 60;
 
 // =============================================================================
 // Unit Conversions
 // =============================================================================
 
 export const GRAMS_PER_LB = 453.592;
+export const DIM_WEIGHT_DIVISOR = 139;
+
+// Cost-optimized packing (PACKING_MODE=cost_optimized) scores each plan as
+// billable weight x this rough per-pound rate plus box material costs
+export const PACKING_COST_PER_BILLABLE_LB_CENTS = 100;
+export const PACKING_TIME_BUDGET_MS = 50;
 
 // =============================================================================
 // Shipping Configuration
@@ -74,6 +187,7 @@ export const BOX_CONFIGS: BoxConfig[] = [
     height: 9,
     maxWeightLbs: 30,
     emptyWeightLbs: 2,
+    materialCostCents: 150,
   },
   {
     name: "4-gallon",
@@ -82,12 +196,166 @@ export const BOX_CONFIGS: BoxConfig[] = [
     height: 9,
     maxWeightLbs: 55,
     emptyWeightLbs: 3,
+    materialCostCents: 225,
   },
 ];
 
+// FedEx charges the dangerous goods surcharge per package
 export const HAZMAT_FEES_CENTS: HazmatFees = {
-  ground_per_order: 3000,
-  air_per_order: 12500,
+  ground: {
+    per_order: 0,
+    per_package: 0,
+    per_hazmat_package: 3000,
+    per_inaccessible_package: 3000,
+  },
+  air: {
+    per_order: 0,
+    per_package: 0,
+    per_hazmat_package: 12500,
+    per_inaccessible_package: 12500,
+  },
+  international: {
+    per_order: 0,
+    per_package: 0,
+    per_hazmat_package: 12500,
+    per_inaccessible_package: 12500,
+  },
+};
+
+// Hazard classes FedEx Express accepts as inaccessible dangerous goods,
+// in any packing group or only in Packing Group III
+export const INACCESSIBLE_HAZARD_CLASSES: readonly string[] = ["2.2", "9"];
+export const INACCESSIBLE_PACKING_GROUP_III_CLASSES: readonly string[] = ["3", "6.1"];
+
+// 49 CFR 177.848(d) segregation table, both "X" (not together) and "O"
+// (separated) entries. Explosive compatibility groups are not modeled, and
+// the 2.3 and 6.1 rows are the stricter inhalation hazard Zone A rows.
+const EXPLOSIVE_INCOMPATIBLE_CLASSES = [
+  "2.1", "2.2", "2.3", "3", "4.1", "4.2", "4.3", "5.1", "5.2", "6.1", "7", "8",
+];
+
+export const HAZMAT_SEGREGATION: HazmatSegregationConfig = {
+  incompatibleClasses: {
+    "1.1": EXPLOSIVE_INCOMPATIBLE_CLASSES,
+    "1.2": EXPLOSIVE_INCOMPATIBLE_CLASSES,
+    "1.3": ["2.1", "2.3", "3", "4.2", "4.3", "5.1", "5.2", "6.1", "8"],
+    "1.4": ["2.1", "2.3", "3", "4.2", "5.2", "6.1", "8"],
+    "1.5": EXPLOSIVE_INCOMPATIBLE_CLASSES,
+    "2.1": ["2.3", "6.1", "7"],
+    "2.3": ["3", "4.1", "4.2", "4.3", "5.1", "5.2", "8"],
+    "3": ["5.1", "6.1"],
+    "4.1": ["6.1"],
+    "4.2": ["6.1", "8"],
+    "4.3": ["6.1", "8"],
+    "5.1": ["6.1", "8"],
+    "5.2": ["6.1", "8"],
+    "6.1": ["8"],
+  },
+  separateNonHazmat: false,
+};
+
+// Federal holidays, skipped by calendars that set observeFederalHolidays
+export const US_FEDERAL_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+  { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+  { name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+  { name: "Juneteenth", month: 6, day: 19 },
+  { name: "Independence Day", month: 7, day: 4 },
+  { name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+  { name: "Columbus Day", month: 10, weekday: 1, nth: 2 },
+  { name: "Veterans Day", month: 11, day: 11 },
+  { name: "Thanksgiving Day", month: 11, weekday: 4, nth: 4 },
+  { name: "Christmas Day", month: 12, day: 25 },
+];
+
+// Days FedEx does not pick up or deliver
+export const FEDEX_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", month: 1, day: 1 },
+  { name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+  { name: "Independence Day", month: 7, day: 4 },
+  { name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+  { name: "Thanksgiving Day", month: 11, weekday: 4, nth: 4 },
+  { name: "Christmas Day", month: 12, day: 25 },
+];
+
+export const CALENDAR_CONFIG: CalendarConfig = {
+  observeFederalHolidays: false,
+  closures: [],
+};
+
+// Miami warehouse: orders placed by 2pm Eastern go out with the 5pm FedEx
+// pickup, Monday to Friday
+export const SHIP_SCHEDULE: ShipScheduleConfig = {
+  timezone: "America/New_York",
+  cutoffTime: "14:00",
+  pickups: [null, "17:00", "17:00", "17:00", "17:00", "17:00", null],
+};
+
+// Other stocking locations and drop-ship points. Configured per store in
+// the KV document; by default everything ships from the Shopify origin.
+export const WAREHOUSES: WarehouseConfig[] = [];
+
+// Drop-ship vendors, configured in the KV document like warehouses
+export const VENDOR_PROFILES: VendorProfile[] = [];
+
+// Transit assumed for vendors shipping on their own carrier account
+export const VENDOR_TRANSIT_DAYS = { min: 2, max: 5 };
+
+// Markups, discounts and free-shipping rules applied to every quote.
+// Configured per store in the KV document; none by default.
+export const RATE_RULES: RateRule[] = [];
+
+// Split-shipment rates use their service's code with this suffix; rate
+// rules match them by the service code without it
+export const SPLIT_SERVICE_CODE_SUFFIX = "_SPLIT";
+
+// Approximate FedEx zones from Miami (331xx) by destination ZIP3, with
+// per-zone estimates used only when FedEx cannot be reached
+export const FALLBACK_RATE_TABLE: FallbackRateTable = {
+  zones: [
+    { fromZip3: "330", toZip3: "334", zone: 2 },
+    { fromZip3: "335", toZip3: "349", zone: 3 },
+    { fromZip3: "290", toZip3: "329", zone: 4 },
+    { fromZip3: "350", toZip3: "369", zone: 4 },
+    { fromZip3: "200", toZip3: "289", zone: 5 },
+    { fromZip3: "370", toZip3: "429", zone: 5 },
+    { fromZip3: "700", toZip3: "729", zone: 5 },
+    { fromZip3: "005", toZip3: "199", zone: 6 },
+    { fromZip3: "430", toZip3: "699", zone: 6 },
+    { fromZip3: "730", toZip3: "799", zone: 6 },
+    { fromZip3: "800", toZip3: "899", zone: 7 },
+    { fromZip3: "900", toZip3: "999", zone: 8 },
+  ],
+  rates: [
+    { zone: 2, serviceType: "FEDEX_GROUND", baseCents: 1100, perLbCents: 40, transitDays: 1 },
+    { zone: 3, serviceType: "FEDEX_GROUND", baseCents: 1200, perLbCents: 50, transitDays: 2 },
+    { zone: 4, serviceType: "FEDEX_GROUND", baseCents: 1300, perLbCents: 60, transitDays: 2 },
+    { zone: 5, serviceType: "FEDEX_GROUND", baseCents: 1400, perLbCents: 75, transitDays: 3 },
+    { zone: 6, serviceType: "FEDEX_GROUND", baseCents: 1500, perLbCents: 90, transitDays: 4 },
+    { zone: 7, serviceType: "FEDEX_GROUND", baseCents: 1600, perLbCents: 105, transitDays: 5 },
+    { zone: 8, serviceType: "FEDEX_GROUND", baseCents: 1700, perLbCents: 120, transitDays: 5 },
+    { zone: 2, serviceType: "FEDEX_2_DAY", baseCents: 2800, perLbCents: 110, transitDays: 2 },
+    { zone: 3, serviceType: "FEDEX_2_DAY", baseCents: 3000, perLbCents: 130, transitDays: 2 },
+    { zone: 4, serviceType: "FEDEX_2_DAY", baseCents: 3300, perLbCents: 150, transitDays: 2 },
+    { zone: 5, serviceType: "FEDEX_2_DAY", baseCents: 3600, perLbCents: 175, transitDays: 2 },
+    { zone: 6, serviceType: "FEDEX_2_DAY", baseCents: 3900, perLbCents: 200, transitDays: 2 },
+    { zone: 7, serviceType: "FEDEX_2_DAY", baseCents: 4200, perLbCents: 225, transitDays: 2 },
+    { zone: 8, serviceType: "FEDEX_2_DAY", baseCents: 4500, perLbCents: 250, transitDays: 2 },
+  ],
+};
+
+// Standard 48x40 pallets; paint and coatings ship as class 55
+export const FREIGHT_CONFIG: FreightConfig = {
+  pallet: {
+    length: 48,
+    width: 40,
+    height: 6,
+    maxHeight: 72,
+    tareWeightLbs: 50,
+  },
+  freightClass: "CLASS_055",
+  minWeightLbs: 300,
 };
 
 // =============================================================================
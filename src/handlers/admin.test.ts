@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import app from "../index";
+import { clearRuntimeConfigCache } from "../services/runtime-config";
+import { BOX_CONFIGS, CONFIG_KV_KEY, HAZMAT_FEES_CENTS } from "../config";
+import type { AuditEntry, Env, RuntimeConfigDocument } from "../types";
+
+function createMemoryKV() {
+  const store = new Map<string, string>();
+  const kv = {
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = store.get(key);
+      if (value === undefined) return null;
+      return type === "json" ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    list: vi.fn(async ({ prefix = "", limit = 1000 }: { prefix?: string; limit?: number }) => ({
+      keys: [...store.keys()]
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .slice(0, limit)
+        .map((name) => ({ name })),
+    })),
+  };
+  return { kv: kv as unknown as KVNamespace, store };
+}
+
+let store: Map<string, string>;
+let env: Env;
+
+beforeEach(() => {
+  clearRuntimeConfigCache();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  const memory = createMemoryKV();
+  store = memory.store;
+  env = {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123",
+    CONFIG_KV: memory.kv,
+    ADMIN_API_KEYS: "alice:alice-token,bob:bob-token",
+  };
+});
+
+function adminRequest(
+  path: string,
+  init: { method?: string; body?: unknown; token?: string; ifMatch?: string } = {},
+) {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${init.token ?? "alice-token"}`,
+  };
+  if (init.body !== undefined) headers["Content-Type"] = "application/json";
+  if (init.ifMatch !== undefined) headers["If-Match"] = init.ifMatch;
+  return app.request(
+    `/admin${path}`,
+    {
+      method: init.method ?? "GET",
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    },
+    env,
+  );
+}
+
+function storedDocument(): RuntimeConfigDocument {
+  return JSON.parse(store.get(CONFIG_KV_KEY)!);
+}
+
+const NEW_BOX = {
+  name: "5-gallon",
+  length: 16,
+  width: 16,
+  height: 16,
+  maxWeightLbs: 60,
+  emptyWeightLbs: 4,
+};
+
+describe("admin authentication", () => {
+  it("rejects requests without a token", async () => {
+    const res = await app.request("/admin/boxes", {}, env);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects unknown tokens", async () => {
+    const res = await adminRequest("/boxes", { token: "nope" });
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects everything when no keys are configured", async () => {
+    env.ADMIN_API_KEYS = undefined;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await adminRequest("/boxes");
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("box management", () => {
+  it("lists the default boxes before anything is stored", async () => {
+    const res = await adminRequest("/boxes");
+    const json = (await res.json()) as { boxes: unknown[] };
+
+    expect(res.status).toBe(200);
+    expect(json.boxes).toEqual(BOX_CONFIGS);
+  });
+
+  it("creates a box and seeds KV from the defaults", async () => {
+    const res = await adminRequest("/boxes", { method: "POST", body: NEW_BOX });
+
+    expect(res.status).toBe(200);
+    const document = storedDocument();
+    expect(document.boxes).toHaveLength(BOX_CONFIGS.length + 1);
+    expect(document.localDeliveryZips).toContain("33172");
+  });
+
+  it("rejects a box whose empty weight is not below max weight", async () => {
+    const res = await adminRequest("/boxes", {
+      method: "POST",
+      body: { ...NEW_BOX, emptyWeightLbs: 60 },
+    });
+    const json = (await res.json()) as { error: string };
+
+    expect(res.status).toBe(400);
+    expect(json.error).toContain("emptyWeightLbs must be less than maxWeightLbs");
+    expect(store.has(CONFIG_KV_KEY)).toBe(false);
+  });
+
+  it("rejects duplicate box names", async () => {
+    const res = await adminRequest("/boxes", {
+      method: "POST",
+      body: { ...NEW_BOX, name: "2-gallon" },
+    });
+    expect(res.status).toBe(409);
+  });
+
+  it("updates an existing box", async () => {
+    const res = await adminRequest("/boxes/2-gallon", {
+      method: "PUT",
+      body: { length: 10, width: 15, height: 9, maxWeightLbs: 32, emptyWeightLbs: 2 },
+    });
+
+    expect(res.status).toBe(200);
+    const box = storedDocument().boxes.find((b) => b.name === "2-gallon");
+    expect(box?.maxWeightLbs).toBe(32);
+  });
+
+  it("rejects renaming a box through an update", async () => {
+    const res = await adminRequest("/boxes/2-gallon", {
+      method: "PUT",
+      body: { ...NEW_BOX, name: "renamed" },
+    });
+
+    expect(res.status).toBe(400);
+    expect(store.has(CONFIG_KV_KEY)).toBe(false);
+  });
+
+  it("returns 404 when updating a missing box", async () => {
+    const res = await adminRequest("/boxes/missing", { method: "PUT", body: NEW_BOX });
+    expect(res.status).toBe(404);
+  });
+
+  it("deletes a box but never the last one", async () => {
+    const first = await adminRequest("/boxes/2-gallon", { method: "DELETE" });
+    expect(first.status).toBe(200);
+    expect(storedDocument().boxes.map((b) => b.name)).toEqual(["4-gallon"]);
+
+    const last = await adminRequest("/boxes/4-gallon", { method: "DELETE" });
+    expect(last.status).toBe(400);
+  });
+});
+
+describe("hazmat fees", () => {
+  it("updates fees", async () => {
+    const res = await adminRequest("/hazmat-fees", {
+      method: "PUT",
+      body: { ...HAZMAT_FEES_CENTS, ground: { ...HAZMAT_FEES_CENTS.ground, per_package: 500 } },
+    });
+
+    expect(res.status).toBe(200);
+    expect(storedDocument().hazmatFees.ground.per_package).toBe(500);
+  });
+
+  it("rejects negative fees", async () => {
+    const res = await adminRequest("/hazmat-fees", {
+      method: "PUT",
+      body: { ...HAZMAT_FEES_CENTS, air: { ...HAZMAT_FEES_CENTS.air, per_order: -1 } },
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("local delivery zips", () => {
+  it("adds zips", async () => {
+    const res = await adminRequest("/local-zips", {
+      method: "POST",
+      body: { zips: ["33999"] },
+    });
+
+    expect(res.status).toBe(200);
+    expect(storedDocument().localDeliveryZips).toContain("33999");
+  });
+
+  it("lists each added zip once", async () => {
+    await adminRequest("/local-zips", {
+      method: "POST",
+      body: { zips: ["33999", " 33999", "33172"] },
+    });
+
+    const res = await adminRequest("/audit");
+    const json = (await res.json()) as { entries: AuditEntry[] };
+    expect(json.entries[0].after).toEqual(["33999"]);
+    expect(storedDocument().localDeliveryZips.filter((zip) => zip === "33999")).toHaveLength(1);
+  });
+
+  it("rejects malformed zips", async () => {
+    const res = await adminRequest("/local-zips", {
+      method: "POST",
+      body: { zips: ["ABCDE"] },
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("removes a zip", async () => {
+    const res = await adminRequest("/local-zips/33172", { method: "DELETE" });
+
+    expect(res.status).toBe(200);
+    expect(storedDocument().localDeliveryZips).not.toContain("33172");
+  });
+
+  it("returns 404 when removing a zip that is not listed", async () => {
+    const res = await adminRequest("/local-zips/90210", { method: "DELETE" });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("concurrent edits", () => {
+  it("tags the config with its revision and bumps it on every write", async () => {
+    const before = await adminRequest("/config");
+    expect(before.headers.get("ETag")).toBe('"0"');
+
+    const res = await adminRequest("/boxes", { method: "POST", body: NEW_BOX, ifMatch: '"0"' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe('"1"');
+    expect(storedDocument().revision).toBe(1);
+  });
+
+  it("rejects a write based on a stale revision", async () => {
+    const { headers } = await adminRequest("/config");
+    const etag = headers.get("ETag")!;
+    await adminRequest("/local-zips", { method: "POST", body: { zips: ["33101"] }, ifMatch: etag });
+
+    const res = await adminRequest("/boxes", {
+      method: "POST",
+      body: NEW_BOX,
+      token: "bob-token",
+      ifMatch: etag,
+    });
+    const json = (await res.json()) as { error: string };
+
+    expect(res.status).toBe(409);
+    expect(json.error).toContain("revision 1");
+    expect(storedDocument().boxes).toHaveLength(BOX_CONFIGS.length);
+    expect(storedDocument().localDeliveryZips).toContain("33101");
+  });
+});
+
+describe("audit log", () => {
+  it("records who changed what, newest first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T10:00:00Z"));
+    await adminRequest("/boxes", { method: "POST", body: NEW_BOX });
+    vi.setSystemTime(new Date("2026-01-05T10:05:00Z"));
+    await adminRequest("/local-zips/33172", { method: "DELETE", token: "bob-token" });
+    vi.useRealTimers();
+
+    const res = await adminRequest("/audit");
+    const json = (await res.json()) as { entries: AuditEntry[] };
+
+    expect(json.entries).toHaveLength(2);
+    expect(json.entries[0]).toMatchObject({
+      actor: "bob",
+      action: "local_zips.remove",
+      before: "33172",
+      timestamp: "2026-01-05T10:05:00.000Z",
+    });
+    expect(json.entries[1]).toMatchObject({
+      actor: "alice",
+      action: "box.create",
+      after: NEW_BOX,
+    });
+  });
+
+  it("does not audit rejected writes", async () => {
+    await adminRequest("/hazmat-fees", { method: "PUT", body: {} });
+
+    const res = await adminRequest("/audit");
+    const json = (await res.json()) as { entries: AuditEntry[] };
+    expect(json.entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,241 @@
+import type { Context } from "hono";
+import type { BoxConfig, RuntimeConfigDocument } from "../types";
+import type { AdminEnv } from "../middleware/admin-auth";
+import {
+  getConfigDocument,
+  getConfigRevision,
+  saveConfigDocument,
+  listAuditEntries,
+} from "../services/config-store";
+import {
+  ConfigValidationError,
+  validateBoxConfig,
+  validateHazmatFees,
+} from "../services/runtime-config";
+import { createLogger } from "../services/logger";
+
+type AdminContext = Context<AdminEnv>;
+
+class AdminRequestError extends Error {
+  status: 400 | 404 | 409;
+
+  constructor(status: 400 | 404 | 409, message: string) {
+    super(message);
+    this.name = "AdminRequestError";
+    this.status = status;
+  }
+}
+
+function errorResponse(c: AdminContext, error: unknown): Response {
+  if (error instanceof AdminRequestError) {
+    return c.json({ error: error.message }, error.status);
+  }
+  if (error instanceof ConfigValidationError) {
+    return c.json({ error: error.message }, 400);
+  }
+  throw error;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The revision is sent as an ETag so edits can be made conditional
+function setRevisionTag(c: AdminContext, document: RuntimeConfigDocument): void {
+  c.header("ETag", `"${getConfigRevision(document)}"`);
+}
+
+/**
+ * Writes sent with If-Match must be based on the current revision, so an
+ * admin never overwrites a change they have not seen. Without the header
+ * the last write wins.
+ */
+function checkIfMatch(c: AdminContext, document: RuntimeConfigDocument): void {
+  const ifMatch = c.req.header("If-Match");
+  if (ifMatch === undefined || ifMatch.trim() === "*") return;
+  const revision = `"${getConfigRevision(document)}"`;
+  const tags = ifMatch.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+  if (!tags.includes(revision)) {
+    throw new AdminRequestError(
+      409,
+      `Config has changed (now revision ${getConfigRevision(document)}); reload it and retry`,
+    );
+  }
+}
+
+async function readJsonBody(c: AdminContext): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    throw new AdminRequestError(400, "Request body must be valid JSON");
+  }
+}
+
+/**
+ * Load the config document, apply a change, validate, persist and audit it.
+ */
+async function updateConfig(
+  c: AdminContext,
+  action: string,
+  target: string,
+  mutate: (document: RuntimeConfigDocument) => Promise<{
+    document: RuntimeConfigDocument;
+    before: unknown;
+    after: unknown;
+  }>,
+): Promise<Response> {
+  const kv = c.env.CONFIG_KV;
+  if (!kv) {
+    return c.json({ error: "CONFIG_KV binding not configured" }, 503);
+  }
+
+  try {
+    const current = await getConfigDocument(kv);
+    checkIfMatch(c, current);
+    const { document, before, after } = await mutate(structuredClone(current));
+    const saved = await saveConfigDocument(
+      kv,
+      document,
+      { actor: c.get("adminUser"), action, target, before, after },
+      createLogger(c.env.LOG === "full"),
+    );
+    setRevisionTag(c, saved);
+    return c.json(saved, 200);
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+}
+
+async function readConfig(c: AdminContext): Promise<RuntimeConfigDocument | Response> {
+  const kv = c.env.CONFIG_KV;
+  if (!kv) {
+    return c.json({ error: "CONFIG_KV binding not configured" }, 503);
+  }
+  try {
+    const document = await getConfigDocument(kv);
+    setRevisionTag(c, document);
+    return document;
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+}
+
+export async function handleGetConfig(c: AdminContext): Promise<Response> {
+  const document = await readConfig(c);
+  return document instanceof Response ? document : c.json(document, 200);
+}
+
+export async function handleListBoxes(c: AdminContext): Promise<Response> {
+  const document = await readConfig(c);
+  return document instanceof Response
+    ? document
+    : c.json({ boxes: document.boxes }, 200);
+}
+
+export function handleCreateBox(c: AdminContext): Promise<Response> {
+  return updateConfig(c, "box.create", "boxes", async (document) => {
+    const box = validateBoxConfig(await readJsonBody(c), "box");
+    if (document.boxes.some((existing) => existing.name === box.name)) {
+      throw new AdminRequestError(409, `Box "${box.name}" already exists`);
+    }
+    document.boxes.push(box);
+    return { document, before: null, after: box };
+  });
+}
+
+export function handleUpdateBox(c: AdminContext): Promise<Response> {
+  const name = c.req.param("name");
+  return updateConfig(c, "box.update", `boxes/${name}`, async (document) => {
+    const index = document.boxes.findIndex((box) => box.name === name);
+    if (index === -1) {
+      throw new AdminRequestError(404, `Box "${name}" not found`);
+    }
+    const body = await readJsonBody(c);
+    if (isRecord(body) && body.name !== undefined && body.name !== name) {
+      throw new AdminRequestError(
+        400,
+        "Box names cannot be changed; delete the box and create a new one",
+      );
+    }
+    const box: BoxConfig = validateBoxConfig(
+      isRecord(body) ? { ...body, name } : body,
+      "box",
+    );
+    const before = document.boxes[index];
+    document.boxes[index] = box;
+    return { document, before, after: box };
+  });
+}
+
+export function handleDeleteBox(c: AdminContext): Promise<Response> {
+  const name = c.req.param("name");
+  return updateConfig(c, "box.delete", `boxes/${name}`, async (document) => {
+    const before = document.boxes.find((box) => box.name === name);
+    if (!before) {
+      throw new AdminRequestError(404, `Box "${name}" not found`);
+    }
+    document.boxes = document.boxes.filter((box) => box.name !== name);
+    return { document, before, after: null };
+  });
+}
+
+export async function handleGetHazmatFees(c: AdminContext): Promise<Response> {
+  const document = await readConfig(c);
+  return document instanceof Response
+    ? document
+    : c.json(document.hazmatFees, 200);
+}
+
+export function handleUpdateHazmatFees(c: AdminContext): Promise<Response> {
+  return updateConfig(c, "hazmat_fees.update", "hazmatFees", async (document) => {
+    const fees = validateHazmatFees(await readJsonBody(c));
+    const before = document.hazmatFees;
+    document.hazmatFees = fees;
+    return { document, before, after: fees };
+  });
+}
+
+export async function handleListLocalZips(c: AdminContext): Promise<Response> {
+  const document = await readConfig(c);
+  return document instanceof Response
+    ? document
+    : c.json({ zips: document.localDeliveryZips }, 200);
+}
+
+export function handleAddLocalZips(c: AdminContext): Promise<Response> {
+  return updateConfig(c, "local_zips.add", "localDeliveryZips", async (document) => {
+    const body = (await readJsonBody(c)) as { zips?: unknown };
+    if (
+      !Array.isArray(body?.zips) ||
+      body.zips.length === 0 ||
+      !body.zips.every((zip) => typeof zip === "string")
+    ) {
+      throw new AdminRequestError(400, "zips must be a non-empty array of strings");
+    }
+    const existing = new Set(document.localDeliveryZips);
+    const added = [...new Set((body.zips as string[]).map((zip) => zip.trim()))].filter(
+      (zip) => !existing.has(zip),
+    );
+    document.localDeliveryZips = [...new Set([...existing, ...added])].sort();
+    return { document, before: null, after: added };
+  });
+}
+
+export function handleRemoveLocalZip(c: AdminContext): Promise<Response> {
+  const zip = c.req.param("zip");
+  return updateConfig(c, "local_zips.remove", `localDeliveryZips/${zip}`, async (document) => {
+    if (!document.localDeliveryZips.includes(zip)) {
+      throw new AdminRequestError(404, `Zip "${zip}" is not a local delivery zip`);
+    }
+    document.localDeliveryZips = document.localDeliveryZips.filter((z) => z !== zip);
+    return { document, before: zip, after: null };
+  });
+}
+
+export async function handleListAuditEntries(c: AdminContext): Promise<Response> {
+  const kv = c.env.CONFIG_KV;
+  if (!kv) {
+    return c.json({ error: "CONFIG_KV binding not configured" }, 503);
+  }
+  return c.json({ entries: await listAuditEntries(kv) }, 200);
+}
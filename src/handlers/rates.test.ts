@@ -1,6 +1,24 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { parseFedExRateResponse, isGroundService } from '../services/fedex';
-import type { FedExRateResponse, ParsedFedExRate } from '../types';
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import { Hono } from 'hono';
+import { handleRateRequest } from './rates';
+import {
+  parseFedExRateResponse,
+  isGroundService,
+  buildFedExRateRequest,
+} from '../services/fedex';
+import {
+  clearRuntimeConfigCache,
+  getDefaultRuntimeConfig,
+} from '../services/runtime-config';
+import { documentFromRuntimeConfig } from '../services/config-store';
+import type {
+  Env,
+  FedExAddress,
+  FedExRateResponse,
+  ParsedFedExRate,
+  ShopifyRateRequest,
+  ShopifyRateResponse,
+} from '../types';
 
 const mockFedExResponse: FedExRateResponse = {
   transactionId: 'test-transaction-123',
@@ -108,6 +126,29 @@ describe('parseFedExRateResponse', () => {
     expect(twoDayRate?.transitDays).toBe(2);
   });
 
+  it('keeps the maximum transit time of a transit range', () => {
+    const rates = parseFedExRateResponse(
+      {
+        output: {
+          rateReplyDetails: [
+            {
+              serviceType: 'FEDEX_GROUND',
+              ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 25.5 }],
+              commit: {
+                transitDays: { minimumTransitTime: 'TWO_DAYS', maximumTransitTime: 'FOUR_DAYS' },
+              },
+            },
+          ],
+        },
+      },
+      false,
+    );
+
+    expect(rates[0].transitDays).toBe(2);
+    expect(rates[0].maxTransitDays).toBe(4);
+    expect(parseFedExRateResponse(mockFedExResponse, false)[0].maxTransitDays).toBeUndefined();
+  });
+
   it('extracts delivery date when available', () => {
     const rates = parseFedExRateResponse(mockFedExResponse, false);
 
@@ -156,6 +197,54 @@ describe('parseFedExRateResponse', () => {
   });
 });
 
+describe('buildFedExRateRequest', () => {
+  const shipper: FedExAddress = {
+    city: 'Miami',
+    stateOrProvinceCode: 'FL',
+    postalCode: '33172',
+    countryCode: 'US',
+  };
+  const recipient: FedExAddress = {
+    city: 'Snowflake',
+    stateOrProvinceCode: 'AZ',
+    postalCode: '85937',
+    countryCode: 'US',
+  };
+
+  it('bills the sender account by default', () => {
+    const request = buildFedExRateRequest(shipper, recipient, [], '111111111');
+    const payment = request.requestedShipment.shippingChargesPayment;
+
+    expect(payment?.paymentType).toBe('SENDER');
+    expect(payment?.payor?.responsibleParty.accountNumber.value).toBe('111111111');
+  });
+
+  it('bills the customer account when a payor is given', () => {
+    const request = buildFedExRateRequest(shipper, recipient, [], '111111111', {
+      paymentType: 'RECIPIENT',
+      accountNumber: '222222222',
+    });
+    const payment = request.requestedShipment.shippingChargesPayment;
+
+    expect(request.accountNumber.value).toBe('111111111');
+    expect(payment?.paymentType).toBe('RECIPIENT');
+    expect(payment?.payor?.responsibleParty.accountNumber.value).toBe('222222222');
+  });
+
+  it('stamps the given ship date', () => {
+    const request = buildFedExRateRequest(
+      shipper,
+      recipient,
+      [],
+      '111111111',
+      undefined,
+      new Date('2025-01-16T00:00:00Z'),
+    );
+
+    expect(request.requestedShipment.shipDateStamp).toBe('2025-01-16');
+  });
+});
+
 describe('isGroundService', () => {
   it('returns true for FEDEX_GROUND', () => {
     expect(isGroundService('FEDEX_GROUND')).toBe(true);
@@ -423,3 +512,1264 @@ describe('mock FedEx rate generation', () => {
     });
   });
 });
+
+describe('handleRateRequest', () => {
+  const rateRequest: ShopifyRateRequest = {
+    rate: {
+      origin: {
+        country: 'US',
+        postal_code: '33172',
+        province: 'FL',
+        city: 'Miami',
+        name: 'JDL',
+        address1: '9500 NW 12th St',
+        address2: '',
+        phone: '',
+      },
+      destination: {
+        country: 'US',
+        postal_code: '85937',
+        province: 'AZ',
+        city: 'Snowflake',
+        name: 'Test',
+        address1: '123 Main St',
+        address2: '',
+        phone: '',
+      },
+      items: [
+        {
+          name: 'Primer',
+          sku: 'PRIMER-1',
+          quantity: 1,
+          grams: 5000,
+          price: 5000,
+          vendor: 'JDL',
+          requires_shipping: true,
+          taxable: true,
+          fulfillment_service: 'manual',
+          properties: {},
+          product_id: 1,
+          variant_id: 1,
+        },
+      ],
+      currency: 'USD',
+      locale: 'en',
+    },
+  };
+
+  function createKV(store = new Map<string, string>()) {
+    return {
+      store,
+      get: vi.fn(async (key: string) => {
+        const value = store.get(key);
+        return value === undefined ? null : JSON.parse(value);
+      }),
+      put: vi.fn(async (key: string, value: string) => {
+        store.set(key, value);
+      }),
+    };
+  }
+
+  function createEnv(overrides: Partial<Env> = {}): Env {
+    return {
+      FEDEX_CLIENT_ID: 'id',
+      FEDEX_CLIENT_SECRET: 'secret',
+      FEDEX_ACCOUNT_NUMBER: '123456789',
+      ...overrides,
+    };
+  }
+
+  function postRates(env: Env, body: ShopifyRateRequest = rateRequest) {
+    const app = new Hono<{ Bindings: Env }>();
+    app.post('/rates', handleRateRequest);
+    return app.request(
+      '/rates',
+      { method: 'POST', body: JSON.stringify(body) },
+      env,
+    );
+  }
+
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/oauth/token')) {
+        return new Response(
+          JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+        );
+      }
+      return new Response(JSON.stringify(mockFedExResponse));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('skips FedEx entirely on a rate cache hit', async () => {
+    const env = createEnv({ RATE_CACHE: createKV() as unknown as KVNamespace });
+
+    const first = await postRates(env);
+    const firstJson = (await first.json()) as ShopifyRateResponse;
+    const rateCalls = () =>
+      fetchMock.mock.calls.filter(([url]) => String(url).includes('/rate/v1/')).length;
+    expect(rateCalls()).toBe(1);
+
+    const callsBefore = fetchMock.mock.calls.length;
+    const second = await postRates(env);
+    const secondJson = (await second.json()) as ShopifyRateResponse;
+
+    expect(fetchMock.mock.calls.length).toBe(callsBefore);
+    expect(secondJson).toEqual(firstJson);
+    expect(console.log).toHaveBeenCalledWith('Rate cache hit', expect.anything());
+  });
+
+  it('calls FedEx on every request when no cache is bound', async () => {
+    const env = createEnv();
+
+    await postRates(env);
+    await postRates(env);
+
+    const rateCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('/rate/v1/'));
+    expect(rateCalls).toHaveLength(2);
+  });
+
+  it('bills own-account customers on their FedEx account', async () => {
+    const res = await postRates(
+      createEnv(),
+      withItem({
+        properties: { _customer_type: 'fedex_own_account', _fedex_account: '2222-2222-6' },
+      }),
+    );
+    const json = (await res.json()) as ShopifyRateResponse;
+
+    const [, init] = fetchMock.mock.calls.find(([url]) => url.includes('/rate/v1/'))!;
+    const payment = JSON.parse(String(init?.body)).requestedShipment.shippingChargesPayment;
+    expect(payment.paymentType).toBe('RECIPIENT');
+    expect(payment.payor.responsibleParty.accountNumber.value).toBe('222222226');
+
+    expect(json.rates.length).toBeGreaterThan(0);
+    for (const rate of json.rates) {
+      expect(rate.total_price).toBe('0');
+      expect(rate.description).toContain('Bill to your FedEx account 2226');
+    }
+  });
+
+  it('rates destinations with a company name as commercial', async () => {
+    const rateBody = () => {
+      const [, init] = fetchMock.mock.calls.find(([url]) => url.includes('/rate/v1/'))!;
+      return JSON.parse(String(init?.body));
+    };
+
+    await postRates(createEnv());
+    expect(rateBody().requestedShipment.recipient.address.residential).toBe(true);
+
+    fetchMock.mockClear();
+    await postRates(createEnv(), {
+      rate: {
+        ...rateRequest.rate,
+        destination: { ...rateRequest.rate.destination, company_name: 'Foo Company' },
+      },
+    });
+    expect(rateBody().requestedShipment.recipient.address.residential).toBe(false);
+  });
+
+  it('asks FedEx to rate for the day the order ships after the cutoff', async () => {
+    // Tuesday 4pm in Miami, after the 2pm cutoff: handling starts Wednesday
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-14T21:00:00Z'));
+    try {
+      await postRates(createEnv());
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const [, init] = fetchMock.mock.calls.find(([url]) => url.includes('/rate/v1/'))!;
+    expect(JSON.parse(String(init?.body)).requestedShipment.shipDateStamp).toBe('2025-01-16');
+  });
+
+  it('moves FedEx delivery dates by the lead time of backordered items', async () => {
+    // Tuesday 9am in Miami: in-stock orders ship Wednesday, Jan 10
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-09T14:00:00Z'));
+    let json: ShopifyRateResponse;
+    try {
+      const res = await postRates(
+        createEnv(),
+        withItem({ properties: { _in_stock: 'false', _lead_time: '3-5' } }),
+      );
+      json = (await res.json()) as ShopifyRateResponse;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    // FedEx commits to Friday the 12th for a Wednesday shipment; the cart
+    // ships 3 to 5 business days later
+    const twoDay = json.rates.find((rate) => rate.service_code === 'FEDEX_2_DAY');
+    expect(twoDay?.min_delivery_date).toBe('2024-01-17');
+    expect(twoDay?.max_delivery_date).toBe('2024-01-19');
+    expect(twoDay?.description ?? '').not.toContain('Delivery by');
+  });
+
+  it('offers split-shipment rates for carts with backordered items', async () => {
+    const backordered = {
+      ...rateRequest.rate.items[0],
+      name: 'Brush',
+      sku: 'BRUSH-1',
+      grams: 1000,
+      properties: { _in_stock: 'false', _lead_time: '5' },
+    };
+    const body = {
+      rate: { ...rateRequest.rate, items: [rateRequest.rate.items[0], backordered] },
+    };
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-09T14:00:00Z'));
+    let together: ShopifyRateResponse;
+    let split: ShopifyRateResponse;
+    try {
+      together = (await (await postRates(createEnv(), body)).json()) as ShopifyRateResponse;
+      split = (await (
+        await postRates(createEnv({ SPLIT_SHIPMENTS: 'true' }), body)
+      ).json()) as ShopifyRateResponse;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(together.rates.some((rate) => rate.service_code.endsWith('_SPLIT'))).toBe(false);
+
+    const twoDay = split.rates.find((rate) => rate.service_code === 'FEDEX_2_DAY');
+    const twoDaySplit = split.rates.find((rate) => rate.service_code === 'FEDEX_2_DAY_SPLIT');
+    // Each shipment is quoted $45.00 by the mock
+    expect(twoDaySplit?.service_name).toBe('FedEx 2Day (Split Shipment)');
+    expect(twoDaySplit?.total_price).toBe('9000');
+    expect(twoDaySplit?.description).toContain('Ships in 2 shipments: Primer now, Brush when in stock');
+    // Primer arrives on FedEx's date; Brush ships five business days later
+    expect(twoDaySplit?.min_delivery_date).toBe('2024-01-12');
+    expect(twoDaySplit?.max_delivery_date).toBe('2024-01-19');
+    expect(twoDay?.min_delivery_date).toBe('2024-01-19');
+  });
+
+  it('charges the per-order hazmat fee once on split-shipment rates', async () => {
+    const defaults = documentFromRuntimeConfig(getDefaultRuntimeConfig());
+    const document = {
+      ...defaults,
+      hazmatFees: {
+        ...defaults.hazmatFees,
+        ground: { ...defaults.hazmatFees.ground, per_order: 1000 },
+      },
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    const paint = { _un_number: 'UN1263', _hazard_class: '3', _packing_group: 'II' };
+    const backordered = {
+      ...rateRequest.rate.items[0],
+      name: 'Topcoat',
+      sku: 'TOPCOAT-1',
+      properties: { ...paint, _in_stock: 'false', _lead_time: '5' },
+    };
+    const body = {
+      rate: {
+        ...rateRequest.rate,
+        items: [{ ...rateRequest.rate.items[0], properties: paint }, backordered],
+      },
+    };
+    clearRuntimeConfigCache();
+
+    let json: ShopifyRateResponse;
+    try {
+      const res = await postRates(
+        createEnv({ SPLIT_SHIPMENTS: 'true', CONFIG_KV: kv as unknown as KVNamespace }),
+        body,
+      );
+      json = (await res.json()) as ShopifyRateResponse;
+    } finally {
+      clearRuntimeConfigCache();
+    }
+
+    // Two $25.50 shipments, one hazmat package each, and one order fee
+    const groundSplit = json.rates.find((rate) => rate.service_code === 'FEDEX_GROUND_SPLIT');
+    expect(groundSplit?.total_price).toBe(String(2 * 2550 + 1000 + 2 * 3000));
+    expect(groundSplit?.description).toContain(
+      'Includes $70.00 hazmat handling fee ($10.00 per order + 2 hazmat packages × $30.00)',
+    );
+  });
+
+  it('rates items from each warehouse and adds up the shipments per service', async () => {
+    const document = {
+      ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+      warehouses: [
+        {
+          id: 'hentzen',
+          name: 'Hentzen Coatings',
+          address: {
+            streetLines: ['6937 W Mill Rd'],
+            city: 'Milwaukee',
+            stateOrProvinceCode: 'WI',
+            postalCode: '53218',
+            countryCode: 'US',
+          },
+          inventoryTags: [],
+          vendors: ['Hentzen'],
+          // Drop-ship orders must be in by 8am Milwaukee time
+          shipSchedule: {
+            timezone: 'America/Chicago',
+            cutoffTime: '08:00',
+            pickups: [null, '15:00', '15:00', '15:00', '15:00', '15:00', null],
+          },
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    const topcoat = {
+      ...rateRequest.rate.items[0],
+      name: 'Topcoat',
+      sku: 'TOPCOAT-1',
+      vendor: 'Hentzen',
+    };
+    clearRuntimeConfigCache();
+
+    // Tuesday 9am in Miami, 8am in Milwaukee
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-09T14:00:00Z'));
+    let json: ShopifyRateResponse;
+    try {
+      const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }), {
+        rate: { ...rateRequest.rate, items: [rateRequest.rate.items[0], topcoat] },
+      });
+      json = (await res.json()) as ShopifyRateResponse;
+    } finally {
+      vi.useRealTimers();
+      clearRuntimeConfigCache();
+    }
+
+    const shipments = fetchMock.mock.calls
+      .filter(([url]) => url.includes('/rate/v1/'))
+      .map(([, init]) => JSON.parse(String(init?.body)).requestedShipment);
+    expect(
+      shipments.map((shipment) => [
+        shipment.shipper.address.postalCode,
+        shipment.shipDateStamp,
+      ]),
+    ).toEqual([
+      ['33172', '2024-01-10'],
+      ['53218', '2024-01-11'],
+    ]);
+
+    // Each shipment is quoted $45.00 by the mock
+    const twoDay = json.rates.find((rate) => rate.service_code === 'FEDEX_2_DAY');
+    expect(twoDay?.service_name).toBe('FedEx 2Day');
+    expect(twoDay?.total_price).toBe('9000');
+    expect(twoDay?.description).toContain(
+      'Ships in 2 shipments: Primer from Miami, Topcoat from Hentzen Coatings',
+    );
+    expect(json.rates.map((rate) => rate.service_code)).toEqual([
+      'FEDEX_GROUND',
+      'FEDEX_2_DAY',
+      'PRIORITY_OVERNIGHT',
+    ]);
+  });
+
+  describe('with a second warehouse', () => {
+    const warehouse = {
+      id: 'hentzen',
+      name: 'Hentzen Coatings',
+      address: {
+        streetLines: ['6937 W Mill Rd'],
+        city: 'Milwaukee',
+        stateOrProvinceCode: 'WI',
+        postalCode: '53218',
+        countryCode: 'US',
+      },
+      inventoryTags: [],
+      vendors: ['Hentzen'],
+    };
+    const topcoat = {
+      ...rateRequest.rate.items[0],
+      name: 'Topcoat',
+      sku: 'TOPCOAT-1',
+      vendor: 'Hentzen',
+    };
+
+    async function postWarehouseRates(document: object, items: ShopifyRateRequest['rate']['items']) {
+      const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+      clearRuntimeConfigCache();
+      try {
+        const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }), {
+          rate: { ...rateRequest.rate, items },
+        });
+        return { status: res.status, json: (await res.json()) as ShopifyRateResponse };
+      } finally {
+        clearRuntimeConfigCache();
+      }
+    }
+
+    // FedEx is down for shipments from the Milwaukee warehouse only
+    function failWarehouseQuotes() {
+      fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        const { shipper } = JSON.parse(String(init?.body)).requestedShipment;
+        return shipper.address.postalCode === '53218'
+          ? new Response('unavailable', { status: 503 })
+          : new Response(JSON.stringify(mockFedExResponse));
+      });
+    }
+
+    function ratedShippers() {
+      return fetchMock.mock.calls
+        .filter(([url]) => url.includes('/rate/v1/'))
+        .map(([, init]) => JSON.parse(String(init?.body)).requestedShipment.shipper.address.postalCode);
+    }
+
+    it('returns the LTL placeholder when the warehouse has a freight item', async () => {
+      const { json } = await postWarehouseRates(
+        { ...documentFromRuntimeConfig(getDefaultRuntimeConfig()), warehouses: [warehouse] },
+        [rateRequest.rate.items[0], { ...topcoat, grams: 91000 }], // ~200 lb
+      );
+
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0].service_code).toBe('LTL_FREIGHT');
+      expect(json.rates[0].description).toContain('Topcoat exceeds the 150 lb parcel limit');
+      expect(ratedShippers()).toEqual([]);
+    });
+
+    it('returns the LTL placeholder when a Shopify-origin item exceeds parcel limits', async () => {
+      const { json } = await postWarehouseRates(
+        { ...documentFromRuntimeConfig(getDefaultRuntimeConfig()), warehouses: [warehouse] },
+        [{ ...rateRequest.rate.items[0], grams: 91000 }, topcoat], // ~200 lb
+      );
+
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0].service_code).toBe('LTL_FREIGHT');
+      expect(json.rates[0].description).toContain('Primer exceeds the 150 lb parcel limit');
+      expect(ratedShippers()).toEqual([]);
+    });
+
+    it('drops air services when the warehouse ships a ground-only item', async () => {
+      const { json } = await postWarehouseRates(
+        { ...documentFromRuntimeConfig(getDefaultRuntimeConfig()), warehouses: [warehouse] },
+        [rateRequest.rate.items[0], { ...topcoat, properties: { _ground_only: 'true' } }],
+      );
+
+      expect(json.rates).toMatchObject([
+        { service_code: 'FEDEX_GROUND', total_price: String(2 * 2550) },
+      ]);
+    });
+
+    it('estimates a warehouse whose carriers fail', async () => {
+      failWarehouseQuotes();
+
+      const { json } = await postWarehouseRates(
+        { ...documentFromRuntimeConfig(getDefaultRuntimeConfig()), warehouses: [warehouse] },
+        [rateRequest.rate.items[0], topcoat],
+      );
+
+      // Only the two shipments are rated; the cart is never re-rated from Miami
+      expect(ratedShippers()).toEqual(['33172', '53218']);
+      const ground = json.rates.find((rate) => rate.service_code === 'FEDEX_GROUND');
+      expect(Number(ground?.total_price)).toBeGreaterThan(2550);
+      expect(ground?.description).toContain('Hentzen Coatings: Estimated rate');
+    });
+
+    it('returns no rates when a failed warehouse has no estimate', async () => {
+      failWarehouseQuotes();
+
+      const { status, json } = await postWarehouseRates(
+        {
+          ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+          warehouses: [warehouse],
+          fallbackRateTable: { zones: [], rates: [] },
+        },
+        [rateRequest.rate.items[0], topcoat],
+      );
+
+      expect(status).toBe(200);
+      expect(json.rates).toEqual([]);
+      expect(ratedShippers()).toEqual(['33172', '53218']);
+      expect(console.error).toHaveBeenCalledWith(
+        'Origin quote failed',
+        expect.objectContaining({ origin: 'Hentzen Coatings' }),
+      );
+    });
+
+    it('returns no rates when no service ships from every origin', async () => {
+      fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        const { shipper } = JSON.parse(String(init?.body)).requestedShipment;
+        const serviceType = shipper.address.postalCode === '53218' ? 'PRIORITY_OVERNIGHT' : 'FEDEX_GROUND';
+        return new Response(
+          JSON.stringify({
+            output: {
+              rateReplyDetails: mockFedExResponse.output!.rateReplyDetails!.filter(
+                (detail) => detail.serviceType === serviceType,
+              ),
+            },
+          }),
+        );
+      });
+
+      const { json } = await postWarehouseRates(
+        { ...documentFromRuntimeConfig(getDefaultRuntimeConfig()), warehouses: [warehouse] },
+        [rateRequest.rate.items[0], topcoat],
+      );
+
+      expect(ratedShippers()).toEqual(['33172', '53218']);
+      expect(json.rates).toEqual([]);
+    });
+
+    it('keeps vendor-shipped parts off our FedEx account when a warehouse quote fails', async () => {
+      failWarehouseQuotes();
+      const vendorProfile = {
+        vendor: 'Brushworks',
+        address: { ...warehouse.address, city: 'Madison', postalCode: '53703' },
+        handlingDays: 1,
+        useOurFedExAccount: false,
+        flatFees: { perShipmentCents: 500, perItemCents: 0 },
+      };
+      const brush = { ...rateRequest.rate.items[0], name: 'Brush', sku: 'BRUSH-1', vendor: 'Brushworks' };
+
+      const { json } = await postWarehouseRates(
+        {
+          ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+          warehouses: [warehouse],
+          vendorProfiles: [vendorProfile],
+        },
+        [rateRequest.rate.items[0], topcoat, brush],
+      );
+
+      // The warehouse is estimated; Brushworks is never quoted
+      expect(ratedShippers()).toEqual(['33172', '53218']);
+      const ground = json.rates.find((rate) => rate.service_code === 'FEDEX_GROUND');
+      expect(ground?.description).toContain('Hentzen Coatings: Estimated rate');
+      expect(ground?.description).toContain('Brushworks: Shipped by Brushworks');
+      expect(ground?.description).toContain('Includes $5.00 Brushworks drop-ship fee');
+    });
+  });
+
+  it('routes drop-ship vendors by profile and adds their flat fees', async () => {
+    const address = (city: string, postalCode: string) => ({
+      streetLines: ['1 Vendor Way'],
+      city,
+      stateOrProvinceCode: 'WI',
+      postalCode,
+      countryCode: 'US',
+    });
+    const document = {
+      ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+      vendorProfiles: [
+        {
+          vendor: 'Hentzen',
+          address: address('Milwaukee', '53218'),
+          handlingDays: 2,
+          useOurFedExAccount: true,
+          flatFees: { perShipmentCents: 1000, perItemCents: 0 },
+        },
+        {
+          vendor: 'Brushworks',
+          address: address('Madison', '53703'),
+          handlingDays: 1,
+          useOurFedExAccount: false,
+          flatFees: { perShipmentCents: 500, perItemCents: 250 },
+          transitDays: { min: 3, max: 6 },
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    const item = rateRequest.rate.items[0];
+    const body = {
+      rate: {
+        ...rateRequest.rate,
+        items: [
+          item,
+          { ...item, name: 'Topcoat', sku: 'TOPCOAT-1', vendor: 'Hentzen' },
+          { ...item, name: 'Brush', sku: 'BRUSH-1', vendor: 'Brushworks', quantity: 2 },
+        ],
+      },
+    };
+    clearRuntimeConfigCache();
+
+    // Tuesday 9am in Miami
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-09T14:00:00Z'));
+    let json: ShopifyRateResponse;
+    try {
+      const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }), body);
+      json = (await res.json()) as ShopifyRateResponse;
+    } finally {
+      vi.useRealTimers();
+      clearRuntimeConfigCache();
+    }
+
+    // Brushworks ships on its own account, so only two shipments are quoted
+    const shipments = fetchMock.mock.calls
+      .filter(([url]) => url.includes('/rate/v1/'))
+      .map(([, init]) => JSON.parse(String(init?.body)).requestedShipment);
+    expect(
+      shipments.map((shipment) => [
+        shipment.shipper.address.postalCode,
+        shipment.shipDateStamp,
+      ]),
+    ).toEqual([
+      ['33172', '2024-01-10'],
+      ['53218', '2024-01-11'],
+    ]);
+
+    // $45.00 per quoted 2Day shipment, $10.00 from Hentzen and $10.00 from Brushworks
+    const twoDay = json.rates.find((rate) => rate.service_code === 'FEDEX_2_DAY');
+    expect(twoDay?.total_price).toBe('11000');
+    expect(twoDay?.description).toContain(
+      'Ships in 3 shipments: Primer from Miami, Topcoat from Hentzen, Brush from Brushworks',
+    );
+    expect(twoDay?.description).toContain('Brushworks: Shipped by Brushworks');
+    // Brushworks ships Wednesday and takes 3 to 6 days, through MLK Day
+    expect(twoDay?.min_delivery_date).toBe('2024-01-12');
+    expect(twoDay?.max_delivery_date).toBe('2024-01-18');
+  });
+
+  it('charges the per-order hazmat fee once across warehouses and vendors', async () => {
+    const address = (city: string, postalCode: string) => ({
+      streetLines: ['1 Vendor Way'],
+      city,
+      stateOrProvinceCode: 'WI',
+      postalCode,
+      countryCode: 'US',
+    });
+    const defaults = documentFromRuntimeConfig(getDefaultRuntimeConfig());
+    const document = {
+      ...defaults,
+      hazmatFees: {
+        ...defaults.hazmatFees,
+        ground: { ...defaults.hazmatFees.ground, per_order: 1000 },
+      },
+      warehouses: [
+        {
+          id: 'hentzen',
+          name: 'Hentzen Coatings',
+          address: address('Milwaukee', '53218'),
+          inventoryTags: [],
+          vendors: ['Hentzen'],
+        },
+      ],
+      vendorProfiles: [
+        {
+          vendor: 'Brushworks',
+          address: address('Madison', '53703'),
+          handlingDays: 1,
+          useOurFedExAccount: true,
+        },
+        {
+          vendor: 'Rollco',
+          address: address('Green Bay', '54301'),
+          handlingDays: 1,
+          useOurFedExAccount: false,
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    const paint = { _un_number: 'UN1263', _hazard_class: '3', _packing_group: 'II' };
+    const item = { ...rateRequest.rate.items[0], properties: paint };
+    const body = {
+      rate: {
+        ...rateRequest.rate,
+        items: [
+          item,
+          { ...item, name: 'Topcoat', sku: 'TOPCOAT-1', vendor: 'Hentzen' },
+          { ...item, name: 'Stain', sku: 'STAIN-1', vendor: 'Brushworks' },
+          { ...item, name: 'Sealer', sku: 'SEALER-1', vendor: 'Rollco' },
+        ],
+      },
+    };
+    clearRuntimeConfigCache();
+
+    let json: ShopifyRateResponse;
+    try {
+      const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }), body);
+      json = (await res.json()) as ShopifyRateResponse;
+    } finally {
+      clearRuntimeConfigCache();
+    }
+
+    // Three quoted $25.50 shipments with one hazmat package each and one
+    // order fee; Rollco ships on its own account and adds nothing
+    const ground = json.rates.find((rate) => rate.service_code === 'FEDEX_GROUND');
+    expect(ground?.total_price).toBe(String(3 * 2550 + 1000 + 3 * 3000));
+    expect(ground?.description).toContain(
+      'Includes $100.00 hazmat handling fee ($10.00 per order + 3 hazmat packages × $30.00)',
+    );
+  });
+
+  it('shows a delivery window for FedEx transit ranges', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith('/oauth/token')) {
+        return new Response(
+          JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+        );
+      }
+      return new Response(
+        JSON.stringify({
+          output: {
+            rateReplyDetails: [
+              {
+                serviceType: 'FEDEX_GROUND',
+                ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 25.5 }],
+                commit: {
+                  transitDays: { minimumTransitTime: 'TWO_DAYS', maximumTransitTime: 'FIVE_DAYS' },
+                },
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    // Tuesday 9am in Miami: ships Wednesday, Jan 10
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-09T14:00:00Z'));
+    let json: ShopifyRateResponse;
+    try {
+      json = (await (await postRates(createEnv())).json()) as ShopifyRateResponse;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(json.rates).toHaveLength(1);
+    expect(json.rates[0].min_delivery_date).toBe('2024-01-12');
+    expect(json.rates[0].max_delivery_date).toBe('2024-01-17');
+  });
+
+  function withItem(overrides: Partial<ShopifyRateRequest['rate']['items'][number]>) {
+    return {
+      rate: {
+        ...rateRequest.rate,
+        items: [{ ...rateRequest.rate.items[0], ...overrides }],
+      },
+    };
+  }
+
+  it('quotes LTL freight without calling carriers when an item exceeds parcel limits', async () => {
+    const res = await postRates(createEnv(), withItem({ grams: 91000 })); // ~200 lb
+    const json = (await res.json()) as ShopifyRateResponse;
+
+    expect(json.rates).toHaveLength(1);
+    expect(json.rates[0].service_code).toBe('LTL_FREIGHT');
+    expect(json.rates[0].description).toContain('Primer exceeds the 150 lb parcel limit');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(
+      'Items exceed FedEx parcel limits, routing to LTL freight',
+      expect.objectContaining({
+        items: [{ sku: 'PRIMER-1', name: 'Primer', reason: 'parcel_weight_limit' }],
+      }),
+    );
+  });
+
+  it('notes items shipping in their own container in each rate description', async () => {
+    const res = await postRates(
+      createEnv(),
+      withItem({ properties: { _length: '30', _width: '6', _height: '6' } }),
+    );
+    const json = (await res.json()) as ShopifyRateResponse;
+
+    expect(json.rates.length).toBeGreaterThan(0);
+    for (const rate of json.rates) {
+      expect(rate.description).toContain(
+        'Primer ships in its own container (too large for our boxes)',
+      );
+    }
+  });
+
+  it('waives the ground hazmat fee for limited quantity carts', async () => {
+    const res = await postRates(
+      createEnv(),
+      withItem({
+        properties: { _un_number: 'UN1263', _hazard_class: '3', _limited_quantity: 'true' },
+      }),
+    );
+    const json = (await res.json()) as ShopifyRateResponse;
+    const byCode = (code: string) => json.rates.find((rate) => rate.service_code === code);
+
+    expect(byCode('FEDEX_GROUND')?.total_price).toBe('2550');
+    expect(byCode('FEDEX_GROUND')?.description ?? '').not.toContain('hazmat');
+    expect(byCode('FEDEX_2_DAY')?.total_price).toBe(String(4500 + 12500));
+
+    // Ground is quoted under DOT and air under IATA
+    const details = fetchMock.mock.calls
+      .filter(([url]) => url.includes('/rate/v1/'))
+      .map(([, init]) => {
+        const [pkg] = JSON.parse(String(init?.body)).requestedShipment.requestedPackageLineItems;
+        return pkg.packageSpecialServices.dangerousGoodsDetail;
+      });
+    expect(details).toEqual([
+      {
+        accessibility: 'INACCESSIBLE',
+        regulationType: 'DOT',
+        options: ['LIMITED_QUANTITIES_COMMODITIES'],
+      },
+      {
+        accessibility: 'INACCESSIBLE',
+        regulationType: 'IATA',
+        options: ['LIMITED_QUANTITIES_COMMODITIES'],
+      },
+    ]);
+  });
+
+  it('drops air services when a ground-only item is in the cart', async () => {
+    const res = await postRates(createEnv(), withItem({ properties: { _ground_only: 'true' } }));
+    const json = (await res.json()) as ShopifyRateResponse;
+
+    expect(json.rates.map((rate) => rate.service_code)).toEqual(['FEDEX_GROUND']);
+    expect(console.log).toHaveBeenCalledWith(
+      'Removed air services for ground-only items',
+      expect.objectContaining({
+        items: ['PRIMER-1'],
+        services: ['fedex:FEDEX_2_DAY', 'fedex:PRIORITY_OVERNIGHT'],
+      }),
+    );
+  });
+
+  it('explains why no rate is offered when every service flies', async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith('/oauth/token')
+        ? new Response(JSON.stringify({ access_token: 't', token_type: 'bearer', expires_in: 3600, scope: '' }))
+        : new Response(
+            JSON.stringify({
+              output: {
+                rateReplyDetails: mockFedExResponse.output!.rateReplyDetails!.filter(
+                  (detail) => detail.serviceType !== 'FEDEX_GROUND',
+                ),
+              },
+            }),
+          ),
+    );
+
+    const res = await postRates(
+      createEnv(),
+      withItem({ name: 'Aerosol Primer', properties: { _cargo_aircraft_only: 'true' } }),
+    );
+    const json = (await res.json()) as ShopifyRateResponse;
+
+    expect(json.rates).toHaveLength(1);
+    expect(json.rates[0]).toMatchObject({
+      service_code: 'AIR_RESTRICTED',
+      total_price: '0',
+      description:
+        'Aerosol Primer cannot ship by air · Our team will contact you with a shipping quote',
+    });
+  });
+
+  it('takes ground rates from the DOT quote and air rates from the IATA quote', async () => {
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/oauth/token')) {
+        return new Response(
+          JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+        );
+      }
+      const [pkg] = JSON.parse(String(init?.body)).requestedShipment.requestedPackageLineItems;
+      const amount = pkg.packageSpecialServices.dangerousGoodsDetail.regulationType === 'DOT' ? 20 : 99;
+      return new Response(
+        JSON.stringify({
+          output: {
+            rateReplyDetails: mockFedExResponse.output!.rateReplyDetails!.map((detail) => ({
+              ...detail,
+              ratedShipmentDetails: [
+                { rateType: 'ACCOUNT', totalNetCharge: [{ currency: 'USD', amount }] },
+              ],
+            })),
+          },
+        }),
+      );
+    });
+
+    const paint = { _un_number: 'UN1263', _hazard_class: '3', _packing_group: 'II' };
+    const res = await postRates(createEnv(), withItem({ properties: paint }));
+    const json = (await res.json()) as ShopifyRateResponse;
+    const byCode = (code: string) => json.rates.find((rate) => rate.service_code === code);
+
+    expect(byCode('FEDEX_GROUND')?.total_price).toBe(String(2000 + 3000));
+    expect(byCode('FEDEX_2_DAY')?.total_price).toBe(String(9900 + 12500));
+  });
+
+  it('charges the hazmat fee per dangerous goods package', async () => {
+    const paint = { _un_number: 'UN1263', _hazard_class: '3', _packing_group: 'II' };
+    const res = await postRates(
+      createEnv(),
+      withItem({ grams: 18144, quantity: 2, properties: paint }), // 40 lb each
+    );
+    const json = (await res.json()) as ShopifyRateResponse;
+    const ground = json.rates.find((rate) => rate.service_code === 'FEDEX_GROUND');
+
+    expect(ground?.total_price).toBe(String(2550 + 2 * 3000));
+    expect(ground?.description).toContain(
+      'Includes $60.00 hazmat handling fee (2 hazmat packages × $30.00)',
+    );
+  });
+
+  it('applies the configured rate rules to the quote', async () => {
+    const document = {
+      ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+      rateRules: [
+        {
+          name: 'Hide overnight',
+          priority: 1,
+          conditions: { services: ['PRIORITY_OVERNIGHT'] },
+          action: { type: 'hide_service' },
+        },
+        {
+          name: 'Free ground',
+          priority: 2,
+          conditions: { services: ['FEDEX_GROUND'], minSubtotalCents: 5000 },
+          action: { type: 'free_shipping' },
+          description: 'Free ground shipping on orders over $50',
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    clearRuntimeConfigCache();
+
+    try {
+      const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(json.rates.map((rate) => [rate.service_code, rate.total_price])).toEqual([
+        ['FEDEX_GROUND', '0'],
+        ['FEDEX_2_DAY', '4500'],
+      ]);
+      expect(json.rates[0].description).toContain('Free ground shipping on orders over $50');
+    } finally {
+      clearRuntimeConfigCache();
+    }
+  });
+
+  it('applies rate rules to local delivery', async () => {
+    const document = {
+      ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+      rateRules: [
+        {
+          name: 'Local delivery fee',
+          priority: 1,
+          conditions: { routeTypes: ['local_delivery'] },
+          action: { type: 'markup_fixed', cents: 1500 },
+          description: 'Includes a $15.00 delivery fee',
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    clearRuntimeConfigCache();
+
+    try {
+      const res = await postRates(createEnv({ CONFIG_KV: kv as unknown as KVNamespace }), {
+        rate: {
+          ...rateRequest.rate,
+          destination: { ...rateRequest.rate.destination, postal_code: '33172', province: 'FL' },
+        },
+      });
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0]).toMatchObject({ service_code: 'LOCAL_DELIVERY', total_price: '1500' });
+      expect(json.rates[0].description).toContain('Includes a $15.00 delivery fee');
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      clearRuntimeConfigCache();
+    }
+  });
+
+  it('applies rate rules to the LTL freight placeholder', async () => {
+    const document = {
+      ...documentFromRuntimeConfig(getDefaultRuntimeConfig()),
+      rateRules: [
+        {
+          name: 'Freight deposit',
+          priority: 1,
+          conditions: { services: ['LTL_FREIGHT'] },
+          action: { type: 'markup_fixed', cents: 2500 },
+        },
+      ],
+    };
+    const kv = createKV(new Map([['config', JSON.stringify(document)]]));
+    clearRuntimeConfigCache();
+
+    try {
+      const res = await postRates(
+        createEnv({ CONFIG_KV: kv as unknown as KVNamespace }),
+        withItem({ grams: 91000 }), // ~200 lb
+      );
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0]).toMatchObject({ service_code: 'LTL_FREIGHT', total_price: '2500' });
+    } finally {
+      clearRuntimeConfigCache();
+    }
+  });
+
+  describe('with a FedEx Freight account', () => {
+    const freightResponse = {
+      output: {
+        rateReplyDetails: [
+          {
+            serviceType: 'FEDEX_FREIGHT_ECONOMY',
+            ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 389.1 }],
+            commit: { transitDays: { minimumTransitTime: 'FIVE_DAYS' } },
+          },
+        ],
+      },
+    };
+    const freightEnv = () => createEnv({ FEDEX_FREIGHT_ACCOUNT_NUMBER: 'FREIGHT-1' });
+    const freightCalls = () =>
+      fetchMock.mock.calls.filter(([url]) => url.includes('/freight/')).length;
+
+    beforeEach(() => {
+      const parcel = fetchMock.getMockImplementation()!;
+      fetchMock.mockImplementation(async (url: string, init?: RequestInit) =>
+        url.includes('/freight/')
+          ? new Response(JSON.stringify(freightResponse))
+          : parcel(url, init),
+      );
+    });
+
+    it('offers LTL freight next to parcel rates for heavy orders', async () => {
+      // Eight 40 lb pails, one per box
+      const res = await postRates(freightEnv(), withItem({ grams: 18144, quantity: 8 }));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      const ltl = json.rates.find((rate) => rate.service_code === 'LTL_FREIGHT');
+      expect(json.rates.length).toBeGreaterThan(1);
+      expect(ltl).toMatchObject({ service_name: 'LTL Freight', total_price: '38910' });
+      expect(ltl?.description).toBe('FedEx Freight Economy, 1 pallet (394 lb), class 55');
+    });
+
+    it('does not quote LTL for orders under the weight threshold', async () => {
+      const res = await postRates(freightEnv());
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(freightCalls()).toBe(0);
+      expect(json.rates.some((rate) => rate.service_code === 'LTL_FREIGHT')).toBe(false);
+    });
+
+    it('keeps the parcel rates when the LTL quote fails', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.includes('/freight/')) throw new Error('Freight down');
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        return new Response(JSON.stringify(mockFedExResponse));
+      });
+
+      const res = await postRates(freightEnv(), withItem({ grams: 18144, quantity: 8 }));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(json.rates.length).toBeGreaterThan(0);
+      expect(json.rates.some((rate) => rate.service_code === 'LTL_FREIGHT')).toBe(false);
+      expect(console.warn).toHaveBeenCalledWith(
+        'LTL freight quote failed',
+        expect.objectContaining({ error: 'Freight down' }),
+      );
+    });
+
+    it('does not quote oversized items on our freight account for own-account customers', async () => {
+      const res = await postRates(
+        freightEnv(),
+        withItem({
+          grams: 91000,
+          properties: { _customer_type: 'fedex_own_account', _fedex_account: '222222222' },
+        }),
+      );
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(freightCalls()).toBe(0);
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0]).toMatchObject({ service_code: 'LTL_FREIGHT', total_price: '0' });
+      expect(json.rates[0].description).toContain('Our team will contact you with an LTL freight quote');
+    });
+
+    it('prices items over the parcel limits with the LTL quote', async () => {
+      const res = await postRates(freightEnv(), withItem({ grams: 91000 }));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(json.rates).toHaveLength(1);
+      expect(json.rates[0]).toMatchObject({ service_code: 'LTL_FREIGHT', total_price: '38910' });
+      expect(json.rates[0].description).toContain('Primer exceeds the 150 lb parcel limit');
+      expect(fetchMock.mock.calls.some(([url]) => url.includes('/rate/v1/rates/'))).toBe(false);
+    });
+  });
+
+  describe('with UPS enabled', () => {
+    const upsEnv = {
+      ENABLED_CARRIERS: 'fedex,ups',
+      UPS_CLIENT_ID: 'ups-id',
+      UPS_CLIENT_SECRET: 'ups-secret',
+      UPS_ACCOUNT_NUMBER: 'A1B2C3',
+    };
+    const upsResponse = {
+      RateResponse: {
+        RatedShipment: [{ Service: { Code: '03' }, TotalCharges: { MonetaryValue: '19.99' } }],
+      },
+    };
+
+    it('merges UPS quotes into the response', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        if (url.includes('/api/rating/')) {
+          return new Response(JSON.stringify(upsResponse));
+        }
+        return new Response(JSON.stringify(mockFedExResponse));
+      });
+
+      const res = await postRates(createEnv(upsEnv));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      const codes = json.rates.map((r) => r.service_code);
+      expect(codes).toContain('FEDEX_GROUND');
+      expect(codes).toContain('UPS_GROUND');
+      expect(json.rates.find((r) => r.service_code === 'UPS_GROUND')?.total_price).toBe('1999');
+    });
+
+    it('serves FedEx quotes without caching them when UPS fails', async () => {
+      const kv = createKV();
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        if (url.includes('/api/rating/')) {
+          return new Response('Service Unavailable', { status: 503 });
+        }
+        return new Response(JSON.stringify(mockFedExResponse));
+      });
+
+      const res = await postRates(createEnv({ ...upsEnv, RATE_CACHE: kv as unknown as KVNamespace }));
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(res.status).toBe(200);
+      expect(json.rates.map((r) => r.service_code)).toContain('FEDEX_GROUND');
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('when FedEx is unavailable', () => {
+    function failFedEx(error: Error = new Error('FedEx Rate API request timed out')) {
+      fetchMock.mockImplementation(async () => {
+        throw error;
+      });
+    }
+
+    it('returns the last successful quote for the same lane as an estimate', async () => {
+      const kv = createKV();
+      const env = createEnv({ RATE_CACHE: kv as unknown as KVNamespace });
+
+      const live = (await (await postRates(env)).json()) as ShopifyRateResponse;
+
+      // Drop the same-day quote cache so only the lane fallback remains
+      for (const key of [...kv.store.keys()]) {
+        if (key.startsWith('rates:')) kv.store.delete(key);
+      }
+      failFedEx();
+
+      const res = await postRates(env);
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(res.status).toBe(200);
+      expect(json.rates.map((r) => r.total_price)).toEqual(
+        live.rates.map((r) => r.total_price),
+      );
+      json.rates.forEach((rate) => {
+        expect(rate.description).toContain('Estimated rate based on a recent FedEx quote');
+      });
+    });
+
+    it('ignores last-good quotes older than the configured max age', async () => {
+      const kv = createKV();
+      const env = createEnv({
+        RATE_CACHE: kv as unknown as KVNamespace,
+        STALE_RATE_MAX_AGE_SECONDS: '3600',
+      });
+
+      await postRates(env);
+      for (const [key, value] of [...kv.store.entries()]) {
+        if (key.startsWith('rates:')) {
+          kv.store.delete(key);
+        } else {
+          const entry = JSON.parse(value);
+          entry.cachedAt = new Date(Date.now() - 2 * 3600 * 1000).toISOString();
+          kv.store.set(key, JSON.stringify(entry));
+        }
+      }
+      failFedEx();
+
+      const json = (await (await postRates(env)).json()) as ShopifyRateResponse;
+
+      expect(json.rates.length).toBeGreaterThan(0);
+      json.rates.forEach((rate) => {
+        expect(rate.description).toContain('FedEx rates are temporarily unavailable');
+      });
+    });
+
+    it('estimates from the zone/weight table when no quote is cached', async () => {
+      failFedEx(new Error('FedEx OAuth failed: 503 - unavailable'));
+
+      const res = await postRates(createEnv());
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(res.status).toBe(200);
+      expect(json.rates.map((r) => r.service_code)).toEqual(['FEDEX_GROUND', 'FEDEX_2_DAY']);
+      json.rates.forEach((rate) => {
+        expect(rate.description).toContain('Estimated rate');
+        expect(Number(rate.total_price)).toBeGreaterThan(0);
+      });
+    });
+
+    it('falls back when FedEx returns API errors', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith('/oauth/token')) {
+          return new Response(
+            JSON.stringify({ access_token: 'token', token_type: 'bearer', expires_in: 3600, scope: '' }),
+          );
+        }
+        return new Response(
+          JSON.stringify({ errors: [{ code: 'SERVICE.UNAVAILABLE.ERROR', message: 'down' }] }),
+        );
+      });
+
+      const res = await postRates(createEnv());
+      const json = (await res.json()) as ShopifyRateResponse;
+
+      expect(res.status).toBe(200);
+      expect(json.rates[0].description).toContain('Estimated rate');
+    });
+
+    it('still returns 500 when no fallback applies', async () => {
+      failFedEx();
+      const international = structuredClone(rateRequest);
+      international.rate.destination.country = 'GB';
+      international.rate.items[0].properties = { _customer_type: 'international_military' };
+
+      const app = new Hono<{ Bindings: Env }>();
+      app.post('/rates', handleRateRequest);
+      const res = await app.request(
+        '/rates',
+        { method: 'POST', body: JSON.stringify(international) },
+        createEnv(),
+      );
+
+      expect(res.status).toBe(500);
+    });
+  });
+});
@@ -5,43 +5,98 @@ import type {
   ShopifyRate,
   ShopifyRateResponse,
   FedExAddress,
-  ParsedFedExRate,
+  CarrierRate,
+  CarrierRateRequest,
   FedExPackageLineItem,
+  RuntimeConfig,
+  ShopifyCartItem,
+  VendorProfile,
 } from "../types";
+import { SPLIT_SERVICE_CODE_SUFFIX } from "../config";
 import {
-  LOCAL_DELIVERY_ZIPS,
-  BOX_CONFIGS,
-  HAZMAT_FEES_CENTS,
-} from "../config";
-import { determineRoute, hasShippableItems } from "../services/routing";
-import { getPackagesForCart } from "../services/packaging";
+  determineRoute,
+  hasShippableItems,
+  extractCustomerFedExPayor,
+} from "../services/routing";
 import {
-  getFedExAccessToken,
-  getFedExCredentials,
-  buildFedExRateRequest,
-  callFedExRateAPI,
-  parseFedExRateResponse,
-  isGroundService,
-} from "../services/fedex";
+  packItems,
+  planCartPackaging,
+  getPackingMode,
+  describeSpecialHandling,
+  type PackedBox,
+  type SpecialHandlingItem,
+} from "../services/packaging";
+import {
+  getLtlFreightQuote,
+  formatFreightClass,
+  getTotalPalletWeightLbs,
+  type LtlFreightQuote,
+} from "../services/fedex-freight";
+import { getShipDateStamp, FedExApiError } from "../services/fedex";
+import {
+  getCarrierAdapter,
+  getEnabledCarriers,
+  fetchCarrierRates,
+} from "../services/carriers";
+import {
+  buildRateCacheKey,
+  buildLaneCacheKey,
+  getCachedRates,
+  putCachedRates,
+  putLastGoodRates,
+} from "../services/rate-cache";
+import { getFallbackRates } from "../services/fallback-rates";
+import {
+  classifyResidentialAddress,
+  selectGroundServiceForAddress,
+} from "../services/residential";
 import {
   calculateDeliveryDates,
+  calculateOrderShipDate,
+  shiftCarrierDeliveryDates,
+  addTransitRange,
+  splitCartByAvailability,
   addBusinessDays,
   formatDateISO,
   DEFAULT_HANDLING_DAYS,
+  type CartSplit,
+  type DeliveryDateRange,
 } from "../services/leadtimes";
+import {
+  getDeliveryCalendars,
+  getOrderDate,
+  type BusinessCalendar,
+  type DeliveryCalendars,
+} from "../services/calendar";
+import {
+  loadRuntimeConfig,
+  getAllowedServices,
+} from "../services/runtime-config";
+import {
+  getCartHazmat,
+  getGroundOnlyItems,
+  hasHazmatItems,
+} from "../services/hazmat";
+import {
+  calculateHazmatFee,
+  describeHazmatFee,
+  getHazmatFeeSchedule,
+} from "../services/hazmat-fees";
+import {
+  applyRateRules,
+  buildRateRuleContext,
+} from "../services/rate-rules";
+import {
+  groupItemsByOrigin,
+  getOriginCalendars,
+} from "../services/warehouses";
+import {
+  addVendorFlatFee,
+  buildVendorShippedRates,
+  isShippedByVendor,
+  VENDOR_SHIPPING_SERVICE,
+} from "../services/vendors";
 import { createLogger, type Logger } from "../services/logger";
-import type { ShopifyCartItem } from "../types";
-
-/**
- * Check if any items in the cart are marked as hazmat
- * Looks for _is_hazmat property set to "true"
- */
-function hasHazmatItems(items: ShopifyCartItem[]): boolean {
-  return items.some((item) => {
-    const hazmatProp = item.properties?._is_hazmat;
-    return hazmatProp === "true";
-  });
-}
 
 function getDefaultHandlingDays(env: Env): number {
   if (env.DEFAULT_HANDLING_DAYS) {
@@ -53,8 +108,8 @@ function getDefaultHandlingDays(env: Env): number {
   return DEFAULT_HANDLING_DAYS;
 }
 
-function buildLocalDeliveryRate(): ShopifyRate {
-  const tomorrow = addBusinessDays(new Date(), 1);
+function buildLocalDeliveryRate(calendar: BusinessCalendar): ShopifyRate {
+  const tomorrow = addBusinessDays(new Date(), 1, calendar);
   const deliveryDateISO = formatDateISO(tomorrow);
 
   return {
@@ -68,9 +123,9 @@ function buildLocalDeliveryRate(): ShopifyRate {
   };
 }
 
-function buildFreightForwardingRate(): ShopifyRate {
-  const minDate = addBusinessDays(new Date(), 14);
-  const maxDate = addBusinessDays(new Date(), 21);
+function buildFreightForwardingRate(calendar: BusinessCalendar): ShopifyRate {
+  const minDate = addBusinessDays(new Date(), 14, calendar);
+  const maxDate = addBusinessDays(new Date(), 21, calendar);
 
   return {
     service_name: "International Freight Forwarding",
@@ -84,6 +139,473 @@ function buildFreightForwardingRate(): ShopifyRate {
   };
 }
 
+/**
+ * Items over the FedEx parcel limits cannot ship as parcels, so the whole
+ * order is quoted by our team as LTL freight.
+ */
+function buildLtlFreightRate(
+  freightItems: SpecialHandlingItem[],
+  calendar: BusinessCalendar,
+): ShopifyRate {
+  const minDate = addBusinessDays(new Date(), 5, calendar);
+  const maxDate = addBusinessDays(new Date(), 10, calendar);
+
+  return {
+    service_name: "LTL Freight",
+    service_code: "LTL_FREIGHT",
+    total_price: "0",
+    description: [
+      ...freightItems.map(describeSpecialHandling),
+      "Our team will contact you with an LTL freight quote",
+    ].join(" · "),
+    currency: "USD",
+    min_delivery_date: formatDateISO(minDate),
+    max_delivery_date: formatDateISO(maxDate),
+  };
+}
+
+/**
+ * Ground-only items left no service to offer (e.g. international orders,
+ * which only fly), so our team arranges shipping.
+ */
+function buildAirRestrictedRate(
+  groundOnlyItems: ShopifyCartItem[],
+  calendar: BusinessCalendar,
+): ShopifyRate {
+  const minDate = addBusinessDays(new Date(), 5, calendar);
+  const maxDate = addBusinessDays(new Date(), 10, calendar);
+
+  return {
+    service_name: "Ground Shipping Quote",
+    service_code: "AIR_RESTRICTED",
+    total_price: "0",
+    description: [
+      ...groundOnlyItems.map((item) => `${item.name} cannot ship by air`),
+      "Our team will contact you with a shipping quote",
+    ].join(" · "),
+    currency: "USD",
+    min_delivery_date: formatDateISO(minDate),
+    max_delivery_date: formatDateISO(maxDate),
+  };
+}
+
+function isGroundRate(rate: CarrierRate, config: RuntimeConfig): boolean {
+  return getCarrierAdapter(rate.carrier).isGroundService(
+    rate.serviceType,
+    config,
+  );
+}
+
+interface ParcelQuote {
+  rates: CarrierRate[];
+  // Set when the carriers were unavailable and the rates are estimates
+  estimateNote: string | null;
+}
+
+// Where a shipment leaves from, on whose calendars, and when
+interface ShipmentOrigin {
+  name: string;
+  address: FedExAddress;
+  calendars: DeliveryCalendars;
+  handlingDays: number;
+  shipDate: Date;
+}
+
+function buildShipmentOrigin(
+  name: string,
+  address: FedExAddress,
+  calendars: DeliveryCalendars,
+  handlingDays: number,
+): ShipmentOrigin {
+  return {
+    name,
+    address,
+    calendars,
+    handlingDays,
+    // Carriers quote for the day the order actually leaves the origin
+    shipDate: calculateOrderShipDate(handlingDays, new Date(), calendars),
+  };
+}
+
+type ParcelQuoter = (
+  packages: FedExPackageLineItem[],
+  includeHazmat: boolean,
+  origin: ShipmentOrigin,
+) => Promise<ParcelQuote>;
+
+/**
+ * Rate parcels from the quote cache or the enabled carriers, falling back
+ * to the last good or table rates when every carrier fails.
+ */
+async function quoteParcelRates(
+  env: Env,
+  request: CarrierRateRequest,
+  config: RuntimeConfig,
+  logger: Logger,
+): Promise<ParcelQuote> {
+  const { origin, destination, packages, includeHazmat, isInternational } = request;
+  const residential = destination.residential ?? false;
+  const carriers = getEnabledCarriers(env, {
+    includeHazmat,
+    isInternational,
+    fedExOwnAccount: request.payor !== undefined,
+  });
+
+  const shipment = {
+    originZip: origin.postalCode,
+    destinationZip: destination.postalCode,
+    destinationCountry: destination.countryCode,
+    residential,
+    packages,
+    includeHazmat,
+    paymentType: request.payor?.paymentType,
+    payorAccount: request.payor?.accountNumber,
+    carriers: carriers.map((carrier) => carrier.id),
+    services: getAllowedServices(config),
+  };
+  const cacheKey = await buildRateCacheKey({
+    ...shipment,
+    shipDate: getShipDateStamp(request.shipDate),
+  });
+  const laneKey = await buildLaneCacheKey(shipment);
+
+  let rates: CarrierRate[];
+  let estimateNote: string | null = null;
+
+  const cachedRates = await getCachedRates(env, cacheKey, logger);
+  if (cachedRates) {
+    rates = cachedRates;
+  } else {
+    try {
+      const result = await fetchCarrierRates(carriers, request, {
+        env,
+        config,
+        logger,
+      });
+      rates = result.rates;
+      // Partial results are served but not cached, so the next
+      // request retries the carrier that failed
+      if (result.complete) {
+        await putCachedRates(env, cacheKey, rates, logger);
+        await putLastGoodRates(env, laneKey, rates, logger);
+      }
+    } catch (error) {
+      const fallback = await getFallbackRates(
+        env,
+        laneKey,
+        config.fallbackRateTable,
+        destination.postalCode,
+        packages,
+        isInternational,
+        getAllowedServices(config),
+        logger,
+      );
+      if (!fallback) {
+        throw error;
+      }
+      logger.warn("Carriers unavailable, returning estimated rates", {
+        error: error instanceof Error ? error.message : String(error),
+        fallbackSource: fallback.source,
+        destinationZip: destination.postalCode,
+      });
+      rates = fallback.rates;
+      estimateNote = fallback.note;
+    }
+  }
+
+  return {
+    rates: selectGroundServiceForAddress(rates, residential),
+    estimateNote,
+  };
+}
+
+function isSplitShipmentEnabled(env: Env): boolean {
+  return env.SPLIT_SHIPMENTS === "true";
+}
+
+function describeItemNames(items: ShopifyCartItem[]): string {
+  return items.map((item) => item.name).join(", ");
+}
+
+interface ShipmentRates {
+  label: string;
+  rates: ShopifyRate[];
+}
+
+/**
+ * One rate per service offered for every shipment. The price is the sum
+ * of the shipments and the dates run from the first delivery to the last;
+ * each shipment's description is kept under its label.
+ */
+function combineShipmentRates(shipments: ShipmentRates[]): ShopifyRate[] {
+  const [first, ...rest] = shipments;
+  return first.rates.flatMap((rate) => {
+    const serviceRates = [rate];
+    for (const shipment of rest) {
+      const match = shipment.rates.find(
+        (candidate) => candidate.service_code === rate.service_code,
+      );
+      if (!match) return [];
+      serviceRates.push(match);
+    }
+
+    const combined: ShopifyRate = {
+      service_name: rate.service_name,
+      service_code: rate.service_code,
+      total_price: serviceRates
+        .reduce((sum, serviceRate) => sum + parseInt(serviceRate.total_price, 10), 0)
+        .toString(),
+      currency: rate.currency,
+      min_delivery_date: serviceRates
+        .map((serviceRate) => serviceRate.min_delivery_date)
+        .reduce((min, date) => (date < min ? date : min)),
+      max_delivery_date: serviceRates
+        .map((serviceRate) => serviceRate.max_delivery_date)
+        .reduce((max, date) => (date > max ? date : max)),
+    };
+    const descriptionParts = serviceRates.flatMap((serviceRate, i) =>
+      serviceRate.description
+        ? [`${shipments[i].label}: ${serviceRate.description}`]
+        : [],
+    );
+    if (descriptionParts.length > 0) {
+      combined.description = descriptionParts.join(" · ");
+    }
+    return [combined];
+  });
+}
+
+// Prepends a summary of the shipments to a combined rate's description
+function describeShipments(rate: ShopifyRate, summary: string): string {
+  return [summary, ...(rate.description ? [rate.description] : [])].join(" · ");
+}
+
+/**
+ * Rates for part of a cart, without hazmat fees. Those are charged on the
+ * combined rate so the per-order fee applies once per cart.
+ */
+interface ShipmentQuote {
+  rates: ShopifyRate[];
+  packedBoxes: PackedBox[];
+  groundServiceCodes: string[];
+}
+
+const NO_SHIPMENT_QUOTE: ShipmentQuote = {
+  rates: [],
+  packedBoxes: [],
+  groundServiceCodes: [],
+};
+
+/**
+ * Add the hazmat fee for the packages of every shipment to the combined
+ * rates, as if the cart had been quoted whole.
+ */
+function addShipmentsHazmatFee(
+  rates: ShopifyRate[],
+  quotes: ShipmentQuote[],
+  isInternational: boolean,
+  config: RuntimeConfig,
+): ShopifyRate[] {
+  const packedBoxes = quotes.flatMap((quote) => quote.packedBoxes);
+  const groundServiceCodes = new Set(
+    quotes.flatMap((quote) => quote.groundServiceCodes),
+  );
+  return rates.map((rate) => {
+    const isGround = groundServiceCodes.has(rate.service_code);
+    const hazmatFee = calculateHazmatFee(
+      packedBoxes,
+      getHazmatFeeSchedule(config.hazmatFees, isGround, isInternational),
+      isGround,
+    );
+    if (hazmatFee.totalCents === 0) return rate;
+    return {
+      ...rate,
+      total_price: (parseInt(rate.total_price, 10) + hazmatFee.totalCents).toString(),
+      description: [
+        ...(rate.description ? [rate.description] : []),
+        describeHazmatFee(hazmatFee),
+      ].join(" · "),
+    };
+  });
+}
+
+/**
+ * One rate per service that can carry both shipments: ready items ship
+ * now and delayed items once they are in stock.
+ */
+function combineSplitShipmentRates(
+  readyQuote: ShipmentQuote,
+  delayedQuote: ShipmentQuote,
+  split: CartSplit,
+  isInternational: boolean,
+  config: RuntimeConfig,
+): ShopifyRate[] {
+  const summary = `Ships in 2 shipments: ${describeItemNames(split.readyItems)} now, ${describeItemNames(split.delayedItems)} when in stock`;
+  const combined = combineShipmentRates([
+    { label: "First shipment", rates: readyQuote.rates },
+    { label: "Second shipment", rates: delayedQuote.rates },
+  ]);
+  return addShipmentsHazmatFee(
+    combined,
+    [readyQuote, delayedQuote],
+    isInternational,
+    config,
+  ).map((rate) => ({
+    ...rate,
+    service_name: `${rate.service_name} (Split Shipment)`,
+    service_code: `${rate.service_code}${SPLIT_SERVICE_CODE_SUFFIX}`,
+    description: describeShipments(rate, summary),
+  }));
+}
+
+interface OriginShipment {
+  origin: ShipmentOrigin;
+  vendorProfile: VendorProfile | null;
+  items: ShopifyCartItem[];
+}
+
+/**
+ * One rate per service that every origin can ship, totalling the
+ * shipments from each origin.
+ */
+function combineOriginRates(
+  shipments: OriginShipment[],
+  shipmentRates: ShopifyRate[][],
+): ShopifyRate[] {
+  const summary =
+    shipments.length === 1
+      ? `Ships from ${shipments[0].origin.name}`
+      : `Ships in ${shipments.length} shipments: ${shipments
+          .map(
+            (shipment) =>
+              `${describeItemNames(shipment.items)} from ${shipment.origin.name}`,
+          )
+          .join(", ")}`;
+  return combineShipmentRates(
+    shipments.map((shipment, i) => ({
+      label: shipment.origin.name,
+      rates: shipmentRates[i],
+    })),
+  ).map((rate) => ({ ...rate, description: describeShipments(rate, summary) }));
+}
+
+/**
+ * Quote the ready and delayed items as separate shipments. A failure only
+ * drops the split rates, since the whole cart is quoted as well.
+ */
+async function quoteSplitShipment(
+  split: CartSplit,
+  quoteItems: (items: ShopifyCartItem[]) => Promise<ShipmentQuote>,
+  isInternational: boolean,
+  config: RuntimeConfig,
+  logger: Logger,
+): Promise<ShopifyRate[]> {
+  try {
+    const [readyQuote, delayedQuote] = await Promise.all([
+      quoteItems(split.readyItems),
+      quoteItems(split.delayedItems),
+    ]);
+    return combineSplitShipmentRates(
+      readyQuote,
+      delayedQuote,
+      split,
+      isInternational,
+      config,
+    );
+  } catch (error) {
+    logger.warn("Split shipment quote failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Quote LTL freight for the packed boxes. Failures are logged and treated
+ * as no quote so parcel rates are still returned.
+ */
+async function quoteLtlFreight(
+  env: Env,
+  request: ShopifyRateRequest,
+  packedBoxes: PackedBox[],
+  includeHazmat: boolean,
+  shipDate: Date,
+  config: RuntimeConfig,
+  logger: Logger,
+): Promise<LtlFreightQuote | null> {
+  try {
+    return await getLtlFreightQuote(
+      {
+        origin: shopifyAddressToFedEx(request.rate.origin),
+        destination: shopifyAddressToFedEx(request.rate.destination),
+        packedBoxes,
+        includeHazmat,
+        shipDate,
+      },
+      { env, config, logger },
+    );
+  } catch (error) {
+    logger.warn("LTL freight quote failed", {
+      error: error instanceof Error ? error.message : String(error),
+      destinationZip: request.rate.destination.postal_code,
+    });
+    return null;
+  }
+}
+
+function ltlFreightQuoteToShopifyRate(
+  quote: LtlFreightQuote,
+  request: ShopifyRateRequest,
+  defaultHandlingDays: number,
+  calendars: DeliveryCalendars,
+  quotedShipDate: Date,
+  notes: string[] = [],
+): ShopifyRate {
+  const deliveryDates = resolveDeliveryDates(
+    quote.rate,
+    request.rate.items,
+    defaultHandlingDays,
+    calendars,
+    quotedShipDate,
+  );
+  const palletCount = quote.pallets.length;
+  const weightLbs = Math.round(getTotalPalletWeightLbs(quote.pallets));
+
+  return {
+    service_name: "LTL Freight",
+    service_code: "LTL_FREIGHT",
+    total_price: quote.rate.totalChargeCents.toString(),
+    description: [
+      ...notes,
+      `${quote.rate.serviceName}, ${palletCount} pallet${palletCount === 1 ? "" : "s"} (${weightLbs} lb), class ${formatFreightClass(quote.freightClass)}`,
+    ].join(" · "),
+    currency: "USD",
+    min_delivery_date: deliveryDates.minDeliveryDateISO,
+    max_delivery_date: deliveryDates.maxDeliveryDateISO,
+  };
+}
+
+// Destination with its residential classification, for carrier quotes
+async function classifyRecipientAddress(
+  env: Env,
+  request: ShopifyRateRequest,
+  logger: Logger,
+): Promise<FedExAddress> {
+  const recipientAddress = shopifyAddressToFedEx(request.rate.destination);
+  const classification = await classifyResidentialAddress(
+    env,
+    request.rate.destination,
+    recipientAddress,
+    logger,
+  );
+  recipientAddress.residential = classification.residential;
+  logger.info("Destination classified", {
+    residential: classification.residential,
+    source: classification.source,
+  });
+  return recipientAddress;
+}
+
 function shopifyAddressToFedEx(
   address: ShopifyRateRequest["rate"]["origin"],
 ): FedExAddress {
@@ -96,10 +618,6 @@ function shopifyAddressToFedEx(
   };
 }
 
-function formatCents(cents: number): string {
-  return `$${(cents / 100).toFixed(2)}`;
-}
-
 function formatDeliveryEstimate(
   timestamp: string | null,
   dayOfWeek: string | null,
@@ -138,60 +656,105 @@ function formatDeliveryEstimate(
   }
 }
 
-function fedExRatesToShopifyRates(
-  fedExRates: ParsedFedExRate[],
+function resolveDeliveryDates(
+  carrierRate: CarrierRate,
+  items: ShopifyCartItem[],
+  defaultHandlingDays: number,
+  calendars: DeliveryCalendars,
+  quotedShipDate: Date,
+): DeliveryDateRange {
+  // Use the carrier-provided delivery date if available, moved by any
+  // extra handling, otherwise calculate from transit days
+  const dates = carrierRate.deliveryDate
+    ? shiftCarrierDeliveryDates(
+        carrierRate.deliveryDate,
+        quotedShipDate,
+        items,
+        defaultHandlingDays,
+        calendars,
+      )
+    : calculateDeliveryDates(
+        items,
+        carrierRate.transitDays,
+        defaultHandlingDays,
+        new Date(),
+        calendars,
+      );
+  const maxTransitDays = carrierRate.maxTransitDays ?? carrierRate.transitDays;
+  return addTransitRange(
+    dates,
+    maxTransitDays - carrierRate.transitDays,
+    calendars.carrier,
+  );
+}
+
+// The carrier's own delivery estimate only holds when its date was not moved
+function isCarrierDeliveryDate(
+  carrierRate: CarrierRate,
+  dates: DeliveryDateRange,
+): boolean {
+  return (
+    dates.minDeliveryDateISO === carrierRate.deliveryDate &&
+    dates.maxDeliveryDateISO === carrierRate.deliveryDate
+  );
+}
+
+function carrierRatesToShopifyRates(
+  carrierRates: CarrierRate[],
   request: ShopifyRateRequest,
   defaultHandlingDays: number,
-  includeHazmat: boolean,
+  calendars: DeliveryCalendars,
+  quotedShipDate: Date,
+  packedBoxes: PackedBox[],
+  isInternational: boolean,
+  config: RuntimeConfig,
+  notes: string[] = [],
 ): ShopifyRate[] {
   const rates: ShopifyRate[] = [];
   const items = request.rate.items;
 
-  for (const fedExRate of fedExRates) {
-    const isGround = isGroundService(fedExRate.serviceType);
-    const handlingFee = includeHazmat
-      ? isGround
-        ? HAZMAT_FEES_CENTS.ground_per_order
-        : HAZMAT_FEES_CENTS.air_per_order
-      : 0;
+  for (const carrierRate of carrierRates) {
+    const isGround = isGroundRate(carrierRate, config);
+    const hazmatFee = calculateHazmatFee(
+      packedBoxes,
+      getHazmatFeeSchedule(config.hazmatFees, isGround, isInternational),
+      isGround,
+    );
 
-    const totalPriceCents = fedExRate.totalChargeCents + handlingFee;
+    const totalPriceCents = carrierRate.totalChargeCents + hazmatFee.totalCents;
 
-    // Use FedEx-provided delivery date if available, otherwise calculate from transit days
-    let deliveryDateISO: string;
-    if (fedExRate.deliveryDate) {
-      deliveryDateISO = fedExRate.deliveryDate;
-    } else {
-      const deliveryDates = calculateDeliveryDates(
-        items,
-        fedExRate.transitDays,
-        defaultHandlingDays,
-      );
-      deliveryDateISO = deliveryDates.minDeliveryDateISO;
-    }
+    const deliveryDates = resolveDeliveryDates(
+      carrierRate,
+      items,
+      defaultHandlingDays,
+      calendars,
+      quotedShipDate,
+    );
 
     // Build description parts
-    const descriptionParts: string[] = [];
-
-    const deliveryEstimate = formatDeliveryEstimate(
-      fedExRate.deliveryTimestamp,
-      fedExRate.deliveryDayOfWeek,
-    );
+    const descriptionParts = [...notes];
+
+    const deliveryEstimate = isCarrierDeliveryDate(carrierRate, deliveryDates)
+      ? formatDeliveryEstimate(
+          carrierRate.deliveryTimestamp,
+          carrierRate.deliveryDayOfWeek,
+        )
+      : null;
     if (deliveryEstimate) {
       descriptionParts.push(deliveryEstimate);
     }
 
-    if (includeHazmat) {
-      descriptionParts.push(`Includes ${formatCents(handlingFee)} hazmat handling fee`);
+    if (hazmatFee.totalCents > 0) {
+      descriptionParts.push(describeHazmatFee(hazmatFee));
     }
 
     const rate: ShopifyRate = {
-      service_name: fedExRate.serviceName,
-      service_code: fedExRate.serviceType,
+      service_name: carrierRate.serviceName,
+      service_code: carrierRate.serviceType,
       total_price: totalPriceCents.toString(),
       currency: "USD",
-      min_delivery_date: deliveryDateISO,
-      max_delivery_date: deliveryDateISO,
+      min_delivery_date: deliveryDates.minDeliveryDateISO,
+      max_delivery_date: deliveryDates.maxDeliveryDateISO,
     };
 
     if (descriptionParts.length > 0) {
@@ -204,6 +767,57 @@ function fedExRatesToShopifyRates(
   return rates;
 }
 
+/**
+ * Build $0 rates for customers who pay freight on their own FedEx account.
+ * FedEx is still asked for a quote so we can show its transit estimate.
+ */
+function fedExRatesToOwnAccountRates(
+  fedExRates: CarrierRate[],
+  request: ShopifyRateRequest,
+  defaultHandlingDays: number,
+  calendars: DeliveryCalendars,
+  quotedShipDate: Date,
+  accountNumber: string,
+  notes: string[] = [],
+): ShopifyRate[] {
+  const items = request.rate.items;
+  const accountSuffix = accountNumber.slice(-4);
+
+  return fedExRates.map((fedExRate) => {
+    const deliveryDates = resolveDeliveryDates(
+      fedExRate,
+      items,
+      defaultHandlingDays,
+      calendars,
+      quotedShipDate,
+    );
+
+    const descriptionParts = [
+      `Bill to your FedEx account ${accountSuffix}`,
+      ...notes,
+    ];
+    const deliveryEstimate = isCarrierDeliveryDate(fedExRate, deliveryDates)
+      ? formatDeliveryEstimate(
+          fedExRate.deliveryTimestamp,
+          fedExRate.deliveryDayOfWeek,
+        )
+      : null;
+    if (deliveryEstimate) {
+      descriptionParts.push(deliveryEstimate);
+    }
+
+    return {
+      service_name: fedExRate.serviceName,
+      service_code: fedExRate.serviceType,
+      total_price: "0",
+      description: descriptionParts.join(" · "),
+      currency: "USD",
+      min_delivery_date: deliveryDates.minDeliveryDateISO,
+      max_delivery_date: deliveryDates.maxDeliveryDateISO,
+    };
+  });
+}
+
 const TEST_SKU = "TEST-SHIPPING";
 const TEST_PROPERTY_KEY = "_test_mode";
 
@@ -243,16 +857,17 @@ function getTestMode(
 function generateMockFedExRates(
   packages: FedExPackageLineItem[],
   isInternational: boolean,
-): ParsedFedExRate[] {
+): CarrierRate[] {
   // Calculate base cost from package weights
   const totalWeightLbs = packages.reduce((sum, pkg) => {
     return sum + (pkg.weight?.value || 10);
   }, 0);
 
-  const rates: ParsedFedExRate[] = [];
+  const rates: CarrierRate[] = [];
 
   if (isInternational) {
     rates.push({
+      carrier: "fedex",
       serviceType: "INTERNATIONAL_ECONOMY",
       serviceName: "FedEx International Economy (MOCK)",
       totalChargeCents: Math.round(4500 + totalWeightLbs * 350),
@@ -262,6 +877,7 @@ function generateMockFedExRates(
       deliveryDayOfWeek: null,
     });
     rates.push({
+      carrier: "fedex",
       serviceType: "INTERNATIONAL_PRIORITY",
       serviceName: "FedEx International Priority (MOCK)",
       totalChargeCents: Math.round(7500 + totalWeightLbs * 500),
@@ -273,6 +889,7 @@ function generateMockFedExRates(
   } else {
     // Domestic services
     rates.push({
+      carrier: "fedex",
       serviceType: "FEDEX_GROUND",
       serviceName: "FedEx Ground (MOCK)",
       totalChargeCents: Math.round(1200 + totalWeightLbs * 45),
@@ -282,6 +899,7 @@ function generateMockFedExRates(
       deliveryDayOfWeek: null,
     });
     rates.push({
+      carrier: "fedex",
       serviceType: "FEDEX_EXPRESS_SAVER",
       serviceName: "FedEx Express Saver (MOCK)",
       totalChargeCents: Math.round(2800 + totalWeightLbs * 85),
@@ -291,6 +909,7 @@ function generateMockFedExRates(
       deliveryDayOfWeek: null,
     });
     rates.push({
+      carrier: "fedex",
       serviceType: "FEDEX_2_DAY",
       serviceName: "FedEx 2Day (MOCK)",
       totalChargeCents: Math.round(4200 + totalWeightLbs * 120),
@@ -300,6 +919,7 @@ function generateMockFedExRates(
       deliveryDayOfWeek: null,
     });
     rates.push({
+      carrier: "fedex",
       serviceType: "PRIORITY_OVERNIGHT",
       serviceName: "FedEx Priority Overnight (MOCK)",
       totalChargeCents: Math.round(6500 + totalWeightLbs * 180),
@@ -413,7 +1033,9 @@ export async function handleRateRequest(
     return c.json({ rates: [] }, 200);
   }
 
-  const route = determineRoute(request, LOCAL_DELIVERY_ZIPS);
+  const config = await loadRuntimeConfig(c.env, logger);
+  const route = determineRoute(request, config.localDeliveryZips);
+  const calendars = getDeliveryCalendars(config.calendar, config.shipSchedule);
 
   logger.info("Rate request", {
     destinationZip: request.rate.destination.postal_code,
@@ -421,93 +1043,470 @@ export async function handleRateRequest(
     itemCount: items.length,
     routeType: route.routeType,
     customerType: route.customerType,
+    configSource: config.source,
   });
 
   if (route.routeType === "local_delivery") {
-    const rate = buildLocalDeliveryRate();
-    return c.json({ rates: [rate] } as ShopifyRateResponse, 200);
+    const rate = buildLocalDeliveryRate(calendars.warehouse);
+    return c.json(
+      {
+        rates: applyRateRules(
+          [rate],
+          config.rateRules,
+          buildRateRuleContext(request, route),
+        ),
+      } as ShopifyRateResponse,
+      200,
+    );
   }
 
   if (route.routeType === "freight_forwarding") {
-    const rate = buildFreightForwardingRate();
-    return c.json({ rates: [rate] } as ShopifyRateResponse, 200);
+    const rate = buildFreightForwardingRate(calendars.warehouse);
+    return c.json(
+      {
+        rates: applyRateRules(
+          [rate],
+          config.rateRules,
+          buildRateRuleContext(request, route),
+        ),
+      } as ShopifyRateResponse,
+      200,
+    );
   }
 
-  try {
-    const packages = getPackagesForCart(items, BOX_CONFIGS);
+  const customerPayor =
+    route.customerType === "fedex_own_account"
+      ? extractCustomerFedExPayor(items)
+      : null;
 
-    if (packages.length === 0) {
-      return c.json({ rates: [] }, 200);
-    }
+  if (route.customerType === "fedex_own_account" && !customerPayor) {
+    logger.warn("fedex_own_account customer has no valid _fedex_account", {
+      destinationZip: request.rate.destination.postal_code,
+    });
+  }
+
+  const ruleContext = buildRateRuleContext(
+    request,
+    route,
+    customerPayor !== null,
+  );
+  const defaultHandlingDays = getDefaultHandlingDays(c.env);
+  const storeOrigin = buildShipmentOrigin(
+    request.rate.origin.city,
+    shopifyAddressToFedEx(request.rate.origin),
+    calendars,
+    defaultHandlingDays,
+  );
+  const shipDate = storeOrigin.shipDate;
+
+  try {
+    const packingOptions = {
+      mode: getPackingMode(c.env.PACKING_MODE),
+      segregation: config.hazmatSegregation,
+    };
 
-    let parsedRates: ParsedFedExRate[];
-    const includeHazmat = hasHazmatItems(items);
+    let quoteParcels: ParcelQuoter;
 
     if (isDynamicTest) {
       // Dynamic test mode: use mock FedEx rates
-      parsedRates = generateMockFedExRates(packages, route.isInternational);
+      quoteParcels = async (packagesToRate) => ({
+        rates: generateMockFedExRates(packagesToRate, route.isInternational),
+        estimateNote: null,
+      });
     } else {
-      // Production mode: call real FedEx API
-      const credentials = getFedExCredentials(c.env);
-      const accessToken = await getFedExAccessToken(c.env);
-
-      const shipperAddress = shopifyAddressToFedEx(request.rate.origin);
-      const recipientAddress = shopifyAddressToFedEx(request.rate.destination);
+      // Production mode: use a cached quote or call the enabled carriers.
+      // The destination is classified once, on the first quote.
+      let recipientAddress: Promise<FedExAddress> | undefined;
+
+      quoteParcels = async (packagesToRate, hazmatPackages, origin) => {
+        recipientAddress ??= classifyRecipientAddress(c.env, request, logger);
+        return quoteParcelRates(
+          c.env,
+          {
+            origin: origin.address,
+            destination: await recipientAddress,
+            packages: packagesToRate,
+            includeHazmat: hazmatPackages,
+            isInternational: route.isInternational,
+            payor: customerPayor ?? undefined,
+            shipDate: origin.shipDate,
+          },
+          config,
+          logger,
+        );
+      };
+    }
 
-      const rateRequest = buildFedExRateRequest(
-        shipperAddress,
-        recipientAddress,
-        packages,
-        credentials.accountNumber,
-        includeHazmat,
+    const toShopifyRates = (
+      carrierRates: CarrierRate[],
+      rateRequest: ShopifyRateRequest,
+      packedBoxes: PackedBox[],
+      notes: string[],
+      origin: ShipmentOrigin,
+    ): ShopifyRate[] =>
+      customerPayor
+        ? fedExRatesToOwnAccountRates(
+            carrierRates,
+            rateRequest,
+            origin.handlingDays,
+            origin.calendars,
+            origin.shipDate,
+            customerPayor.accountNumber,
+            notes,
+          )
+        : carrierRatesToShopifyRates(
+            carrierRates,
+            rateRequest,
+            origin.handlingDays,
+            origin.calendars,
+            origin.shipDate,
+            packedBoxes,
+            route.isInternational,
+            config,
+            notes,
+          );
+
+    // Pack and rate part of the cart as its own shipment. Own-account
+    // rates carry no hazmat fee, so their boxes are left out.
+    const quoteItems = async (
+      groupItems: ShopifyCartItem[],
+      origin: ShipmentOrigin,
+      groupPlan = planCartPackaging(groupItems, config.boxes, packingOptions),
+    ): Promise<ShipmentQuote> => {
+      if (groupPlan.freightItems.length > 0 || groupPlan.packages.length === 0) {
+        return NO_SHIPMENT_QUOTE;
+      }
+      const quote = await quoteParcels(
+        groupPlan.packages,
+        hasHazmatItems(groupItems),
+        origin,
       );
+      const groupRates =
+        getGroundOnlyItems(groupItems).length > 0
+          ? quote.rates.filter((rate) => isGroundRate(rate, config))
+          : quote.rates;
+      return {
+        rates: toShopifyRates(
+          groupRates,
+          { rate: { ...request.rate, items: groupItems } },
+          [],
+          [
+            ...(quote.estimateNote ? [quote.estimateNote] : []),
+            ...groupPlan.ownContainerItems.map(describeSpecialHandling),
+          ],
+          origin,
+        ),
+        packedBoxes: customerPayor ? [] : groupPlan.packedBoxes,
+        groundServiceCodes: groupRates
+          .filter((rate) => isGroundRate(rate, config))
+          .map((rate) => rate.serviceType),
+      };
+    };
 
-      logger.debugPayload("FedEx rate request", rateRequest);
+    // Items stocked at another warehouse or drop-shipped by a vendor are
+    // packed and rated from there, then added up per service. Such carts
+    // are never re-rated from the Shopify origin, since that would price a
+    // shipment that will not happen.
+    const originGroups = groupItemsByOrigin(
+      items,
+      config.warehouses,
+      config.vendorProfiles,
+    );
+    if (originGroups.some((group) => group.warehouse || group.vendorProfile)) {
+      const shipments = originGroups.map((group): OriginShipment => {
+        const { warehouse, vendorProfile } = group;
+        let origin = storeOrigin;
+        if (warehouse) {
+          origin = buildShipmentOrigin(
+            warehouse.name,
+            warehouse.address,
+            getOriginCalendars(warehouse, config),
+            defaultHandlingDays,
+          );
+        } else if (vendorProfile) {
+          origin = buildShipmentOrigin(
+            vendorProfile.vendor,
+            vendorProfile.address,
+            getOriginCalendars(vendorProfile, config),
+            vendorProfile.handlingDays,
+          );
+        }
+        return { origin, vendorProfile, items: group.items };
+      });
+      logger.info("Rating from multiple origins", {
+        origins: shipments.map((shipment) => ({
+          name: shipment.origin.name,
+          postalCode: shipment.origin.address.postalCode,
+          shippedByVendor: isShippedByVendor(shipment.vendorProfile),
+          items: shipment.items.map((item) => item.sku),
+        })),
+      });
 
-      const fedExResponse = await callFedExRateAPI(
-        rateRequest,
-        accessToken,
-        useSandbox,
+      // Vendors shipping on their own account are not packed or quoted
+      const plans = shipments.map((shipment) =>
+        isShippedByVendor(shipment.vendorProfile)
+          ? null
+          : planCartPackaging(shipment.items, config.boxes, packingOptions),
       );
+      const freightItems = plans.flatMap((groupPlan) => groupPlan?.freightItems ?? []);
+      if (freightItems.length > 0) {
+        logger.warn("Items exceed FedEx parcel limits, routing to LTL freight", {
+          destinationZip: request.rate.destination.postal_code,
+          items: freightItems,
+        });
+        const rate = buildLtlFreightRate(freightItems, calendars.warehouse);
+        return c.json(
+          { rates: applyRateRules([rate], config.rateRules, ruleContext) },
+          200,
+        );
+      }
 
-      logger.debugPayload("FedEx rate response", fedExResponse);
+      // Origins whose carriers fail are estimated like any quote; one with
+      // no estimate either leaves the cart without rates
+      const failedOrigins: string[] = [];
+      const quotes = await Promise.all(
+        shipments.map((shipment, i) => {
+          const groupPlan = plans[i];
+          if (!groupPlan) return Promise.resolve(null);
+          return quoteItems(shipment.items, shipment.origin, groupPlan).catch(
+            (error) => {
+              logger.error("Origin quote failed", {
+                origin: shipment.origin.name,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              failedOrigins.push(shipment.origin.name);
+              return NO_SHIPMENT_QUOTE;
+            },
+          );
+        }),
+      );
+      if (failedOrigins.length > 0) {
+        return c.json({ rates: [] }, 200);
+      }
+      const quotedShipments = quotes.filter(
+        (quote): quote is ShipmentQuote => quote !== null,
+      );
+      // Vendor-shipped parts are offered with every quoted service
+      const services = quotedShipments[0]?.rates ?? [VENDOR_SHIPPING_SERVICE];
+      const shipmentRates = shipments.map((shipment, i) => {
+        const { vendorProfile } = shipment;
+        if (!vendorProfile) {
+          return quotes[i]?.rates ?? [];
+        }
+        const rates =
+          quotes[i]?.rates ??
+          buildVendorShippedRates(
+            services,
+            vendorProfile,
+            shipment.items,
+            shipment.origin.calendars,
+          );
+        return addVendorFlatFee(rates, vendorProfile, shipment.items);
+      });
 
-      if (fedExResponse.errors && fedExResponse.errors.length > 0) {
-        logger.error("FedEx API returned errors", {
-          errors: fedExResponse.errors,
+      const originRates = addShipmentsHazmatFee(
+        combineOriginRates(shipments, shipmentRates),
+        quotedShipments,
+        route.isInternational,
+        config,
+      );
+      if (originRates.length === 0) {
+        logger.warn("No service ships from every origin", {
           destinationZip: request.rate.destination.postal_code,
+          routeType: route.routeType,
         });
-        return c.json({ error: "FedEx API error" }, 500);
+        const groundOnlyItems = getGroundOnlyItems(items);
+        if (groundOnlyItems.length === 0) {
+          return c.json({ rates: [] }, 200);
+        }
+        const rate = buildAirRestrictedRate(groundOnlyItems, calendars.warehouse);
+        return c.json(
+          { rates: applyRateRules([rate], config.rateRules, ruleContext) },
+          200,
+        );
       }
 
-      parsedRates = parseFedExRateResponse(
-        fedExResponse,
-        route.isInternational,
+      const response = {
+        rates: applyRateRules(originRates, config.rateRules, ruleContext),
+      } as ShopifyRateResponse;
+      logger.debugPayload("Shopify rate response", response);
+
+      return c.json(response, 200);
+    }
+
+    const plan = planCartPackaging(items, config.boxes, packingOptions);
+    const hazmat = getCartHazmat(items);
+    const includeHazmat = hazmat.length > 0;
+
+    if (plan.freightItems.length > 0) {
+      logger.warn("Items exceed FedEx parcel limits, routing to LTL freight", {
+        destinationZip: request.rate.destination.postal_code,
+        items: plan.freightItems,
+      });
+      // Palletize everything, including the items too big to pack as
+      // parcels. Own-account customers are not quoted on our freight account.
+      const quote = isDynamicTest || customerPayor
+        ? null
+        : await quoteLtlFreight(
+            c.env,
+            request,
+            packItems(
+              items.filter((item) => item.requires_shipping),
+              config.boxes,
+              packingOptions,
+            ),
+            includeHazmat,
+            shipDate,
+            config,
+            logger,
+          );
+      if (!quote) {
+        const rate = buildLtlFreightRate(plan.freightItems, calendars.warehouse);
+        return c.json(
+          { rates: applyRateRules([rate], config.rateRules, ruleContext) },
+          200,
+        );
+      }
+      const rate = ltlFreightQuoteToShopifyRate(
+        quote,
+        request,
+        defaultHandlingDays,
+        calendars,
+        shipDate,
+        plan.freightItems.map(describeSpecialHandling),
       );
+      return c.json(
+        { rates: applyRateRules([rate], config.rateRules, ruleContext) },
+        200,
+      );
+    }
+
+    const packages = plan.packages;
+    if (packages.length === 0) {
+      return c.json({ rates: [] }, 200);
+    }
+
+    if (plan.ownContainerItems.length > 0) {
+      logger.info("Items ship in their own container", {
+        items: plan.ownContainerItems,
+      });
+    }
+
+    // Heavy domestic orders also get an LTL quote, requested alongside
+    // the parcel carriers
+    const totalWeightLbs = plan.packedBoxes.reduce(
+      (sum, packed) => sum + packed.totalWeightLbs,
+      0,
+    );
+    const ltlQuotePromise =
+      !isDynamicTest &&
+      !customerPayor &&
+      !route.isInternational &&
+      totalWeightLbs >= config.freight.minWeightLbs
+        ? quoteLtlFreight(
+            c.env,
+            request,
+            plan.packedBoxes,
+            includeHazmat,
+            shipDate,
+            config,
+            logger,
+          )
+        : Promise.resolve(null);
+
+    // Split-shipment rates are quoted alongside the whole cart
+    const split = isSplitShipmentEnabled(c.env)
+      ? splitCartByAvailability(
+          items,
+          defaultHandlingDays,
+          getOrderDate(new Date(), calendars),
+          calendars.warehouse,
+        )
+      : null;
+    const splitRatesPromise =
+      split && split.readyItems.length > 0 && split.delayedItems.length > 0
+        ? quoteSplitShipment(
+            split,
+            (splitItems) => quoteItems(splitItems, storeOrigin),
+            route.isInternational,
+            config,
+            logger,
+          )
+        : Promise.resolve([]);
+
+    const parcelQuote = await quoteParcels(packages, includeHazmat, storeOrigin);
+    let parsedRates = parcelQuote.rates;
+    const estimateNote = parcelQuote.estimateNote;
+
+    const ltlQuote = await ltlQuotePromise;
+
+    const groundOnlyItems = getGroundOnlyItems(items);
+    const airRates = parsedRates.filter((rate) => !isGroundRate(rate, config));
+    if (groundOnlyItems.length > 0 && airRates.length > 0) {
+      logger.info("Removed air services for ground-only items", {
+        items: groundOnlyItems.map((item) => item.sku),
+        services: airRates.map((rate) => `${rate.carrier}:${rate.serviceType}`),
+      });
+      parsedRates = parsedRates.filter((rate) => isGroundRate(rate, config));
+      if (parsedRates.length === 0 && !ltlQuote) {
+        const rate = buildAirRestrictedRate(groundOnlyItems, calendars.warehouse);
+        return c.json(
+          { rates: applyRateRules([rate], config.rateRules, ruleContext) },
+          200,
+        );
+      }
     }
 
     if (parsedRates.length === 0) {
-      logger.warn("No valid FedEx rates returned", {
+      logger.warn("No valid carrier rates returned", {
         destinationZip: request.rate.destination.postal_code,
         routeType: route.routeType,
       });
-      return c.json({ rates: [] }, 200);
+      if (!ltlQuote) {
+        return c.json({ rates: [] }, 200);
+      }
     }
 
-    const defaultHandlingDays = getDefaultHandlingDays(c.env);
-    const shopifyRates = fedExRatesToShopifyRates(
+    const packingNotes = plan.ownContainerItems.map(describeSpecialHandling);
+    const notes = [...(estimateNote ? [estimateNote] : []), ...packingNotes];
+    const shopifyRates = toShopifyRates(
       parsedRates,
       request,
-      defaultHandlingDays,
-      includeHazmat,
+      plan.packedBoxes,
+      notes,
+      storeOrigin,
     );
 
-    const response = { rates: shopifyRates } as ShopifyRateResponse;
+    if (ltlQuote) {
+      shopifyRates.push(
+        ltlFreightQuoteToShopifyRate(
+          ltlQuote,
+          request,
+          defaultHandlingDays,
+          calendars,
+          shipDate,
+          packingNotes,
+        ),
+      );
+    }
+
+    shopifyRates.push(...(await splitRatesPromise));
+
+    const response = {
+      rates: applyRateRules(shopifyRates, config.rateRules, ruleContext),
+    } as ShopifyRateResponse;
     logger.debugPayload("Shopify rate response", response);
 
     return c.json(response, 200);
   } catch (error) {
-    logger.error("Failed to get FedEx rates", {
+    if (error instanceof FedExApiError) {
+      logger.error("FedEx API returned errors", {
+        errors: error.errors,
+        destinationZip: request.rate.destination.postal_code,
+      });
+      return c.json({ error: "FedEx API error" }, 500);
+    }
+    logger.error("Failed to get carrier rates", {
       error: error instanceof Error ? error.message : String(error),
       destinationZip: request.rate.destination.postal_code,
       itemCount: items.length,
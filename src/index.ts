@@ -1,6 +1,21 @@
 import { Hono } from "hono";
 import type { Env } from "./types";
 import { handleRateRequest, handleTestRateRequest } from "./handlers/rates";
+import {
+  handleGetConfig,
+  handleListBoxes,
+  handleCreateBox,
+  handleUpdateBox,
+  handleDeleteBox,
+  handleGetHazmatFees,
+  handleUpdateHazmatFees,
+  handleListLocalZips,
+  handleAddLocalZips,
+  handleRemoveLocalZip,
+  handleListAuditEntries,
+} from "./handlers/admin";
+import { shopifyHmacMiddleware } from "./middleware/shopify-hmac";
+import { adminAuthMiddleware, type AdminEnv } from "./middleware/admin-auth";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -9,7 +24,22 @@ app.get("/health", (c) => {
 });
 
 app.get("/rates", handleTestRateRequest);
-app.post("/rates", handleRateRequest);
+app.post("/rates", shopifyHmacMiddleware(), handleRateRequest);
+
+const admin = new Hono<AdminEnv>();
+admin.use("*", adminAuthMiddleware());
+admin.get("/config", handleGetConfig);
+admin.get("/boxes", handleListBoxes);
+admin.post("/boxes", handleCreateBox);
+admin.put("/boxes/:name", handleUpdateBox);
+admin.delete("/boxes/:name", handleDeleteBox);
+admin.get("/hazmat-fees", handleGetHazmatFees);
+admin.put("/hazmat-fees", handleUpdateHazmatFees);
+admin.get("/local-zips", handleListLocalZips);
+admin.post("/local-zips", handleAddLocalZips);
+admin.delete("/local-zips/:zip", handleRemoveLocalZip);
+admin.get("/audit", handleListAuditEntries);
+app.route("/admin", admin);
 
 app.onError((err, c) => {
   console.error("Unhandled error:", err.message, err.stack);
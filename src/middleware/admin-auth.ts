@@ -0,0 +1,70 @@
+import type { MiddlewareHandler } from "hono";
+import type { Env } from "../types";
+import { createLogger } from "../services/logger";
+
+export type AdminEnv = {
+  Bindings: Env;
+  Variables: { adminUser: string };
+};
+
+interface AdminApiKey {
+  name: string;
+  token: string;
+}
+
+/**
+ * Parse ADMIN_API_KEYS, a comma-separated list of "name:token" pairs.
+ * The name is recorded in the audit log for every change made with that token.
+ */
+export function parseAdminApiKeys(value: string | undefined): AdminApiKey[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((pair) => {
+      const separator = pair.indexOf(":");
+      if (separator <= 0) return null;
+      const name = pair.slice(0, separator).trim();
+      const token = pair.slice(separator + 1).trim();
+      return name && token ? { name, token } : null;
+    })
+    .filter((key): key is AdminApiKey => key !== null);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i % bBytes.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Require "Authorization: Bearer <token>" matching one of ADMIN_API_KEYS.
+ * Sets the adminUser variable to the matching key's name.
+ */
+export function adminAuthMiddleware(): MiddlewareHandler<AdminEnv> {
+  return async (c, next) => {
+    const keys = parseAdminApiKeys(c.env.ADMIN_API_KEYS);
+    if (keys.length === 0) {
+      createLogger(false).error("ADMIN_API_KEYS is not configured");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const header = c.req.header("Authorization") ?? "";
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    const token = match?.[1].trim();
+    const key = token
+      ? keys.find((candidate) => timingSafeEqual(candidate.token, token))
+      : undefined;
+
+    if (!key) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    c.set("adminUser", key.name);
+    return next();
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import {
+  computeShopifyHmac,
+  verifyShopifyHmac,
+  shopifyHmacMiddleware,
+  SHOPIFY_HMAC_HEADER,
+} from "./shopify-hmac";
+import type { Env } from "../types";
+
+const SECRET = "test-shared-secret";
+const BODY = JSON.stringify({ rate: { items: [] } });
+
+function createApp(): Hono<{ Bindings: Env }> {
+  const app = new Hono<{ Bindings: Env }>();
+  app.post("/rates", shopifyHmacMiddleware(), async (c) => {
+    const body = await c.req.json();
+    return c.json({ ok: true, body }, 200);
+  });
+  return app;
+}
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123",
+    SHOPIFY_API_SECRET: SECRET,
+    ...overrides,
+  };
+}
+
+describe("verifyShopifyHmac", () => {
+  it("accepts a signature computed with the same secret", async () => {
+    const hmac = await computeShopifyHmac(BODY, SECRET);
+    expect(await verifyShopifyHmac(BODY, hmac, SECRET)).toBe(true);
+  });
+
+  it("rejects a signature computed with a different secret", async () => {
+    const hmac = await computeShopifyHmac(BODY, "other-secret");
+    expect(await verifyShopifyHmac(BODY, hmac, SECRET)).toBe(false);
+  });
+
+  it("rejects a tampered body", async () => {
+    const hmac = await computeShopifyHmac(BODY, SECRET);
+    expect(await verifyShopifyHmac(BODY + " ", hmac, SECRET)).toBe(false);
+  });
+
+  it("rejects a missing or malformed header", async () => {
+    expect(await verifyShopifyHmac(BODY, undefined, SECRET)).toBe(false);
+    expect(await verifyShopifyHmac(BODY, "not base64!", SECRET)).toBe(false);
+  });
+});
+
+describe("shopifyHmacMiddleware", () => {
+  it("passes valid requests through with the body still readable", async () => {
+    const hmac = await computeShopifyHmac(BODY, SECRET);
+    const res = await createApp().request(
+      "/rates",
+      { method: "POST", body: BODY, headers: { [SHOPIFY_HMAC_HEADER]: hmac } },
+      createEnv(),
+    );
+
+    expect(res.status).toBe(200);
+    const json = (await res.json()) as { ok: boolean; body: unknown };
+    expect(json.body).toEqual(JSON.parse(BODY));
+  });
+
+  it("returns 401 when the signature does not match", async () => {
+    const hmac = await computeShopifyHmac(BODY, "other-secret");
+    const res = await createApp().request(
+      "/rates",
+      { method: "POST", body: BODY, headers: { [SHOPIFY_HMAC_HEADER]: hmac } },
+      createEnv(),
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 401 when the header is missing", async () => {
+    const res = await createApp().request(
+      "/rates",
+      { method: "POST", body: BODY },
+      createEnv(),
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 401 when no secret is configured", async () => {
+    const hmac = await computeShopifyHmac(BODY, SECRET);
+    const res = await createApp().request(
+      "/rates",
+      { method: "POST", body: BODY, headers: { [SHOPIFY_HMAC_HEADER]: hmac } },
+      createEnv({ SHOPIFY_API_SECRET: undefined }),
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("skips verification for ?test= requests when the bypass is enabled", async () => {
+    const res = await createApp().request(
+      "/rates?test=dynamic",
+      { method: "POST", body: BODY },
+      createEnv({ SHOPIFY_HMAC_ALLOW_TEST: "true" }),
+    );
+
+    expect(res.status).toBe(200);
+  });
+
+  it("verifies ?test= values that do not request mock rates", async () => {
+    const res = await createApp().request(
+      "/rates?test=foo",
+      { method: "POST", body: BODY },
+      createEnv({ SHOPIFY_HMAC_ALLOW_TEST: "true" }),
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("still verifies ?test= requests when the bypass is disabled", async () => {
+    const res = await createApp().request(
+      "/rates?test=dynamic",
+      { method: "POST", body: BODY },
+      createEnv(),
+    );
+
+    expect(res.status).toBe(401);
+  });
+});
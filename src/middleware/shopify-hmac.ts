@@ -0,0 +1,113 @@
+import type { MiddlewareHandler } from "hono";
+import type { Env } from "../types";
+import { createLogger } from "../services/logger";
+
+export const SHOPIFY_HMAC_HEADER = "X-Shopify-Hmac-Sha256";
+
+// ?test= values the rates handler answers with mock rates. Any other
+// value is quoted live, so it must be signed.
+const MOCK_TEST_MODES = new Set(["true", "static", "dynamic"]);
+
+function base64ToBytes(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.trim());
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * Compute the base64 HMAC-SHA256 digest Shopify sends for a request body
+ */
+export async function computeShopifyHmac(
+  rawBody: string,
+  secret: string,
+): Promise<string> {
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(rawBody),
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Verify a Shopify HMAC header against the raw request body.
+ * Uses crypto.subtle.verify so the comparison is constant-time.
+ */
+export async function verifyShopifyHmac(
+  rawBody: string,
+  hmacHeader: string | undefined,
+  secret: string,
+): Promise<boolean> {
+  if (!hmacHeader) return false;
+
+  const signature = base64ToBytes(hmacHeader);
+  if (!signature) return false;
+
+  const key = await importHmacKey(secret);
+  return crypto.subtle.verify(
+    "HMAC",
+    key,
+    signature,
+    new TextEncoder().encode(rawBody),
+  );
+}
+
+/**
+ * Reject requests whose X-Shopify-Hmac-Sha256 header does not match the body.
+ * Requests for mock rates (?test=true, static or dynamic) skip
+ * verification only when SHOPIFY_HMAC_ALLOW_TEST is set to 'true'.
+ */
+export function shopifyHmacMiddleware(): MiddlewareHandler<{ Bindings: Env }> {
+  return async (c, next) => {
+    const logger = createLogger(c.env.LOG === "full");
+
+    if (
+      MOCK_TEST_MODES.has(c.req.query("test") ?? "") &&
+      c.env.SHOPIFY_HMAC_ALLOW_TEST === "true"
+    ) {
+      return next();
+    }
+
+    const secret = c.env.SHOPIFY_API_SECRET;
+    if (!secret) {
+      logger.error("SHOPIFY_API_SECRET is not configured; rejecting request");
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    // Reading the body as text caches it, so the handler can still call c.req.json()
+    const rawBody = await c.req.text();
+    const valid = await verifyShopifyHmac(
+      rawBody,
+      c.req.header(SHOPIFY_HMAC_HEADER),
+      secret,
+    );
+
+    if (!valid) {
+      logger.warn("Rejected request with invalid Shopify HMAC", {
+        path: c.req.path,
+        hasHeader: c.req.header(SHOPIFY_HMAC_HEADER) !== undefined,
+      });
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    return next();
+  };
+}
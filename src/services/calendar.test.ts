@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  createBusinessCalendar,
+  getDeliveryCalendars,
+  getHolidays,
+  getLocalDateTime,
+  getOrderDate,
+  getWarehouseCalendar,
+  FEDEX_CALENDAR,
+} from "./calendar";
+import { CALENDAR_CONFIG, FEDEX_HOLIDAYS, US_FEDERAL_HOLIDAYS } from "../config";
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("getHolidays", () => {
+  it("computes the US federal holidays for any year", () => {
+    expect([...getHolidays(2025, US_FEDERAL_HOLIDAYS).keys()].sort()).toEqual([
+      "2025-01-01",
+      "2025-01-20",
+      "2025-02-17",
+      "2025-05-26",
+      "2025-06-19",
+      "2025-07-04",
+      "2025-09-01",
+      "2025-10-13",
+      "2025-11-11",
+      "2025-11-27",
+      "2025-12-25",
+    ]);
+    expect(getHolidays(2031, US_FEDERAL_HOLIDAYS).get("2031-11-27")).toBe("Thanksgiving Day");
+  });
+
+  it("observes weekend holidays on the nearest weekday", () => {
+    // July 4, 2026 is a Saturday; Christmas 2022 a Sunday
+    expect(getHolidays(2026, FEDEX_HOLIDAYS).get("2026-07-03")).toBe("Independence Day");
+    expect(getHolidays(2022, FEDEX_HOLIDAYS).get("2022-12-26")).toBe("Christmas Day");
+  });
+
+  it("observes a Saturday New Year's Day on December 31 of the year before", () => {
+    expect(getHolidays(2021, FEDEX_HOLIDAYS).get("2021-12-31")).toBe("New Year's Day");
+    expect(getHolidays(2022, FEDEX_HOLIDAYS).has("2022-01-01")).toBe(false);
+  });
+
+  it("finds the last weekday of a month", () => {
+    expect(getHolidays(2027, FEDEX_HOLIDAYS).get("2027-05-31")).toBe("Memorial Day");
+    expect(getHolidays(2026, FEDEX_HOLIDAYS).get("2026-05-25")).toBe("Memorial Day");
+  });
+});
+
+describe("createBusinessCalendar", () => {
+  it("closes on weekends, holidays and closure dates", () => {
+    const calendar = createBusinessCalendar(FEDEX_HOLIDAYS, ["2025-12-26"]);
+
+    expect(calendar.isBusinessDay(date("2025-12-24"))).toBe(true);
+    expect(calendar.isBusinessDay(date("2025-12-25"))).toBe(false);
+    expect(calendar.isHoliday(date("2025-12-25"))).toBe(true);
+    expect(calendar.isBusinessDay(date("2025-12-26"))).toBe(false);
+    expect(calendar.isHoliday(date("2025-12-26"))).toBe(false);
+    expect(calendar.isBusinessDay(date("2025-12-27"))).toBe(false);
+  });
+});
+
+describe("FEDEX_CALENDAR", () => {
+  it("runs on federal holidays FedEx works", () => {
+    // Martin Luther King Jr. Day and Veterans Day
+    expect(FEDEX_CALENDAR.isBusinessDay(date("2025-01-20"))).toBe(true);
+    expect(FEDEX_CALENDAR.isBusinessDay(date("2025-11-11"))).toBe(true);
+    expect(FEDEX_CALENDAR.isBusinessDay(date("2025-11-27"))).toBe(false);
+  });
+});
+
+describe("getWarehouseCalendar", () => {
+  it("observes federal holidays only when configured", () => {
+    const mlkDay = date("2025-01-20");
+
+    expect(
+      getWarehouseCalendar({ observeFederalHolidays: false, closures: [] }).isBusinessDay(mlkDay),
+    ).toBe(true);
+    expect(
+      getWarehouseCalendar({ observeFederalHolidays: true, closures: [] }).isBusinessDay(mlkDay),
+    ).toBe(false);
+  });
+
+  it("closes on weekdays without a pickup", () => {
+    const calendar = getWarehouseCalendar(CALENDAR_CONFIG, {
+      timezone: "America/New_York",
+      cutoffTime: "14:00",
+      pickups: [null, "17:00", "17:00", "17:00", "17:00", null, "12:00"],
+    });
+
+    expect(calendar.isBusinessDay(date("2025-03-07"))).toBe(false);
+    expect(calendar.isBusinessDay(date("2025-03-08"))).toBe(true);
+  });
+});
+
+describe("getLocalDateTime", () => {
+  it("reads the date and time in the given timezone across DST", () => {
+    // 9pm EST and 9pm EDT in Miami are already the next day in UTC
+    expect(getLocalDateTime(new Date("2025-01-15T02:00:00Z"), "America/New_York")).toEqual({
+      date: date("2025-01-14"),
+      minutes: 21 * 60,
+    });
+    expect(getLocalDateTime(new Date("2025-07-15T01:00:00Z"), "America/New_York")).toEqual({
+      date: date("2025-07-14"),
+      minutes: 21 * 60,
+    });
+  });
+});
+
+describe("getOrderDate", () => {
+  const calendars = getDeliveryCalendars(CALENDAR_CONFIG);
+
+  it("starts handling the same day before the cutoff", () => {
+    // Tuesday 1:59pm EST
+    expect(getOrderDate(new Date("2025-01-14T18:59:00Z"), calendars)).toEqual(
+      date("2025-01-14"),
+    );
+  });
+
+  it("moves orders after the cutoff to the next pickup day", () => {
+    // Tuesday 4pm and 9pm EST
+    expect(getOrderDate(new Date("2025-01-14T21:00:00Z"), calendars)).toEqual(
+      date("2025-01-15"),
+    );
+    expect(getOrderDate(new Date("2025-01-15T02:00:00Z"), calendars)).toEqual(
+      date("2025-01-15"),
+    );
+  });
+
+  it("moves weekend and holiday orders to the next pickup day", () => {
+    // Saturday morning, then Thanksgiving morning
+    expect(getOrderDate(new Date("2025-01-18T15:00:00Z"), calendars)).toEqual(
+      date("2025-01-20"),
+    );
+    expect(getOrderDate(new Date("2025-11-27T15:00:00Z"), calendars)).toEqual(
+      date("2025-11-28"),
+    );
+  });
+
+  it("uses the earlier of the cutoff and that day's pickup", () => {
+    const saturdayPickup = getDeliveryCalendars(CALENDAR_CONFIG, {
+      timezone: "America/New_York",
+      cutoffTime: "14:00",
+      pickups: [null, "17:00", "17:00", "17:00", "17:00", "17:00", "11:00"],
+    });
+
+    // Saturday 10:30am and 11:30am EST
+    expect(getOrderDate(new Date("2025-01-18T15:30:00Z"), saturdayPickup)).toEqual(
+      date("2025-01-18"),
+    );
+    expect(getOrderDate(new Date("2025-01-18T16:30:00Z"), saturdayPickup)).toEqual(
+      date("2025-01-20"),
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import type { CalendarConfig, HolidayRule, ShipScheduleConfig } from "../types";
+import { FEDEX_HOLIDAYS, SHIP_SCHEDULE, US_FEDERAL_HOLIDAYS } from "../config";
+
+export interface BusinessCalendar {
+  isHoliday(date: Date): boolean;
+  isBusinessDay(date: Date): boolean;
+}
+
+// Handling days run on the warehouse calendar, transit on the carrier's
+export interface DeliveryCalendars {
+  warehouse: BusinessCalendar;
+  carrier: BusinessCalendar;
+  schedule: ShipScheduleConfig;
+}
+
+// A calendar date (UTC midnight) and minutes past midnight in some timezone
+export interface LocalDateTime {
+  date: Date;
+  minutes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONDAY_TO_FRIDAY = [1, 2, 3, 4, 5];
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  nth: number,
+): Date {
+  if (nth < 0) {
+    const last = new Date(Date.UTC(year, month, 0));
+    const offset = (last.getUTCDay() - weekday + 7) % 7;
+    return new Date(last.getTime() - (offset - (nth + 1) * 7) * DAY_MS);
+  }
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return new Date(Date.UTC(year, month - 1, 1 + offset + (nth - 1) * 7));
+}
+
+function getObservedDate(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return new Date(date.getTime() - DAY_MS);
+  if (day === 0) return new Date(date.getTime() + DAY_MS);
+  return date;
+}
+
+function getRuleDate(rule: HolidayRule, year: number): Date {
+  return "day" in rule
+    ? getObservedDate(new Date(Date.UTC(year, rule.month - 1, rule.day)))
+    : nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.nth);
+}
+
+/**
+ * Observed holidays falling in the given year, keyed by YYYY-MM-DD. A
+ * New Year's Day on a Saturday is observed on December 31 of the year
+ * before, so the following year's rules are checked too.
+ */
+export function getHolidays(
+  year: number,
+  rules: HolidayRule[],
+): Map<string, string> {
+  const holidays = new Map<string, string>();
+  for (const ruleYear of [year, year + 1]) {
+    for (const rule of rules) {
+      const date = getRuleDate(rule, ruleYear);
+      if (date.getUTCFullYear() === year) {
+        holidays.set(toDateKey(date), rule.name);
+      }
+    }
+  }
+  return holidays;
+}
+
+/**
+ * A calendar open on the given weekdays (0 = Sunday, Monday to Friday by
+ * default) and closed on the holidays from the given rules and on the
+ * listed closure dates (YYYY-MM-DD). Holidays are computed per year on
+ * first use.
+ */
+export function createBusinessCalendar(
+  rules: HolidayRule[],
+  closures: string[] = [],
+  weekdays: number[] = MONDAY_TO_FRIDAY,
+): BusinessCalendar {
+  const closureSet = new Set(closures);
+  const openDays = new Set(weekdays);
+  const holidaysByYear = new Map<number, Map<string, string>>();
+
+  const isHoliday = (date: Date): boolean => {
+    const year = date.getUTCFullYear();
+    let holidays = holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = getHolidays(year, rules);
+      holidaysByYear.set(year, holidays);
+    }
+    return holidays.has(toDateKey(date));
+  };
+
+  return {
+    isHoliday,
+    isBusinessDay(date) {
+      return (
+        openDays.has(date.getUTCDay()) &&
+        !isHoliday(date) &&
+        !closureSet.has(toDateKey(date))
+      );
+    },
+  };
+}
+
+export const FEDEX_CALENDAR = createBusinessCalendar(FEDEX_HOLIDAYS);
+
+/**
+ * We ship only when FedEx picks up, so the warehouse observes FedEx
+ * holidays, company closures, optionally every federal holiday, and is
+ * closed on weekdays without a scheduled pickup.
+ */
+export function getWarehouseCalendar(
+  config: CalendarConfig,
+  schedule: ShipScheduleConfig = SHIP_SCHEDULE,
+): BusinessCalendar {
+  const rules = config.observeFederalHolidays
+    ? [...US_FEDERAL_HOLIDAYS, ...FEDEX_HOLIDAYS]
+    : FEDEX_HOLIDAYS;
+  const pickupDays = schedule.pickups.flatMap((pickup, day) =>
+    pickup === null ? [] : [day],
+  );
+  return createBusinessCalendar(rules, config.closures, pickupDays);
+}
+
+export function getDeliveryCalendars(
+  config: CalendarConfig,
+  schedule: ShipScheduleConfig = SHIP_SCHEDULE,
+): DeliveryCalendars {
+  return {
+    warehouse: getWarehouseCalendar(config, schedule),
+    carrier: FEDEX_CALENDAR,
+    schedule,
+  };
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function getLocalDateTime(instant: Date, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    date: new Date(Date.UTC(part("year"), part("month") - 1, part("day"))),
+    minutes: part("hour") * 60 + part("minute"),
+  };
+}
+
+/**
+ * The day handling starts for an order placed at the given instant: that
+ * day in the origin's timezone if it is a pickup day and the order beats
+ * both the cutoff and the pickup, otherwise the next day the warehouse
+ * ships.
+ */
+export function getOrderDate(instant: Date, calendars: DeliveryCalendars): Date {
+  const { schedule, warehouse } = calendars;
+  const local = getLocalDateTime(instant, schedule.timezone);
+  const pickup = schedule.pickups[local.date.getUTCDay()];
+
+  if (pickup !== null && warehouse.isBusinessDay(local.date)) {
+    const cutoff = Math.min(parseTime(schedule.cutoffTime), parseTime(pickup));
+    if (local.minutes < cutoff) {
+      return local.date;
+    }
+  }
+
+  const next = new Date(local.date);
+  do {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } while (!warehouse.isBusinessDay(next));
+  return next;
+}
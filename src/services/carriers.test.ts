@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  parseEnabledCarriers,
+  getEnabledCarriers,
+  fetchCarrierRates,
+} from "./carriers";
+import { createLogger } from "./logger";
+import { getDefaultRuntimeConfig } from "./runtime-config";
+import type {
+  Env,
+  CarrierAdapter,
+  CarrierId,
+  CarrierRate,
+  CarrierRateRequest,
+} from "../types";
+
+const FULL_ENV = {
+  FEDEX_CLIENT_ID: "fedex-id",
+  FEDEX_CLIENT_SECRET: "fedex-secret",
+  FEDEX_ACCOUNT_NUMBER: "123456789",
+  UPS_CLIENT_ID: "ups-id",
+  UPS_CLIENT_SECRET: "ups-secret",
+  UPS_ACCOUNT_NUMBER: "A1B2C3",
+  USPS_CLIENT_ID: "usps-id",
+  USPS_CLIENT_SECRET: "usps-secret",
+  ENABLED_CARRIERS: "fedex,ups,usps",
+} as Env;
+
+const DOMESTIC = { includeHazmat: false, isInternational: false, fedExOwnAccount: false };
+
+function ids(adapters: CarrierAdapter[]): CarrierId[] {
+  return adapters.map((adapter) => adapter.id);
+}
+
+describe("parseEnabledCarriers", () => {
+  it("defaults to FedEx only", () => {
+    expect(parseEnabledCarriers(undefined)).toEqual(["fedex"]);
+    expect(parseEnabledCarriers(" ")).toEqual(["fedex"]);
+  });
+
+  it("normalizes case, whitespace and duplicates and drops unknown carriers", () => {
+    expect(parseEnabledCarriers(" UPS, usps ,dhl,ups")).toEqual(["ups", "usps"]);
+  });
+});
+
+describe("getEnabledCarriers", () => {
+  it("returns every enabled and configured carrier", () => {
+    expect(ids(getEnabledCarriers(FULL_ENV, DOMESTIC))).toEqual(["fedex", "ups", "usps"]);
+  });
+
+  it("skips carriers without credentials", () => {
+    const env = { ...FULL_ENV, UPS_CLIENT_SECRET: undefined };
+    expect(ids(getEnabledCarriers(env, DOMESTIC))).toEqual(["fedex", "usps"]);
+  });
+
+  it("uses only carriers that can quote hazmat or international shipments", () => {
+    expect(ids(getEnabledCarriers(FULL_ENV, { ...DOMESTIC, includeHazmat: true }))).toEqual([
+      "fedex",
+    ]);
+    expect(ids(getEnabledCarriers(FULL_ENV, { ...DOMESTIC, isInternational: true }))).toEqual([
+      "fedex",
+      "ups",
+    ]);
+  });
+
+  it("rates own-account customers with FedEx only", () => {
+    expect(ids(getEnabledCarriers(FULL_ENV, { ...DOMESTIC, fedExOwnAccount: true }))).toEqual([
+      "fedex",
+    ]);
+  });
+});
+
+describe("fetchCarrierRates", () => {
+  const context = {
+    env: FULL_ENV,
+    config: getDefaultRuntimeConfig(),
+    logger: createLogger(false),
+  };
+  const request = {} as CarrierRateRequest;
+
+  function createRate(carrier: CarrierId, serviceType: string): CarrierRate {
+    return {
+      carrier,
+      serviceType,
+      serviceName: serviceType,
+      totalChargeCents: 1000,
+      transitDays: 3,
+      deliveryDate: null,
+      deliveryTimestamp: null,
+      deliveryDayOfWeek: null,
+    };
+  }
+
+  function createAdapter(
+    id: CarrierId,
+    getRates: CarrierAdapter["getRates"],
+  ): CarrierAdapter {
+    return {
+      id,
+      supportsHazmat: true,
+      supportsInternational: true,
+      isConfigured: () => true,
+      isGroundService: () => false,
+      getRates,
+    };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("merges quotes from every carrier", async () => {
+    const result = await fetchCarrierRates(
+      [
+        createAdapter("fedex", async () => [createRate("fedex", "FEDEX_GROUND")]),
+        createAdapter("ups", async () => [createRate("ups", "UPS_GROUND")]),
+      ],
+      request,
+      context,
+    );
+
+    expect(result.complete).toBe(true);
+    expect(result.rates.map((r) => r.serviceType)).toEqual(["FEDEX_GROUND", "UPS_GROUND"]);
+  });
+
+  it("returns partial results when one carrier fails", async () => {
+    const result = await fetchCarrierRates(
+      [
+        createAdapter("fedex", async () => [createRate("fedex", "FEDEX_GROUND")]),
+        createAdapter("ups", async () => {
+          throw new Error("UPS Rating API request timed out");
+        }),
+      ],
+      request,
+      context,
+    );
+
+    expect(result.complete).toBe(false);
+    expect(result.rates.map((r) => r.carrier)).toEqual(["fedex"]);
+    expect(console.warn).toHaveBeenCalledWith("Carrier rating failed", {
+      carrier: "ups",
+      error: "UPS Rating API request timed out",
+    });
+  });
+
+  it("rethrows the first carrier's error when every carrier fails", async () => {
+    const fedExError = new Error("FedEx down");
+
+    await expect(
+      fetchCarrierRates(
+        [
+          createAdapter("fedex", async () => {
+            throw fedExError;
+          }),
+          createAdapter("usps", async () => {
+            throw new Error("USPS down");
+          }),
+        ],
+        request,
+        context,
+      ),
+    ).rejects.toBe(fedExError);
+  });
+
+  it("throws when no carriers are available", async () => {
+    await expect(fetchCarrierRates([], request, context)).rejects.toThrow(
+      "No carriers are enabled and configured",
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import type {
+  Env,
+  CarrierAdapter,
+  CarrierId,
+  CarrierRate,
+  CarrierRateRequest,
+  CarrierRatingContext,
+} from "../types";
+import { CARRIER_IDS, DEFAULT_ENABLED_CARRIERS } from "../config";
+import { fedExCarrierAdapter } from "./fedex";
+import { upsCarrierAdapter } from "./ups";
+import { uspsCarrierAdapter } from "./usps";
+
+export const CARRIER_ADAPTERS: Record<CarrierId, CarrierAdapter> = {
+  fedex: fedExCarrierAdapter,
+  ups: upsCarrierAdapter,
+  usps: uspsCarrierAdapter,
+};
+
+export function getCarrierAdapter(id: CarrierId): CarrierAdapter {
+  return CARRIER_ADAPTERS[id];
+}
+
+/**
+ * Parse ENABLED_CARRIERS ("fedex,ups,usps"). Unknown names are ignored;
+ * an unset or empty value means FedEx only.
+ */
+export function parseEnabledCarriers(value: string | undefined): CarrierId[] {
+  const ids = (value || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id): id is CarrierId => CARRIER_IDS.includes(id as CarrierId));
+
+  return ids.length > 0 ? [...new Set(ids)] : [...DEFAULT_ENABLED_CARRIERS];
+}
+
+export interface CarrierSelection {
+  includeHazmat: boolean;
+  isInternational: boolean;
+  // Customers shipping on their own FedEx account are only rated by FedEx
+  fedExOwnAccount: boolean;
+}
+
+export function getEnabledCarriers(
+  env: Env,
+  selection: CarrierSelection,
+): CarrierAdapter[] {
+  if (selection.fedExOwnAccount) {
+    return [fedExCarrierAdapter];
+  }
+
+  return parseEnabledCarriers(env.ENABLED_CARRIERS)
+    .map(getCarrierAdapter)
+    .filter(
+      (adapter) =>
+        adapter.isConfigured(env) &&
+        (!selection.includeHazmat || adapter.supportsHazmat) &&
+        (!selection.isInternational || adapter.supportsInternational),
+    );
+}
+
+export interface CarrierRatesResult {
+  rates: CarrierRate[];
+  // False when at least one carrier failed and its quotes are missing
+  complete: boolean;
+}
+
+/**
+ * Rate the shipment with every carrier in parallel and merge the quotes.
+ * A failing carrier is logged and skipped; if every carrier fails, the
+ * first carrier's error is rethrown so the caller can fall back.
+ */
+export async function fetchCarrierRates(
+  adapters: CarrierAdapter[],
+  request: CarrierRateRequest,
+  context: CarrierRatingContext,
+): Promise<CarrierRatesResult> {
+  if (adapters.length === 0) {
+    throw new Error("No carriers are enabled and configured");
+  }
+
+  const results = await Promise.allSettled(
+    adapters.map((adapter) => adapter.getRates(request, context)),
+  );
+
+  const rates: CarrierRate[] = [];
+  const failures: { carrier: CarrierId; error: unknown }[] = [];
+
+  results.forEach((result, index) => {
+    const carrier = adapters[index].id;
+    if (result.status === "fulfilled") {
+      rates.push(...result.value);
+    } else {
+      failures.push({ carrier, error: result.reason });
+      context.logger.warn("Carrier rating failed", {
+        carrier,
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+      });
+    }
+  });
+
+  if (failures.length === adapters.length) {
+    throw failures[0].error;
+  }
+
+  return { rates, complete: failures.length === 0 };
+}
@@ -0,0 +1,106 @@
+import type { AuditEntry, RuntimeConfig, RuntimeConfigDocument } from "../types";
+import {
+  CONFIG_KV_KEY,
+  CONFIG_AUDIT_KEY_PREFIX,
+  CONFIG_AUDIT_LIST_LIMIT,
+} from "../config";
+import {
+  getDefaultRuntimeConfig,
+  validateRuntimeConfigDocument,
+  clearRuntimeConfigCache,
+} from "./runtime-config";
+import type { Logger } from "./logger";
+
+export function documentFromRuntimeConfig(
+  config: RuntimeConfig,
+): RuntimeConfigDocument {
+  return {
+    version: config.version,
+    boxes: config.boxes.map((box) => ({ ...box })),
+    hazmatFees: structuredClone(config.hazmatFees),
+    localDeliveryZips: [...config.localDeliveryZips].sort(),
+    services: {
+      domesticGround: [...config.services.domesticGround],
+      domesticAir: [...config.services.domesticAir],
+      international: [...config.services.international],
+    },
+    fallbackRateTable: structuredClone(config.fallbackRateTable),
+    freight: structuredClone(config.freight),
+    hazmatSegregation: structuredClone(config.hazmatSegregation),
+    rateRules: structuredClone(config.rateRules),
+    calendar: structuredClone(config.calendar),
+    shipSchedule: structuredClone(config.shipSchedule),
+    warehouses: structuredClone(config.warehouses),
+    vendorProfiles: structuredClone(config.vendorProfiles),
+  };
+}
+
+/**
+ * Read the editable config document. When KV has no document yet, the
+ * hardcoded defaults are returned so the first edit seeds KV from them.
+ */
+export async function getConfigDocument(
+  kv: KVNamespace,
+): Promise<RuntimeConfigDocument> {
+  const raw = await kv.get(CONFIG_KV_KEY, "json");
+  if (raw === null) {
+    return documentFromRuntimeConfig(getDefaultRuntimeConfig());
+  }
+  return validateRuntimeConfigDocument(raw);
+}
+
+// Newest-first ordering: KV lists keys in ascending lexicographic order
+function auditKey(now: number): string {
+  const inverted = (Number.MAX_SAFE_INTEGER - now).toString().padStart(16, "0");
+  return `${CONFIG_AUDIT_KEY_PREFIX}${inverted}:${crypto.randomUUID()}`;
+}
+
+// Documents written before revisions were tracked count as revision 0
+export function getConfigRevision(document: RuntimeConfigDocument): number {
+  return document.revision ?? 0;
+}
+
+/**
+ * Validate and persist a config document as the next revision, then
+ * record who changed what. Throws ConfigValidationError if the document
+ * is invalid.
+ */
+export async function saveConfigDocument(
+  kv: KVNamespace,
+  document: RuntimeConfigDocument,
+  audit: Omit<AuditEntry, "timestamp">,
+  logger: Logger,
+  now: number = Date.now(),
+): Promise<RuntimeConfigDocument> {
+  const validated = validateRuntimeConfigDocument({
+    ...document,
+    revision: getConfigRevision(document) + 1,
+  });
+  await kv.put(CONFIG_KV_KEY, JSON.stringify(validated));
+
+  const entry: AuditEntry = {
+    ...audit,
+    timestamp: new Date(now).toISOString(),
+  };
+  await kv.put(auditKey(now), JSON.stringify(entry));
+  logger.info("Config changed", {
+    actor: entry.actor,
+    action: entry.action,
+    target: entry.target,
+  });
+
+  // Changes take effect immediately in this isolate; others pick them up on TTL expiry
+  clearRuntimeConfigCache();
+  return validated;
+}
+
+export async function listAuditEntries(
+  kv: KVNamespace,
+  limit: number = CONFIG_AUDIT_LIST_LIMIT,
+): Promise<AuditEntry[]> {
+  const { keys } = await kv.list({ prefix: CONFIG_AUDIT_KEY_PREFIX, limit });
+  const entries = await Promise.all(
+    keys.map((key) => kv.get<AuditEntry>(key.name, "json")),
+  );
+  return entries.filter((entry): entry is AuditEntry => entry !== null);
+}
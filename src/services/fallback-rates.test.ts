@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateBillableWeightLbs,
+  findZoneForZip,
+  estimateRatesFromTable,
+} from "./fallback-rates";
+import { FALLBACK_RATE_TABLE } from "../config";
+import type { FallbackRateTable, FedExPackageLineItem } from "../types";
+
+function createPackage(
+  weight: number,
+  length = 9,
+  width = 15,
+  height = 9,
+): FedExPackageLineItem {
+  return {
+    weight: { units: "LB", value: weight },
+    dimensions: { length, width, height, units: "IN" },
+    groupPackageCount: 1,
+  };
+}
+
+const TEST_TABLE: FallbackRateTable = {
+  zones: [
+    { fromZip3: "330", toZip3: "339", zone: 2 },
+    { fromZip3: "850", toZip3: "865", zone: 7 },
+  ],
+  rates: [
+    { zone: 2, serviceType: "FEDEX_GROUND", baseCents: 1000, perLbCents: 50, transitDays: 1 },
+    { zone: 7, serviceType: "FEDEX_GROUND", baseCents: 1500, perLbCents: 100, transitDays: 5 },
+    { zone: 7, serviceType: "FEDEX_2_DAY", baseCents: 4000, perLbCents: 200, transitDays: 2 },
+  ],
+};
+
+describe("calculateBillableWeightLbs", () => {
+  it("uses actual weight when heavier than dimensional weight", () => {
+    // 9x15x9 / 139 = 8.74 lbs dim weight
+    expect(calculateBillableWeightLbs([createPackage(20)])).toBe(20);
+  });
+
+  it("uses dimensional weight when heavier than actual weight", () => {
+    expect(calculateBillableWeightLbs([createPackage(2)])).toBe(9);
+  });
+
+  it("rounds each package up and sums them", () => {
+    expect(
+      calculateBillableWeightLbs([createPackage(10.2), createPackage(12.1)]),
+    ).toBe(11 + 13);
+  });
+});
+
+describe("findZoneForZip", () => {
+  it("matches ZIP3 ranges inclusively", () => {
+    expect(findZoneForZip(TEST_TABLE, "33172")).toBe(2);
+    expect(findZoneForZip(TEST_TABLE, "85937-1234")).toBe(7);
+    expect(findZoneForZip(TEST_TABLE, "86599")).toBe(7);
+  });
+
+  it("returns null for unmapped or malformed zips", () => {
+    expect(findZoneForZip(TEST_TABLE, "10001")).toBeNull();
+    expect(findZoneForZip(TEST_TABLE, "K1A 0B1")).toBeNull();
+  });
+
+  it("maps every US ZIP3 in the default table", () => {
+    for (let zip3 = 5; zip3 <= 999; zip3++) {
+      const zip = zip3.toString().padStart(3, "0") + "01";
+      expect(findZoneForZip(FALLBACK_RATE_TABLE, zip)).not.toBeNull();
+    }
+  });
+});
+
+describe("estimateRatesFromTable", () => {
+  it("prices each allowed service for the destination zone", () => {
+    const rates = estimateRatesFromTable(
+      TEST_TABLE,
+      "85937",
+      [createPackage(20)],
+      ["FEDEX_GROUND", "FEDEX_2_DAY"],
+    );
+
+    expect(rates).toHaveLength(2);
+    const ground = rates.find((r) => r.serviceType === "FEDEX_GROUND");
+    expect(ground?.totalChargeCents).toBe(1500 + 100 * 20);
+    expect(ground?.transitDays).toBe(5);
+    expect(ground?.serviceName).toBe("FedEx Ground");
+    expect(ground?.deliveryDate).toBeNull();
+  });
+
+  it("skips services that are not allowed", () => {
+    const rates = estimateRatesFromTable(
+      TEST_TABLE,
+      "85937",
+      [createPackage(20)],
+      ["FEDEX_GROUND"],
+    );
+
+    expect(rates.map((r) => r.serviceType)).toEqual(["FEDEX_GROUND"]);
+  });
+
+  it("returns no rates for zips outside the table", () => {
+    expect(
+      estimateRatesFromTable(TEST_TABLE, "10001", [createPackage(5)], ["FEDEX_GROUND"]),
+    ).toHaveLength(0);
+  });
+});
@@ -0,0 +1,133 @@
+import type {
+  Env,
+  FallbackRateTable,
+  CarrierRate,
+  FedExPackageLineItem,
+} from "../types";
+import { DIM_WEIGHT_DIVISOR, SERVICE_DISPLAY_NAMES } from "../config";
+import { getLastGoodRates } from "./rate-cache";
+import type { Logger } from "./logger";
+
+export const STALE_RATE_NOTE = "Estimated rate based on a recent FedEx quote";
+export const TABLE_RATE_NOTE =
+  "Estimated rate - FedEx rates are temporarily unavailable";
+
+export interface FallbackRates {
+  rates: CarrierRate[];
+  source: "last_good" | "rate_table";
+  note: string;
+}
+
+/**
+ * Billable weight per package: the greater of actual and dimensional weight,
+ * rounded up to the next whole pound as carriers do.
+ */
+export function calculateBillableWeightLbs(
+  packages: FedExPackageLineItem[],
+): number {
+  return packages.reduce((total, pkg) => {
+    const { length, width, height } = pkg.dimensions;
+    const dimWeight = (length * width * height) / DIM_WEIGHT_DIVISOR;
+    const billable = Math.ceil(Math.max(pkg.weight.value, dimWeight));
+    return total + billable * pkg.groupPackageCount;
+  }, 0);
+}
+
+export function findZoneForZip(
+  table: FallbackRateTable,
+  postalCode: string,
+): number | null {
+  const zip3 = postalCode.trim().substring(0, 3);
+  if (!/^\d{3}$/.test(zip3)) return null;
+
+  const range = table.zones.find(
+    (zone) => zip3 >= zone.fromZip3 && zip3 <= zone.toZip3,
+  );
+  return range ? range.zone : null;
+}
+
+/**
+ * Estimate domestic rates from the configured zone/weight table.
+ * The table holds FedEx service types, so estimates are FedEx rates.
+ * Delivery dates are left null so they are calculated from transit days.
+ */
+export function estimateRatesFromTable(
+  table: FallbackRateTable,
+  destinationPostalCode: string,
+  packages: FedExPackageLineItem[],
+  allowedServices: string[],
+): CarrierRate[] {
+  const zone = findZoneForZip(table, destinationPostalCode);
+  if (zone === null) return [];
+
+  const billableWeightLbs = calculateBillableWeightLbs(packages);
+  const allowed = new Set(allowedServices);
+
+  return table.rates
+    .filter((rate) => rate.zone === zone && allowed.has(rate.serviceType))
+    .map((rate) => ({
+      carrier: "fedex" as const,
+      serviceType: rate.serviceType,
+      serviceName: SERVICE_DISPLAY_NAMES[rate.serviceType] || rate.serviceType,
+      totalChargeCents: rate.baseCents + rate.perLbCents * billableWeightLbs,
+      transitDays: rate.transitDays,
+      deliveryDate: null,
+      deliveryTimestamp: null,
+      deliveryDayOfWeek: null,
+    }));
+}
+
+/**
+ * Find substitute rates when every carrier fails: the last successful quote for the
+ * same lane if it is recent enough, otherwise the zone/weight table.
+ * Returns null when neither applies.
+ */
+export async function getFallbackRates(
+  env: Env,
+  laneKey: string,
+  table: FallbackRateTable,
+  destinationPostalCode: string,
+  packages: FedExPackageLineItem[],
+  isInternational: boolean,
+  allowedServices: string[],
+  logger: Logger,
+): Promise<FallbackRates | null> {
+  const lastGood = await getLastGoodRates(env, laneKey, logger);
+  if (lastGood) {
+    logger.warn("Using last-good carrier rates", {
+      laneKey,
+      quotedAt: lastGood.quotedAt,
+    });
+    return {
+      // The quoted delivery dates are stale; recompute them from transit days
+      rates: lastGood.rates.map((rate) => ({
+        ...rate,
+        deliveryDate: null,
+        deliveryTimestamp: null,
+        deliveryDayOfWeek: null,
+      })),
+      source: "last_good",
+      note: STALE_RATE_NOTE,
+    };
+  }
+
+  if (isInternational) {
+    return null;
+  }
+
+  const estimated = estimateRatesFromTable(
+    table,
+    destinationPostalCode,
+    packages,
+    allowedServices,
+  );
+  if (estimated.length === 0) {
+    return null;
+  }
+
+  logger.warn("Using rate table estimates", {
+    destinationZip: destinationPostalCode,
+    serviceCount: estimated.length,
+  });
+  return { rates: estimated, source: "rate_table", note: TABLE_RATE_NOTE };
+}
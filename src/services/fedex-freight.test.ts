@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
+import {
+  buildFedExFreightRateRequest,
+  formatFreightClass,
+  getLtlFreightQuote,
+} from "./fedex-freight";
+import { createLogger } from "./logger";
+import { getDefaultRuntimeConfig } from "./runtime-config";
+import type { PackedBox } from "./packaging";
+import type { Pallet } from "./pallets";
+import type { Env, FedExAddress, FedExRateResponse } from "../types";
+
+const ORIGIN: FedExAddress = {
+  streetLines: ["9500 NW 12th St"],
+  city: "Miami",
+  stateOrProvinceCode: "FL",
+  postalCode: "33172",
+  countryCode: "US",
+  residential: false,
+};
+
+const DESTINATION: FedExAddress = {
+  streetLines: ["123 Main St"],
+  city: "Snowflake",
+  stateOrProvinceCode: "AZ",
+  postalCode: "85937",
+  countryCode: "US",
+};
+
+const PALLETS: Pallet[] = [
+  { length: 48, width: 40, height: 24, weightLbs: 370.4, boxes: [] },
+  { length: 60, width: 40, height: 16, weightLbs: 80, boxes: [] },
+];
+
+const FREIGHT_RESPONSE: FedExRateResponse = {
+  output: {
+    rateReplyDetails: [
+      {
+        serviceType: "FEDEX_FREIGHT_PRIORITY",
+        ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 412.5 }],
+        commit: { transitDays: { minimumTransitTime: "THREE_DAYS" } },
+      },
+      {
+        serviceType: "FEDEX_FREIGHT_ECONOMY",
+        ratedShipmentDetails: [{ rateType: "ACCOUNT", totalNetCharge: 389.1 }],
+        commit: { transitDays: { minimumTransitTime: "FIVE_DAYS" } },
+      },
+    ],
+  },
+};
+
+describe("formatFreightClass", () => {
+  it("formats FedEx freight classes as NMFC class numbers", () => {
+    expect(formatFreightClass("CLASS_055")).toBe("55");
+    expect(formatFreightClass("CLASS_077_5")).toBe("77.5");
+    expect(formatFreightClass("CLASS_100")).toBe("100");
+  });
+});
+
+describe("buildFedExFreightRateRequest", () => {
+  it("sends one palletized line item per pallet billed to the freight account", () => {
+    const request = buildFedExFreightRateRequest(
+      ORIGIN,
+      DESTINATION,
+      PALLETS,
+      "CLASS_055",
+      false,
+      "123456789",
+      "FREIGHT-1",
+    );
+    const shipment = request.freightRequestedShipment;
+
+    expect(request.accountNumber.value).toBe("123456789");
+    expect(shipment.shipper.address.residential).toBeUndefined();
+    expect(shipment.shippingChargesPayment.payor.responsibleParty.accountNumber.value).toBe(
+      "FREIGHT-1",
+    );
+    expect(shipment.freightShipmentDetail.totalHandlingUnits).toBe(2);
+    expect(shipment.freightShipmentDetail.lineItem[0]).toEqual({
+      id: "1",
+      freightClass: "CLASS_055",
+      handlingUnits: 1,
+      pieces: 0,
+      subPackagingType: "PALLET",
+      weight: { units: "LB", value: 371 },
+      dimensions: { length: 48, width: 40, height: 24, units: "IN" },
+    });
+    expect(shipment.requestedPackageLineItems[1].associatedFreightLineItems).toEqual([
+      { id: "2" },
+    ]);
+  });
+
+  it("flags hazardous materials on every line item", () => {
+    const request = buildFedExFreightRateRequest(
+      ORIGIN,
+      DESTINATION,
+      PALLETS,
+      "CLASS_055",
+      true,
+      "123456789",
+      "FREIGHT-1",
+    );
+
+    expect(
+      request.freightRequestedShipment.freightShipmentDetail.lineItem.map(
+        (item) => item.hazardousMaterials,
+      ),
+    ).toEqual(["HAZARDOUS_MATERIALS", "HAZARDOUS_MATERIALS"]);
+  });
+});
+
+describe("getLtlFreightQuote", () => {
+  const config = getDefaultRuntimeConfig();
+  const logger = createLogger(false);
+  const env = {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123456789",
+    FEDEX_FREIGHT_ACCOUNT_NUMBER: "FREIGHT-1",
+  } as Env;
+  const packedBoxes: PackedBox[] = Array.from({ length: 8 }, () => ({
+    box: config.boxes[1],
+    totalWeightLbs: 43,
+    itemWeightLbs: 40,
+    usedFloorArea: 0,
+    placements: [],
+    hazmat: [],
+  }));
+  const request = {
+    origin: ORIGIN,
+    destination: DESTINATION,
+    packedBoxes,
+    includeHazmat: false,
+  };
+
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/oauth/token")) {
+        return new Response(
+          JSON.stringify({ access_token: "token", token_type: "bearer", expires_in: 3600, scope: "" }),
+        );
+      }
+      return new Response(JSON.stringify(FREIGHT_RESPONSE));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns null without calling FedEx when no freight account is set", async () => {
+    const quote = await getLtlFreightQuote(request, {
+      env: { ...env, FEDEX_FREIGHT_ACCOUNT_NUMBER: undefined },
+      config,
+      logger,
+    });
+
+    expect(quote).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("palletizes the boxes and returns the cheapest freight service", async () => {
+    const quote = await getLtlFreightQuote(request, { env, config, logger });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toContain(
+      "https://apis.fedex.com/rate/v1/freight/rates/quotes",
+    );
+    expect(quote).toMatchObject({
+      freightClass: "CLASS_055",
+      rate: {
+        carrier: "fedex",
+        serviceType: "FEDEX_FREIGHT_ECONOMY",
+        serviceName: "FedEx Freight Economy",
+        totalChargeCents: 38910,
+        transitDays: 5,
+      },
+    });
+    expect(quote?.pallets).toHaveLength(1);
+    expect(quote?.pallets[0].weightLbs).toBe(50 + 8 * 43);
+  });
+
+  it("throws when FedEx returns errors", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith("/oauth/token")
+        ? new Response(JSON.stringify({ access_token: "t", token_type: "bearer", expires_in: 3600, scope: "" }))
+        : new Response(JSON.stringify({ errors: [{ code: "FREIGHT.ACCOUNT.INVALID", message: "bad" }] })),
+    );
+
+    await expect(getLtlFreightQuote(request, { env, config, logger })).rejects.toThrow(
+      "FREIGHT.ACCOUNT.INVALID",
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import type {
+  Env,
+  CarrierRate,
+  CarrierRatingContext,
+  FedExAddress,
+  FedExFreightRateRequest,
+  FedExRateResponse,
+} from "../types";
+import {
+  FEDEX_API_TIMEOUT_MS,
+  FEDEX_FREIGHT_SERVICES,
+  getFedExApiBase,
+} from "../config";
+import {
+  FedExApiError,
+  getFedExAccessToken,
+  getFedExCredentials,
+  getShipDateStamp,
+  parseFedExRateResponse,
+} from "./fedex";
+import { buildPalletPlan, type Pallet } from "./pallets";
+import type { PackedBox } from "./packaging";
+
+export interface LtlFreightRequest {
+  origin: FedExAddress;
+  destination: FedExAddress;
+  packedBoxes: PackedBox[];
+  includeHazmat: boolean;
+  shipDate?: Date;
+}
+
+export interface LtlFreightQuote {
+  rate: CarrierRate;
+  pallets: Pallet[];
+  freightClass: string;
+}
+
+export function getFedExFreightAccountNumber(env: Env): string | null {
+  return env.FEDEX_FREIGHT_ACCOUNT_NUMBER?.trim() || null;
+}
+
+/**
+ * "CLASS_055" -> "55", "CLASS_077_5" -> "77.5"
+ */
+export function formatFreightClass(freightClass: string): string {
+  const match = freightClass.match(/^CLASS_(\d{3})(?:_(\d))?$/);
+  if (!match) return freightClass;
+  const whole = String(parseInt(match[1], 10));
+  return match[2] ? `${whole}.${match[2]}` : whole;
+}
+
+export function getTotalPalletWeightLbs(pallets: Pallet[]): number {
+  return pallets.reduce((sum, pallet) => sum + pallet.weightLbs, 0);
+}
+
+/**
+ * Each pallet is a handling unit on its own freight line item. The
+ * shipper's address doubles as the freight billing address.
+ */
+export function buildFedExFreightRateRequest(
+  shipperAddress: FedExAddress,
+  recipientAddress: FedExAddress,
+  pallets: Pallet[],
+  freightClass: string,
+  includeHazmat: boolean,
+  accountNumber: string,
+  freightAccountNumber: string,
+  shipDate: Date = new Date(),
+): FedExFreightRateRequest {
+  const shipper: FedExAddress = {
+    streetLines: shipperAddress.streetLines,
+    city: shipperAddress.city,
+    stateOrProvinceCode: shipperAddress.stateOrProvinceCode,
+    postalCode: shipperAddress.postalCode,
+    countryCode: shipperAddress.countryCode,
+  };
+
+  const lineItems = pallets.map((pallet, i) => ({
+    id: String(i + 1),
+    freightClass,
+    handlingUnits: 1,
+    pieces: pallet.boxes.length,
+    subPackagingType: "PALLET" as const,
+    weight: {
+      units: "LB" as const,
+      value: Math.ceil(pallet.weightLbs),
+    },
+    dimensions: {
+      length: Math.ceil(pallet.length),
+      width: Math.ceil(pallet.width),
+      height: Math.ceil(pallet.height),
+      units: "IN" as const,
+    },
+    ...(includeHazmat
+      ? { hazardousMaterials: "HAZARDOUS_MATERIALS" as const }
+      : {}),
+  }));
+
+  return {
+    accountNumber: {
+      value: accountNumber,
+    },
+    rateRequestControlParameters: {
+      returnTransitTimes: true,
+    },
+    freightRequestedShipment: {
+      shipper: {
+        address: shipper,
+      },
+      recipient: {
+        address: recipientAddress,
+      },
+      shippingChargesPayment: {
+        paymentType: "SENDER",
+        payor: {
+          responsibleParty: {
+            address: shipper,
+            accountNumber: {
+              value: freightAccountNumber,
+            },
+          },
+        },
+      },
+      shipDateStamp: getShipDateStamp(shipDate),
+      rateRequestType: ["ACCOUNT"],
+      freightShipmentDetail: {
+        role: "SHIPPER",
+        accountNumber: {
+          value: freightAccountNumber,
+        },
+        fedExFreightBillingContactAndAddress: {
+          address: shipper,
+        },
+        lineItem: lineItems,
+        totalHandlingUnits: pallets.length,
+      },
+      requestedPackageLineItems: lineItems.map((item) => ({
+        subPackagingType: "PALLET",
+        groupPackageCount: 1,
+        weight: item.weight,
+        dimensions: item.dimensions,
+        associatedFreightLineItems: [{ id: item.id }],
+      })),
+    },
+  };
+}
+
+export async function callFedExFreightRateAPI(
+  rateRequest: FedExFreightRateRequest,
+  accessToken: string,
+  useSandbox: boolean = false,
+): Promise<FedExRateResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FEDEX_API_TIMEOUT_MS);
+  const endpoint = `${getFedExApiBase(useSandbox)}/rate/v1/freight/rates/quotes`;
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(rateRequest),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `FedEx Freight Rate API failed: ${response.status} - ${errorText}`,
+      );
+    }
+
+    return (await response.json()) as FedExRateResponse;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("FedEx Freight Rate API request timed out");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quote the cheapest FedEx Freight LTL service for the packed boxes,
+ * palletized with the configured pallet. Returns null when no freight
+ * account is configured or FedEx returns no freight services.
+ */
+export async function getLtlFreightQuote(
+  request: LtlFreightRequest,
+  { env, config, logger }: CarrierRatingContext,
+): Promise<LtlFreightQuote | null> {
+  const freightAccountNumber = getFedExFreightAccountNumber(env);
+  if (!freightAccountNumber || request.packedBoxes.length === 0) {
+    return null;
+  }
+
+  const pallets = buildPalletPlan(request.packedBoxes, config.freight.pallet);
+  const { accountNumber, useSandbox } = getFedExCredentials(env);
+  const accessToken = await getFedExAccessToken(env);
+
+  const rateRequest = buildFedExFreightRateRequest(
+    request.origin,
+    request.destination,
+    pallets,
+    config.freight.freightClass,
+    request.includeHazmat,
+    accountNumber,
+    freightAccountNumber,
+    request.shipDate,
+  );
+
+  logger.debugPayload("FedEx Freight rate request", rateRequest);
+
+  const response = await callFedExFreightRateAPI(
+    rateRequest,
+    accessToken,
+    useSandbox,
+  );
+
+  logger.debugPayload("FedEx Freight rate response", response);
+
+  if (response.errors && response.errors.length > 0) {
+    throw new FedExApiError(response.errors);
+  }
+
+  const rates = parseFedExRateResponse(response, false, FEDEX_FREIGHT_SERVICES);
+  if (rates.length === 0) {
+    return null;
+  }
+
+  const cheapest = rates.reduce((best, rate) =>
+    rate.totalChargeCents < best.totalChargeCents ? rate : best,
+  );
+  return {
+    rate: { ...cheapest, carrier: "fedex" },
+    pallets,
+    freightClass: config.freight.freightClass,
+  };
+}
@@ -1,20 +1,38 @@
 import type {
   Env,
+  CarrierAdapter,
   FedExOAuthResponse,
   FedExRateRequest,
   FedExRateResponse,
   FedExPackageLineItem,
+  FedExDangerousGoodsDetail,
   FedExAddress,
+  FedExPayor,
+  FedExError,
+  FedExAddressValidationRequest,
+  FedExAddressValidationResponse,
   ParsedFedExRate,
 } from "../types";
 import {
   FEDEX_TOKEN_EXPIRY_BUFFER_SECONDS,
   FEDEX_API_TIMEOUT_MS,
+  FEDEX_ADDRESS_VALIDATION_TIMEOUT_MS,
   ALL_ALLOWED_SERVICES,
   GROUND_SERVICE_SET,
   SERVICE_DISPLAY_NAMES,
   getFedExApiBase,
 } from "../config";
+import { getAllowedServices } from "./runtime-config";
+
+export class FedExApiError extends Error {
+  errors: FedExError[];
+
+  constructor(errors: FedExError[]) {
+    super(`FedEx API returned errors: ${errors.map((e) => e.code).join(", ")}`);
+    this.name = "FedExApiError";
+    this.errors = errors;
+  }
+}
 
 interface CachedToken {
   accessToken: string;
@@ -92,30 +110,19 @@ export async function getFedExAccessToken(env: Env): Promise<string> {
   return data.access_token;
 }
 
+export function getShipDateStamp(date: Date = new Date()): string {
+  return date.toISOString().split("T")[0];
+}
+
 export function buildFedExRateRequest(
   shipperAddress: FedExAddress,
   recipientAddress: FedExAddress,
   packages: FedExPackageLineItem[],
   accountNumber: string,
-  includeHazmat: boolean = false,
+  payor: FedExPayor = { paymentType: "SENDER", accountNumber },
+  shipDate: Date = new Date(),
 ): FedExRateRequest {
-  const today = new Date();
-  const shipDateStamp = today.toISOString().split("T")[0];
-
-  // Add dangerous goods handling if any items are hazmat
-  // Note: For rate quotes, we just flag the service type - detailed DG info is for shipping labels
-  const requestPackages: FedExPackageLineItem[] = includeHazmat
-    ? packages.map((pkg) => ({
-        ...pkg,
-        packageSpecialServices: {
-          specialServiceTypes: ["DANGEROUS_GOODS"],
-          dangerousGoodsDetail: {
-            accessibility: "INACCESSIBLE",
-            regulationType: "IATA",
-          },
-        },
-      }))
-    : packages;
+  const shipDateStamp = getShipDateStamp(shipDate);
 
   return {
     accountNumber: {
@@ -139,11 +146,11 @@ export function buildFedExRateRequest(
         address: recipientAddress,
       },
       shippingChargesPayment: {
-        paymentType: "SENDER",
+        paymentType: payor.paymentType,
         payor: {
           responsibleParty: {
             accountNumber: {
-              value: accountNumber,
+              value: payor.accountNumber,
             },
           },
         },
@@ -153,7 +160,8 @@ export function buildFedExRateRequest(
       pickupType: "USE_SCHEDULED_PICKUP",
       packagingType: "YOUR_PACKAGING",
       rateRequestType: ["ACCOUNT"],
-      requestedPackageLineItems: requestPackages,
+      // Packages already carry dangerous goods services for their contents
+      requestedPackageLineItems: packages,
     },
   };
 }
@@ -197,9 +205,52 @@ export async function callFedExRateAPI(
   }
 }
 
+export async function callFedExAddressValidationAPI(
+  request: FedExAddressValidationRequest,
+  accessToken: string,
+  useSandbox: boolean = false,
+): Promise<FedExAddressValidationResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    FEDEX_ADDRESS_VALIDATION_TIMEOUT_MS,
+  );
+  const endpoint = `${getFedExApiBase(useSandbox)}/address/v1/addresses/resolve`;
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `FedEx Address Validation API failed: ${response.status} - ${errorText}`,
+      );
+    }
+
+    return (await response.json()) as FedExAddressValidationResponse;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("FedEx Address Validation API request timed out");
+    }
+    throw error;
+  }
+}
+
 export function parseFedExRateResponse(
   response: FedExRateResponse,
   isInternational: boolean,
+  allowedServiceTypes: readonly string[] = ALL_ALLOWED_SERVICES,
 ): ParsedFedExRate[] {
   const rates: ParsedFedExRate[] = [];
 
@@ -207,7 +258,7 @@ export function parseFedExRateResponse(
     return rates;
   }
 
-  const allowedServices = new Set<string>(ALL_ALLOWED_SERVICES);
+  const allowedServices = new Set<string>(allowedServiceTypes);
 
   for (const detail of response.output.rateReplyDetails) {
     if (!allowedServices.has(detail.serviceType)) {
@@ -282,12 +333,17 @@ export function parseFedExRateResponse(
       transitDays = parseTransitTime(detail.operationalDetail.transitTime);
     }
 
+    const maximumTransitTime = detail.commit?.transitDays?.maximumTransitTime;
+    const maxTransitDays = maximumTransitTime
+      ? parseTransitTime(maximumTransitTime)
+      : transitDays;
+
     const serviceName =
       SERVICE_DISPLAY_NAMES[detail.serviceType] ||
       detail.serviceName ||
       detail.serviceType;
 
-    rates.push({
+    const rate: ParsedFedExRate = {
       serviceType: detail.serviceType,
       serviceName,
       totalChargeCents,
@@ -295,14 +351,114 @@ export function parseFedExRateResponse(
       deliveryDate,
       deliveryTimestamp,
       deliveryDayOfWeek,
-    });
+    };
+    if (maxTransitDays > transitDays) {
+      rate.maxTransitDays = maxTransitDays;
+    }
+    rates.push(rate);
   }
 
   return rates;
 }
 
-export function isGroundService(serviceType: string): boolean {
-  return GROUND_SERVICE_SET.has(serviceType);
+export function isGroundService(
+  serviceType: string,
+  groundServices?: readonly string[],
+): boolean {
+  return groundServices
+    ? groundServices.includes(serviceType)
+    : GROUND_SERVICE_SET.has(serviceType);
+}
+
+export const fedExCarrierAdapter: CarrierAdapter = {
+  id: "fedex",
+  supportsHazmat: true,
+  supportsInternational: true,
+
+  isConfigured(env) {
+    const { clientId, clientSecret, accountNumber } = getFedExCredentials(env);
+    return Boolean(clientId && clientSecret && accountNumber);
+  },
+
+  isGroundService(serviceType, config) {
+    return isGroundService(serviceType, config.services.domesticGround);
+  },
+
+  async getRates(request, { env, config, logger }) {
+    const credentials = getFedExCredentials(env);
+    const accessToken = await getFedExAccessToken(env);
+
+    const quotePackages = async (packages: FedExPackageLineItem[]) => {
+      const rateRequest = buildFedExRateRequest(
+        request.origin,
+        request.destination,
+        packages,
+        credentials.accountNumber,
+        request.payor,
+        request.shipDate,
+      );
+
+      logger.debugPayload("FedEx rate request", rateRequest);
+
+      const fedExResponse = await callFedExRateAPI(
+        rateRequest,
+        accessToken,
+        credentials.useSandbox,
+      );
+
+      logger.debugPayload("FedEx rate response", fedExResponse);
+
+      if (fedExResponse.errors && fedExResponse.errors.length > 0) {
+        throw new FedExApiError(fedExResponse.errors);
+      }
+
+      return parseFedExRateResponse(
+        fedExResponse,
+        request.isInternational,
+        getAllowedServices(config),
+      ).map((rate) => ({ ...rate, carrier: "fedex" as const }));
+    };
+
+    const hasDangerousGoods = request.packages.some(
+      (pkg) => pkg.packageSpecialServices?.dangerousGoodsDetail,
+    );
+    if (!hasDangerousGoods || request.isInternational) {
+      return quotePackages(request.packages);
+    }
+
+    // Domestic dangerous goods go by ground under DOT 49 CFR and by air
+    // under IATA, so each is quoted with its own declaration
+    const isGround = (serviceType: string) =>
+      isGroundService(serviceType, config.services.domesticGround);
+    const [groundRates, airRates] = await Promise.all([
+      quotePackages(declareDangerousGoodsUnder(request.packages, "DOT")),
+      quotePackages(declareDangerousGoodsUnder(request.packages, "IATA")),
+    ]);
+    return [
+      ...groundRates.filter((rate) => isGround(rate.serviceType)),
+      ...airRates.filter((rate) => !isGround(rate.serviceType)),
+    ];
+  },
+};
+
+function declareDangerousGoodsUnder(
+  packages: FedExPackageLineItem[],
+  regulationType: FedExDangerousGoodsDetail["regulationType"],
+): FedExPackageLineItem[] {
+  return packages.map((pkg) => {
+    const specialServices = pkg.packageSpecialServices;
+    if (!specialServices?.dangerousGoodsDetail) return pkg;
+    return {
+      ...pkg,
+      packageSpecialServices: {
+        ...specialServices,
+        dangerousGoodsDetail: {
+          ...specialServices.dangerousGoodsDetail,
+          regulationType,
+        },
+      },
+    };
+  });
 }
 
 const TRANSIT_TIME_WORDS: Record<string, number> = {
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateHazmatFee,
+  describeHazmatFee,
+  getHazmatFeeSchedule,
+} from "./hazmat-fees";
+import type { HazmatInfo } from "./hazmat";
+import type { PackedBox } from "./packaging";
+import type { HazmatFeeSchedule } from "../types";
+import { BOX_CONFIGS, HAZMAT_FEES_CENTS } from "../config";
+
+const SCHEDULE: HazmatFeeSchedule = {
+  per_order: 500,
+  per_package: 200,
+  per_hazmat_package: 3000,
+  per_inaccessible_package: 1500,
+};
+
+function createHazmat(overrides: Partial<HazmatInfo> = {}): HazmatInfo {
+  return {
+    sku: "PAINT-1",
+    unNumber: "UN1263",
+    hazardClass: "3",
+    packingGroup: "II",
+    limitedQuantity: false,
+    ...overrides,
+  };
+}
+
+function createBox(hazmat: HazmatInfo[] = []): PackedBox {
+  return {
+    box: BOX_CONFIGS[0],
+    totalWeightLbs: 12,
+    itemWeightLbs: 10,
+    usedFloorArea: 0,
+    placements: [],
+    hazmat,
+  };
+}
+
+describe("getHazmatFeeSchedule", () => {
+  it("picks the international schedule for any international service", () => {
+    expect(getHazmatFeeSchedule(HAZMAT_FEES_CENTS, true, false)).toBe(HAZMAT_FEES_CENTS.ground);
+    expect(getHazmatFeeSchedule(HAZMAT_FEES_CENTS, false, false)).toBe(HAZMAT_FEES_CENTS.air);
+    expect(getHazmatFeeSchedule(HAZMAT_FEES_CENTS, false, true)).toBe(
+      HAZMAT_FEES_CENTS.international,
+    );
+  });
+});
+
+describe("calculateHazmatFee", () => {
+  it("charges nothing for carts without hazmat", () => {
+    expect(calculateHazmatFee([createBox(), createBox()], SCHEDULE, true)).toEqual({
+      totalCents: 0,
+      lines: [],
+    });
+  });
+
+  it("adds per-order, per-package and per-hazmat-package parts", () => {
+    const fee = calculateHazmatFee(
+      [
+        createBox([createHazmat()]),
+        createBox([createHazmat({ hazardClass: "9", packingGroup: null })]),
+        createBox([createHazmat()]),
+        createBox(),
+      ],
+      SCHEDULE,
+      false,
+    );
+
+    expect(fee.lines).toEqual([
+      { label: "order", count: 1, unitCents: 500 },
+      { label: "package", count: 4, unitCents: 200 },
+      { label: "hazmat package", count: 2, unitCents: 3000 },
+      { label: "inaccessible hazmat package", count: 1, unitCents: 1500 },
+    ]);
+    expect(fee.totalCents).toBe(500 + 4 * 200 + 2 * 3000 + 1500);
+  });
+
+  it("does not count limited quantity packages by ground", () => {
+    const boxes = [
+      createBox([createHazmat({ limitedQuantity: true })]),
+      createBox([createHazmat()]),
+    ];
+
+    expect(calculateHazmatFee(boxes, SCHEDULE, true).lines).toContainEqual({
+      label: "hazmat package",
+      count: 1,
+      unitCents: 3000,
+    });
+    expect(calculateHazmatFee(boxes.slice(0, 1), SCHEDULE, true).totalCents).toBe(0);
+    expect(calculateHazmatFee(boxes.slice(0, 1), SCHEDULE, false).totalCents).toBe(
+      500 + 200 + 1500,
+    );
+  });
+});
+
+describe("describeHazmatFee", () => {
+  it("shows the price breakdown", () => {
+    expect(
+      describeHazmatFee({
+        totalCents: 6500,
+        lines: [
+          { label: "order", count: 1, unitCents: 500 },
+          { label: "hazmat package", count: 2, unitCents: 3000 },
+        ],
+      }),
+    ).toBe("Includes $65.00 hazmat handling fee ($5.00 per order + 2 hazmat packages × $30.00)");
+  });
+});
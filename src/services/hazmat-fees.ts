@@ -0,0 +1,90 @@
+import type { HazmatFees, HazmatFeeSchedule } from "../types";
+import {
+  getDangerousGoodsAccessibility,
+  isLimitedQuantityOnly,
+} from "./hazmat";
+import type { PackedBox } from "./packaging";
+
+export interface HazmatFeeLine {
+  label: string;
+  count: number;
+  unitCents: number;
+}
+
+export interface HazmatFee {
+  totalCents: number;
+  lines: HazmatFeeLine[];
+}
+
+export function getHazmatFeeSchedule(
+  fees: HazmatFees,
+  isGround: boolean,
+  isInternational: boolean,
+): HazmatFeeSchedule {
+  if (isInternational) return fees.international;
+  return isGround ? fees.ground : fees.air;
+}
+
+/**
+ * Hazmat handling fee for a packing plan. By ground, packages holding only
+ * limited quantities ship as ordinary parcels, so a cart whose hazmat items
+ * are all limited quantities pays nothing.
+ */
+export function calculateHazmatFee(
+  packedBoxes: PackedBox[],
+  schedule: HazmatFeeSchedule,
+  isGround: boolean,
+): HazmatFee {
+  const hazmatBoxes = packedBoxes.filter(
+    (packed) =>
+      packed.hazmat.length > 0 &&
+      !(isGround && isLimitedQuantityOnly(packed.hazmat)),
+  );
+  if (hazmatBoxes.length === 0) {
+    return { totalCents: 0, lines: [] };
+  }
+
+  const inaccessibleCount = hazmatBoxes.filter(
+    (packed) => getDangerousGoodsAccessibility(packed.hazmat) === "INACCESSIBLE",
+  ).length;
+  const lines: HazmatFeeLine[] = [
+    { label: "order", count: 1, unitCents: schedule.per_order },
+    { label: "package", count: packedBoxes.length, unitCents: schedule.per_package },
+    {
+      label: "hazmat package",
+      count: hazmatBoxes.length - inaccessibleCount,
+      unitCents: schedule.per_hazmat_package,
+    },
+    {
+      label: "inaccessible hazmat package",
+      count: inaccessibleCount,
+      unitCents: schedule.per_inaccessible_package,
+    },
+  ].filter((line) => line.count > 0 && line.unitCents > 0);
+
+  return {
+    totalCents: lines.reduce((sum, line) => sum + line.count * line.unitCents, 0),
+    lines,
+  };
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeFeeLine(line: HazmatFeeLine): string {
+  if (line.label === "order") {
+    return `${formatCents(line.unitCents)} per order`;
+  }
+  const plural = line.count === 1 ? "" : "s";
+  return `${line.count} ${line.label}${plural} × ${formatCents(line.unitCents)}`;
+}
+
+/**
+ * "Includes $65.00 hazmat handling fee ($5.00 per order + 2 hazmat packages × $30.00)"
+ */
+export function describeHazmatFee(fee: HazmatFee): string {
+  return `Includes ${formatCents(fee.totalCents)} hazmat handling fee (${fee.lines
+    .map(describeFeeLine)
+    .join(" + ")})`;
+}
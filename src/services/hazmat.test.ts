@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  getItemHazmat,
+  getCartHazmat,
+  getGroundOnlyItems,
+  isLimitedQuantityOnly,
+  getDangerousGoodsAccessibility,
+  buildPackageSpecialServices,
+  canShareBox,
+  type HazmatInfo,
+} from "./hazmat";
+import type { ShopifyCartItem } from "../types";
+import { HAZMAT_SEGREGATION } from "../config";
+
+function createCartItem(properties: Record<string, string> = {}): ShopifyCartItem {
+  return {
+    name: "Paint",
+    sku: "PAINT-1",
+    quantity: 1,
+    grams: 5000,
+    price: 5000,
+    vendor: "JDL",
+    requires_shipping: true,
+    taxable: true,
+    fulfillment_service: "manual",
+    properties,
+    product_id: 1,
+    variant_id: 1,
+  };
+}
+
+function createHazmat(overrides: Partial<HazmatInfo> = {}): HazmatInfo {
+  return {
+    sku: "PAINT-1",
+    unNumber: "UN1263",
+    hazardClass: "3",
+    packingGroup: "II",
+    limitedQuantity: false,
+    ...overrides,
+  };
+}
+
+describe("getItemHazmat", () => {
+  it("returns null for items that are not dangerous goods", () => {
+    expect(getItemHazmat(createCartItem())).toBeNull();
+    expect(getItemHazmat(createCartItem({ _is_hazmat: "false" }))).toBeNull();
+  });
+
+  it("parses and normalizes the dangerous goods properties", () => {
+    const hazmat = getItemHazmat(
+      createCartItem({
+        _un_number: "un 1263",
+        _hazard_class: "Class 3",
+        _packing_group: "PG III",
+        _limited_quantity: "TRUE",
+      }),
+    );
+
+    expect(hazmat).toEqual({
+      sku: "PAINT-1",
+      unNumber: "UN1263",
+      hazardClass: "3",
+      packingGroup: "III",
+      limitedQuantity: true,
+    });
+  });
+
+  it("keeps _is_hazmat items without details and ignores invalid values", () => {
+    const hazmat = getItemHazmat(
+      createCartItem({ _is_hazmat: "true", _hazard_class: "12", _packing_group: "IV" }),
+    );
+
+    expect(hazmat).toEqual({
+      sku: "PAINT-1",
+      unNumber: null,
+      hazardClass: null,
+      packingGroup: null,
+      limitedQuantity: false,
+    });
+  });
+
+  it("treats ORM-D as limited quantity", () => {
+    expect(
+      getItemHazmat(createCartItem({ _is_hazmat: "true", _orm_d: "true" }))?.limitedQuantity,
+    ).toBe(true);
+  });
+});
+
+describe("getCartHazmat", () => {
+  it("returns one entry per hazmat line item", () => {
+    const items = [createCartItem(), createCartItem({ _un_number: "UN1993" })];
+    expect(getCartHazmat(items).map((h) => h.unNumber)).toEqual(["UN1993"]);
+  });
+});
+
+describe("getGroundOnlyItems", () => {
+  it("returns shippable items marked ground-only or cargo aircraft only", () => {
+    const groundOnly = createCartItem({ _ground_only: "true" });
+    const cargoOnly = createCartItem({ _cargo_aircraft_only: "TRUE" });
+    const items = [
+      groundOnly,
+      cargoOnly,
+      createCartItem({ _ground_only: "false" }),
+      { ...createCartItem({ _ground_only: "true" }), requires_shipping: false },
+    ];
+
+    expect(getGroundOnlyItems(items)).toEqual([groundOnly, cargoOnly]);
+  });
+});
+
+describe("isLimitedQuantityOnly", () => {
+  it("is true only when every hazmat item is a limited quantity", () => {
+    expect(isLimitedQuantityOnly([])).toBe(false);
+    expect(isLimitedQuantityOnly([createHazmat({ limitedQuantity: true })])).toBe(true);
+    expect(
+      isLimitedQuantityOnly([createHazmat({ limitedQuantity: true }), createHazmat()]),
+    ).toBe(false);
+  });
+});
+
+describe("getDangerousGoodsAccessibility", () => {
+  it("requires accessible handling for fully regulated goods", () => {
+    expect(getDangerousGoodsAccessibility([createHazmat()])).toBe("ACCESSIBLE");
+    expect(getDangerousGoodsAccessibility([createHazmat({ hazardClass: "8" })])).toBe(
+      "ACCESSIBLE",
+    );
+  });
+
+  it("allows inaccessible handling for limited quantities, Class 9, 2.2 and PG III liquids", () => {
+    for (const hazmat of [
+      createHazmat({ limitedQuantity: true }),
+      createHazmat({ hazardClass: "9", packingGroup: null }),
+      createHazmat({ hazardClass: "2.2", packingGroup: null }),
+      createHazmat({ packingGroup: "III" }),
+      createHazmat({ hazardClass: null }),
+    ]) {
+      expect(getDangerousGoodsAccessibility([hazmat])).toBe("INACCESSIBLE");
+    }
+  });
+
+  it("is accessible when any item in the package requires it", () => {
+    expect(
+      getDangerousGoodsAccessibility([
+        createHazmat({ limitedQuantity: true }),
+        createHazmat(),
+      ]),
+    ).toBe("ACCESSIBLE");
+  });
+});
+
+describe("canShareBox", () => {
+  it("applies the segregation table in both directions", () => {
+    const flammable = createHazmat();
+    const oxidizer = createHazmat({ hazardClass: "5.1" });
+
+    expect(canShareBox(flammable, oxidizer, HAZMAT_SEGREGATION)).toBe(false);
+    expect(canShareBox(oxidizer, flammable, HAZMAT_SEGREGATION)).toBe(false);
+    expect(canShareBox(flammable, createHazmat({ hazardClass: "8" }), HAZMAT_SEGREGATION)).toBe(
+      true,
+    );
+  });
+
+  it("does not segregate hazmat items without a hazard class", () => {
+    expect(
+      canShareBox(createHazmat({ hazardClass: null }), createHazmat({ hazardClass: "5.1" }), HAZMAT_SEGREGATION),
+    ).toBe(true);
+  });
+
+  it("separates non-hazmat items only when configured", () => {
+    expect(canShareBox(createHazmat(), null, HAZMAT_SEGREGATION)).toBe(true);
+    expect(canShareBox(null, null, { ...HAZMAT_SEGREGATION, separateNonHazmat: true })).toBe(true);
+    expect(
+      canShareBox(null, createHazmat(), { ...HAZMAT_SEGREGATION, separateNonHazmat: true }),
+    ).toBe(false);
+  });
+});
+
+describe("buildPackageSpecialServices", () => {
+  it("returns undefined for packages without dangerous goods", () => {
+    expect(buildPackageSpecialServices([])).toBeUndefined();
+  });
+
+  it("declares limited quantity packages as such", () => {
+    expect(buildPackageSpecialServices([createHazmat({ limitedQuantity: true })])).toEqual({
+      specialServiceTypes: ["DANGEROUS_GOODS"],
+      dangerousGoodsDetail: {
+        accessibility: "INACCESSIBLE",
+        regulationType: "IATA",
+        options: ["LIMITED_QUANTITIES_COMMODITIES"],
+      },
+    });
+  });
+
+  it("declares fully regulated packages as hazardous materials", () => {
+    expect(buildPackageSpecialServices([createHazmat()])?.dangerousGoodsDetail).toEqual({
+      accessibility: "ACCESSIBLE",
+      regulationType: "IATA",
+      options: ["HAZARDOUS_MATERIALS"],
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import type {
+  HazmatSegregationConfig,
+  ShopifyCartItem,
+  FedExDangerousGoodsDetail,
+  FedExSpecialServicesRequested,
+} from "../types";
+import {
+  INACCESSIBLE_HAZARD_CLASSES,
+  INACCESSIBLE_PACKING_GROUP_III_CLASSES,
+} from "../config";
+
+export type PackingGroup = "I" | "II" | "III";
+
+/**
+ * Dangerous goods details of one cart item, from its line-item properties:
+ * _un_number ("UN1263"), _hazard_class ("3"), _packing_group ("II") and
+ * _limited_quantity ("true"; _orm_d is accepted as an alias). Details may be
+ * missing for items only flagged with _is_hazmat.
+ */
+export interface HazmatInfo {
+  sku: string;
+  unNumber: string | null;
+  hazardClass: string | null;
+  packingGroup: PackingGroup | null;
+  limitedQuantity: boolean;
+}
+
+const UN_NUMBER_PATTERN = /^(UN|NA)\s*(\d{4})$/i;
+export const HAZARD_CLASS_PATTERN = /^[1-9](\.[1-6])?$/;
+const PACKING_GROUPS: Record<string, PackingGroup> = {
+  I: "I",
+  II: "II",
+  III: "III",
+  "1": "I",
+  "2": "II",
+  "3": "III",
+};
+
+function isTrue(value: string | undefined): boolean {
+  return value?.trim().toLowerCase() === "true";
+}
+
+function parseUNNumber(value: string | undefined): string | null {
+  const match = value?.trim().match(UN_NUMBER_PATTERN);
+  return match ? `${match[1].toUpperCase()}${match[2]}` : null;
+}
+
+function parseHazardClass(value: string | undefined): string | null {
+  const trimmed = value?.trim().replace(/^class\s*/i, "");
+  return trimmed && HAZARD_CLASS_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function parsePackingGroup(value: string | undefined): PackingGroup | null {
+  const trimmed = value?.trim().toUpperCase().replace(/^PG\s*/, "");
+  return trimmed ? PACKING_GROUPS[trimmed] ?? null : null;
+}
+
+/**
+ * Returns null for items that are not dangerous goods. An item is hazmat
+ * when _is_hazmat is "true" or it has a valid UN number.
+ */
+export function getItemHazmat(item: ShopifyCartItem): HazmatInfo | null {
+  const props = item.properties || {};
+  const unNumber = parseUNNumber(props._un_number);
+
+  if (!isTrue(props._is_hazmat) && !unNumber) {
+    return null;
+  }
+
+  return {
+    sku: item.sku,
+    unNumber,
+    hazardClass: parseHazardClass(props._hazard_class),
+    packingGroup: parsePackingGroup(props._packing_group),
+    limitedQuantity: isTrue(props._limited_quantity) || isTrue(props._orm_d),
+  };
+}
+
+export function getCartHazmat(items: ShopifyCartItem[]): HazmatInfo[] {
+  return items.flatMap((item) => {
+    const hazmat = getItemHazmat(item);
+    return hazmat ? [hazmat] : [];
+  });
+}
+
+export function hasHazmatItems(items: ShopifyCartItem[]): boolean {
+  return getCartHazmat(items).length > 0;
+}
+
+/**
+ * Items that may not fly: _ground_only ("true") for goods over air limits,
+ * or _cargo_aircraft_only ("true") for goods forbidden on passenger
+ * aircraft, which we also keep off air services.
+ */
+export function isGroundOnlyItem(item: ShopifyCartItem): boolean {
+  const props = item.properties || {};
+  return isTrue(props._ground_only) || isTrue(props._cargo_aircraft_only);
+}
+
+export function getGroundOnlyItems(items: ShopifyCartItem[]): ShopifyCartItem[] {
+  return items.filter(
+    (item) => item.requires_shipping && isGroundOnlyItem(item),
+  );
+}
+
+export function isLimitedQuantityOnly(hazmat: HazmatInfo[]): boolean {
+  return hazmat.length > 0 && hazmat.every((item) => item.limitedQuantity);
+}
+
+function areClassesIncompatible(
+  a: string,
+  b: string,
+  segregation: HazmatSegregationConfig,
+): boolean {
+  const table = segregation.incompatibleClasses;
+  return Boolean(table[a]?.includes(b) || table[b]?.includes(a));
+}
+
+/**
+ * Whether two items (null for non-hazmat) may be packed in the same box.
+ * Hazmat items without a hazard class are not segregated.
+ */
+export function canShareBox(
+  a: HazmatInfo | null,
+  b: HazmatInfo | null,
+  segregation: HazmatSegregationConfig,
+): boolean {
+  if (!a && !b) return true;
+  if (!a || !b) return !segregation.separateNonHazmat;
+  if (!a.hazardClass || !b.hazardClass) return true;
+  return !areClassesIncompatible(a.hazardClass, b.hazardClass, segregation);
+}
+
+/**
+ * FedEx Express carries limited quantities, Class 9, Class 2.2 and some
+ * Packing Group III goods as inaccessible dangerous goods; everything else
+ * must be accessible to the crew. Items without a hazard class keep the
+ * previous INACCESSIBLE default.
+ */
+function requiresAccessibility(item: HazmatInfo): boolean {
+  if (item.limitedQuantity || !item.hazardClass) return false;
+  if (INACCESSIBLE_HAZARD_CLASSES.includes(item.hazardClass)) return false;
+  if (
+    item.packingGroup === "III" &&
+    INACCESSIBLE_PACKING_GROUP_III_CLASSES.includes(item.hazardClass)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function getDangerousGoodsAccessibility(
+  hazmat: HazmatInfo[],
+): FedExDangerousGoodsDetail["accessibility"] {
+  return hazmat.some(requiresAccessibility) ? "ACCESSIBLE" : "INACCESSIBLE";
+}
+
+/**
+ * Dangerous goods special services for a package holding the given
+ * hazmat items, or undefined when it holds none. Packages of limited
+ * quantities only are declared as such, which FedEx Ground rates without
+ * the dangerous goods surcharge. They are declared under IATA; domestic
+ * ground quotes re-declare them under DOT 49 CFR.
+ */
+export function buildPackageSpecialServices(
+  hazmat: HazmatInfo[],
+): FedExSpecialServicesRequested | undefined {
+  if (hazmat.length === 0) {
+    return undefined;
+  }
+
+  return {
+    specialServiceTypes: ["DANGEROUS_GOODS"],
+    dangerousGoodsDetail: {
+      accessibility: getDangerousGoodsAccessibility(hazmat),
+      regulationType: "IATA",
+      options: isLimitedQuantityOnly(hazmat)
+        ? ["LIMITED_QUANTITIES_COMMODITIES"]
+        : ["HAZARDOUS_MATERIALS"],
+    },
+  };
+}
@@ -1,18 +1,27 @@
 import { describe, it, expect } from 'vitest';
 import {
   parseInStockProperty,
-  parseLeadTimeProperty,
+  parseLeadTime,
+  parseISODate,
   getItemHandlingDays,
+  getItemHandlingRange,
+  getCartHandlingRange,
   getMaxHandlingDays,
   isWeekend,
   addBusinessDays,
+  countBusinessDays,
   getNextBusinessDay,
   calculateShipDate,
+  calculateOrderShipDate,
   calculateDeliveryDate,
   formatDateISO,
   calculateDeliveryDates,
+  shiftCarrierDeliveryDates,
+  splitCartByAvailability,
+  addTransitRange,
   DEFAULT_HANDLING_DAYS,
 } from './leadtimes';
+import { getDeliveryCalendars } from './calendar';
 import type { ShopifyCartItem } from '../types';
 
 function createCartItem(
@@ -74,27 +83,121 @@ describe('parseInStockProperty', () => {
   });
 });
 
-describe('parseLeadTimeProperty', () => {
-  it('returns 0 when undefined', () => {
-    expect(parseLeadTimeProperty(undefined)).toBe(0);
-  });
-
-  it('parses integer values', () => {
-    expect(parseLeadTimeProperty('5')).toBe(5);
-    expect(parseLeadTimeProperty('14')).toBe(14);
-  });
-
-  it('returns 0 for negative values', () => {
-    expect(parseLeadTimeProperty('-5')).toBe(0);
+describe('parseLeadTime', () => {
+  const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+  it('returns null when undefined', () => {
+    expect(parseLeadTime(undefined)).toBeNull();
+  });
+
+  it('returns null for negative values', () => {
+    expect(parseLeadTime('-5')).toBeNull();
+  });
+
+  it('returns null for non-numeric values and unknown units', () => {
+    expect(parseLeadTime('invalid')).toBeNull();
+    expect(parseLeadTime('abc')).toBeNull();
+    expect(parseLeadTime('3 fortnights')).toBeNull();
+    expect(parseLeadTime('2025-02-30')).toBeNull();
+  });
+
+  it.each([
+    ['5', { unit: 'business_days', min: 5, max: 5 }],
+    [' 7 ', { unit: 'business_days', min: 7, max: 7 }],
+    ['90 days', { unit: 'business_days', min: 90, max: 90 }],
+    ['10 Business Days', { unit: 'business_days', min: 10, max: 10 }],
+    ['1 working day', { unit: 'business_days', min: 1, max: 1 }],
+    ['14 calendar days', { unit: 'calendar_days', min: 14, max: 14 }],
+    ['3 weeks', { unit: 'weeks', min: 3, max: 3 }],
+    ['1 wk', { unit: 'weeks', min: 1, max: 1 }],
+    ['2 months', { unit: 'months', min: 2, max: 2 }],
+    ['60-90', { unit: 'business_days', min: 60, max: 90 }],
+    ['10 to 15 days', { unit: 'business_days', min: 10, max: 15 }],
+    ['15 - 10', { unit: 'business_days', min: 10, max: 15 }],
+    ['2-3 weeks', { unit: 'weeks', min: 2, max: 3 }],
+    ['2025-03-10', { unit: 'date', min: date('2025-03-10'), max: date('2025-03-10') }],
+    [
+      '2025-03-14 to 2025-03-10',
+      { unit: 'date', min: date('2025-03-10'), max: date('2025-03-14') },
+    ],
+  ])('parses "%s"', (value, expected) => {
+    expect(parseLeadTime(value)).toEqual(expected);
   });
+});
 
-  it('returns 0 for non-numeric values', () => {
-    expect(parseLeadTimeProperty('invalid')).toBe(0);
-    expect(parseLeadTimeProperty('abc')).toBe(0);
+describe('parseISODate', () => {
+  it('parses valid calendar dates only', () => {
+    expect(parseISODate('2024-02-29')).toEqual(new Date('2024-02-29T00:00:00Z'));
+    expect(parseISODate('2025-02-29')).toBeNull();
+    expect(parseISODate('March 1')).toBeNull();
+    expect(parseISODate(undefined)).toBeNull();
   });
+});
 
-  it('handles whitespace', () => {
-    expect(parseLeadTimeProperty(' 7 ')).toBe(7);
+describe('lead time handling windows', () => {
+  // Ordered Monday, March 3, 2025 with one default handling day
+  const orderDate = new Date('2025-03-03T00:00:00Z');
+  const outOfStock = (leadTime: string) =>
+    createCartItem({ '_in_stock': 'false', '_lead_time': leadTime });
+
+  it.each([
+    ['5', 6],
+    ['5 business days', 6],
+    ['14 calendar days', 11], // Stock in Monday the 17th
+    ['2 weeks', 11],
+    ['3 weeks', 16],
+    ['1 month', 24], // Stock in Thursday, April 3
+    ['2025-03-10', 6],
+    ['2025-02-01', 1], // Restock date already passed
+    ['soon', 1],
+  ])('waits for a "%s" lead time', (leadTime, handlingDays) => {
+    expect(getItemHandlingDays(outOfStock(leadTime), 1, orderDate)).toBe(handlingDays);
+  });
+
+  it.each([
+    ['2-3 weeks', { min: 11, max: 16 }],
+    ['2025-03-10 to 2025-03-14', { min: 6, max: 10 }],
+    ['4-6', { min: 5, max: 7 }],
+  ])('spans a "%s" lead time', (leadTime, range) => {
+    expect(getItemHandlingRange(outOfStock(leadTime), 1, orderDate)).toEqual(range);
+  });
+
+  it('keeps month lead times within shorter months', () => {
+    // January 31 plus a month is February 28, 2025
+    const item = outOfStock('1 month');
+    expect(getItemHandlingDays(item, 1, new Date('2025-01-31T00:00:00Z'))).toBe(21);
+  });
+
+  it('waits for _available_on even when the item is not marked out of stock', () => {
+    const item = createCartItem({ '_available_on': '2025-03-10' });
+    expect(getItemHandlingDays(item, 1, orderDate)).toBe(6);
+  });
+
+  it('uses the later of _available_on and the lead time', () => {
+    expect(
+      getItemHandlingDays(
+        createCartItem({ '_in_stock': 'false', '_lead_time': '2', '_available_on': '2025-03-10' }),
+        1,
+        orderDate
+      )
+    ).toBe(6);
+    expect(
+      getItemHandlingDays(
+        createCartItem({ '_in_stock': 'false', '_lead_time': '3 weeks', '_available_on': '2025-03-10' }),
+        1,
+        orderDate
+      )
+    ).toBe(16);
+  });
+
+  it('ignores past and invalid _available_on dates', () => {
+    expect(getItemHandlingDays(createCartItem({ '_available_on': '2025-03-01' }), 1, orderDate)).toBe(1);
+    expect(getItemHandlingDays(createCartItem({ '_available_on': 'next week' }), 1, orderDate)).toBe(1);
+  });
+
+  it('ignores the lead time of items in stock', () => {
+    const item = createCartItem({ '_in_stock': 'true', '_lead_time': '3 weeks' });
+    expect(getItemHandlingDays(item, 1, orderDate)).toBe(1);
   });
 });
 
@@ -136,6 +239,31 @@ describe('getItemHandlingDays', () => {
   });
 });
 
+describe('getCartHandlingRange', () => {
+  it('takes the slowest item at both ends of the range', () => {
+    const items = [
+      createCartItem({ '_in_stock': 'false', '_lead_time': '5-20' }),
+      createCartItem({ '_in_stock': 'false', '_lead_time': '10' }),
+    ];
+    expect(getCartHandlingRange(items, 1)).toEqual({ min: 11, max: 21 });
+    expect(getMaxHandlingDays(items, 1)).toBe(21);
+  });
+});
+
+describe('splitCartByAvailability', () => {
+  it('separates items that wait on stock from items ready to ship', () => {
+    const ready = createCartItem({ '_in_stock': 'true' });
+    const backordered = createCartItem({ '_in_stock': 'false', '_lead_time': '2 weeks' });
+    const noLeadTime = createCartItem({ '_in_stock': 'false' });
+    const digital = { ...createCartItem(), requires_shipping: false };
+
+    expect(splitCartByAvailability([ready, backordered, noLeadTime, digital], 1)).toEqual({
+      readyItems: [ready, noLeadTime],
+      delayedItems: [backordered],
+    });
+  });
+});
+
 describe('getMaxHandlingDays', () => {
   it('returns default for empty array', () => {
     expect(getMaxHandlingDays([], 1)).toBe(1);
@@ -307,6 +435,166 @@ describe('calculateDeliveryDates', () => {
     expect(result.maxDeliveryDateISO).toMatch(/^\d{4}-\d{2}-\d{2}$/);
     expect(result.minDeliveryDateISO).toBe(result.maxDeliveryDateISO);
   });
+
+  it('returns a range for uncertain lead times', () => {
+    const items = [createCartItem({ '_in_stock': 'false', '_lead_time': '2-4' })];
+    const fromDate = new Date('2024-01-08T00:00:00Z');
+    const result = calculateDeliveryDates(items, 1, 1, fromDate);
+
+    // 3 to 5 handling days + 1 transit
+    expect(formatDateISO(result.shipDate)).toBe('2024-01-11');
+    expect(result.minDeliveryDateISO).toBe('2024-01-12');
+    expect(result.maxDeliveryDateISO).toBe('2024-01-16');
+  });
+});
+
+describe('holiday weeks', () => {
+  it('skips Thanksgiving when adding business days', () => {
+    const wednesday = new Date('2025-11-26T00:00:00Z');
+    const result = addBusinessDays(wednesday, 1);
+    expect(formatDateISO(result)).toBe('2025-11-28');
+  });
+
+  it('skips the observed Christmas holiday', () => {
+    // Christmas 2027 is a Saturday, observed on Friday the 24th
+    const thursday = new Date('2027-12-23T00:00:00Z');
+    expect(formatDateISO(getNextBusinessDay(thursday))).toBe('2027-12-27');
+  });
+
+  it('skips New Year\'s Day across the year boundary', () => {
+    const wednesday = new Date('2025-12-31T00:00:00Z');
+    expect(formatDateISO(calculateDeliveryDate(wednesday, 2))).toBe('2026-01-05');
+  });
+
+  it('delays ship and delivery dates over Christmas', () => {
+    const items = [createCartItem({ '_in_stock': 'true' })];
+    const fromDate = new Date('2025-12-24T00:00:00Z');
+    const result = calculateDeliveryDates(items, 2, 1, fromDate);
+
+    // Dec 25 is a holiday, so the order ships Friday the 26th
+    expect(formatDateISO(result.shipDate)).toBe('2025-12-26');
+    expect(result.minDeliveryDateISO).toBe('2025-12-30');
+  });
+
+  it('holds shipments over company closures but not transit', () => {
+    const items = [createCartItem({ '_in_stock': 'true' })];
+    const calendars = getDeliveryCalendars({
+      observeFederalHolidays: false,
+      closures: ['2025-12-26', '2025-12-29'],
+    });
+    const result = calculateDeliveryDates(
+      items,
+      1,
+      1,
+      new Date('2025-12-24T00:00:00Z'),
+      calendars
+    );
+
+    expect(formatDateISO(result.shipDate)).toBe('2025-12-30');
+    expect(result.minDeliveryDateISO).toBe('2025-12-31');
+  });
+
+  it('holds shipments on federal holidays when the warehouse observes them', () => {
+    const items = [createCartItem({ '_in_stock': 'true' })];
+    const calendars = getDeliveryCalendars({ observeFederalHolidays: true, closures: [] });
+    const friday = new Date('2025-01-17T00:00:00Z');
+
+    // Martin Luther King Jr. Day: the warehouse is closed but FedEx delivers
+    expect(formatDateISO(calculateShipDate(1, friday, calendars.warehouse))).toBe('2025-01-21');
+    expect(formatDateISO(calculateDeliveryDate(friday, 1, calendars.carrier))).toBe('2025-01-20');
+  });
+});
+
+describe('calculateOrderShipDate', () => {
+  it('counts handling from the order day before the cutoff', () => {
+    // Tuesday 10am EST
+    const result = calculateOrderShipDate(1, new Date('2025-01-14T15:00:00Z'));
+    expect(formatDateISO(result)).toBe('2025-01-15');
+  });
+
+  it('counts handling from the next day after the cutoff', () => {
+    // Tuesday 4pm EST
+    const result = calculateOrderShipDate(1, new Date('2025-01-14T21:00:00Z'));
+    expect(formatDateISO(result)).toBe('2025-01-16');
+  });
+
+  it('keeps a Miami evening order on its local day', () => {
+    // Friday 9pm EST is Saturday in UTC; handling starts Monday
+    const result = calculateOrderShipDate(1, new Date('2025-01-18T02:00:00Z'));
+    expect(formatDateISO(result)).toBe('2025-01-21');
+  });
+
+  it('ships on the order day with no handling days', () => {
+    const result = calculateOrderShipDate(0, new Date('2025-01-14T15:00:00Z'));
+    expect(formatDateISO(result)).toBe('2025-01-14');
+  });
+});
+
+describe('countBusinessDays', () => {
+  it('counts business days after the start up to the end', () => {
+    const friday = new Date('2024-01-05T00:00:00Z');
+    expect(countBusinessDays(friday, new Date('2024-01-09T00:00:00Z'))).toBe(2);
+    expect(countBusinessDays(friday, friday)).toBe(0);
+  });
+});
+
+describe('shiftCarrierDeliveryDates', () => {
+  const quotedShipDate = new Date('2024-01-10T00:00:00Z'); // Wednesday
+
+  it('keeps the carrier date for in-stock carts', () => {
+    const items = [createCartItem({ '_in_stock': 'true' })];
+    expect(shiftCarrierDeliveryDates('2024-01-13', quotedShipDate, items, 1)).toEqual({
+      minDeliveryDateISO: '2024-01-13',
+      maxDeliveryDateISO: '2024-01-13',
+    });
+  });
+
+  it('moves the carrier date by the extra handling days', () => {
+    const items = [createCartItem({ '_in_stock': 'false', '_lead_time': '2' })];
+    // Ships Friday instead of Wednesday, so Monday's delivery becomes Wednesday
+    expect(shiftCarrierDeliveryDates('2024-01-15', quotedShipDate, items, 1)).toEqual({
+      minDeliveryDateISO: '2024-01-17',
+      maxDeliveryDateISO: '2024-01-17',
+    });
+  });
+
+  it('spans uncertain lead times', () => {
+    const items = [createCartItem({ '_in_stock': 'false', '_lead_time': '1-3' })];
+    expect(shiftCarrierDeliveryDates('2024-01-11', quotedShipDate, items, 1)).toEqual({
+      minDeliveryDateISO: '2024-01-12',
+      maxDeliveryDateISO: '2024-01-16',
+    });
+  });
+
+  it('counts warehouse closures as carrier transit days', () => {
+    const items = [createCartItem({ '_in_stock': 'false', '_lead_time': '1' })];
+    const calendars = getDeliveryCalendars({
+      observeFederalHolidays: false,
+      closures: ['2024-01-11'],
+    });
+    // Ships Friday the 12th: two carrier days after the quoted Wednesday
+    expect(
+      shiftCarrierDeliveryDates('2024-01-11', quotedShipDate, items, 1, calendars)
+    ).toEqual({
+      minDeliveryDateISO: '2024-01-15',
+      maxDeliveryDateISO: '2024-01-15',
+    });
+  });
+});
+
+describe('addTransitRange', () => {
+  const dates = { minDeliveryDateISO: '2024-01-11', maxDeliveryDateISO: '2024-01-12' };
+
+  it('moves the latest delivery by the extra transit days', () => {
+    expect(addTransitRange(dates, 2)).toEqual({
+      minDeliveryDateISO: '2024-01-11',
+      maxDeliveryDateISO: '2024-01-16',
+    });
+  });
+
+  it('keeps the window when transit is exact', () => {
+    expect(addTransitRange(dates, 0)).toBe(dates);
+  });
 });
 
 describe('DEFAULT_HANDLING_DAYS', () => {
@@ -1,4 +1,14 @@
 import type { ShopifyCartItem } from '../types';
+import { CALENDAR_CONFIG, SHIP_SCHEDULE } from '../config';
+import {
+  FEDEX_CALENDAR,
+  getDeliveryCalendars,
+  getOrderDate,
+  type BusinessCalendar,
+  type DeliveryCalendars,
+} from './calendar';
+
+export { isWeekend } from './calendar';
 
 export const DEFAULT_HANDLING_DAYS = 1;
 
@@ -8,62 +18,234 @@ export function parseInStockProperty(value: string | undefined): boolean {
   return lower === 'true' || lower === '1' || lower === 'yes';
 }
 
-export function parseLeadTimeProperty(value: string | undefined): number {
-  if (!value) return 0;
-  const trimmed = value.trim();
-  const parsed = parseInt(trimmed, 10);
-  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+export type LeadTimeUnit = 'business_days' | 'calendar_days' | 'weeks' | 'months';
+
+/**
+ * A lead time as an amount of some unit, or the restock date itself.
+ * Uncertain lead times keep both ends of their range.
+ */
+export type LeadTime =
+  | { unit: LeadTimeUnit; min: number; max: number }
+  | { unit: 'date'; min: Date; max: Date };
+
+export interface DaysRange {
+  min: number;
+  max: number;
 }
 
-export function getItemHandlingDays(
-  item: ShopifyCartItem,
-  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS
+// Plain "days" stay business days, as lead times were always counted
+const LEAD_TIME_UNITS: Record<string, LeadTimeUnit> = {
+  '': 'business_days',
+  d: 'business_days',
+  day: 'business_days',
+  days: 'business_days',
+  'business day': 'business_days',
+  'business days': 'business_days',
+  'working day': 'business_days',
+  'working days': 'business_days',
+  'calendar day': 'calendar_days',
+  'calendar days': 'calendar_days',
+  w: 'weeks',
+  wk: 'weeks',
+  wks: 'weeks',
+  week: 'weeks',
+  weeks: 'weeks',
+  mo: 'months',
+  month: 'months',
+  months: 'months',
+};
+
+const AMOUNT_PATTERN = /^(\d+)(?:\s*(?:-|to)\s*(\d+))?\s*([a-z ]*?)$/;
+const DATE_RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\s+to\s+(\d{4}-\d{2}-\d{2}))?$/;
+
+export function parseISODate(value: string | undefined): Date | null {
+  const trimmed = value?.trim() ?? '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return null;
+  const date = new Date(`${trimmed}T00:00:00Z`);
+  return !isNaN(date.getTime()) && formatDateISO(date) === trimmed ? date : null;
+}
+
+/**
+ * Parses _lead_time values: "5", "90 days", "10 business days",
+ * "14 calendar days", "3 weeks", "2 months", ranges such as "60-90" or
+ * "2 to 3 weeks", and restock dates such as "2025-03-01" or
+ * "2025-03-01 to 2025-03-15". Returns null for anything else.
+ */
+export function parseLeadTime(value: string | undefined): LeadTime | null {
+  const trimmed = value?.trim().toLowerCase() ?? '';
+
+  const dates = trimmed.match(DATE_RANGE_PATTERN);
+  if (dates) {
+    const first = parseISODate(dates[1]);
+    const second = dates[2] ? parseISODate(dates[2]) : first;
+    if (!first || !second) return null;
+    return first <= second
+      ? { unit: 'date', min: first, max: second }
+      : { unit: 'date', min: second, max: first };
+  }
+
+  const amount = trimmed.match(AMOUNT_PATTERN);
+  const unit = amount ? LEAD_TIME_UNITS[amount[3].trim()] : undefined;
+  if (!amount || !unit) return null;
+
+  const bounds = [parseInt(amount[1], 10), parseInt(amount[2] ?? amount[1], 10)];
+  return { unit, min: Math.min(...bounds), max: Math.max(...bounds) };
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Warehouse business days from the order date until one end of the lead
+ * time has passed. Calendar units and dates count the business days up
+ * to the day stock arrives.
+ */
+function getLeadTimeBusinessDays(
+  leadTime: LeadTime,
+  end: keyof DaysRange,
+  orderDate: Date,
+  calendar: BusinessCalendar
 ): number {
+  if (leadTime.unit === 'date') {
+    return countBusinessDays(orderDate, leadTime[end], calendar);
+  }
+
+  const amount = leadTime[end];
+  if (leadTime.unit === 'business_days') {
+    return amount;
+  }
+
+  let restockDate: Date;
+  if (leadTime.unit === 'months') {
+    restockDate = addMonths(orderDate, amount);
+  } else {
+    restockDate = new Date(orderDate);
+    const days = leadTime.unit === 'weeks' ? amount * 7 : amount;
+    restockDate.setUTCDate(restockDate.getUTCDate() + days);
+  }
+  return countBusinessDays(orderDate, restockDate, calendar);
+}
+
+export const DEFAULT_DELIVERY_CALENDARS: DeliveryCalendars =
+  getDeliveryCalendars(CALENDAR_CONFIG, SHIP_SCHEDULE);
+
+/**
+ * Handling days for an item ordered on orderDate. Out-of-stock items
+ * wait for their _lead_time, and any item with an _available_on date
+ * waits until that date; default handling starts once stock is in.
+ */
+export function getItemHandlingRange(
+  item: ShopifyCartItem,
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  orderDate: Date = getOrderDate(new Date(), DEFAULT_DELIVERY_CALENDARS),
+  calendar: BusinessCalendar = DEFAULT_DELIVERY_CALENDARS.warehouse
+): DaysRange {
   const props = item.properties || {};
   const inStock = parseInStockProperty(props['_in_stock']);
-  const leadTime = parseLeadTimeProperty(props['_lead_time']);
+  const leadTime = inStock ? null : parseLeadTime(props['_lead_time']);
+  const availableOn = parseISODate(props['_available_on']);
+  const availableDays = availableOn
+    ? countBusinessDays(orderDate, availableOn, calendar)
+    : 0;
 
-  if (inStock) {
-    return defaultHandlingDays;
-  }
+  const handlingDays = (end: keyof DaysRange): number => {
+    const leadTimeDays = leadTime
+      ? getLeadTimeBusinessDays(leadTime, end, orderDate, calendar)
+      : 0;
+    return defaultHandlingDays + Math.max(leadTimeDays, availableDays);
+  };
 
-  // Out of stock: default handling + lead time
-  return defaultHandlingDays + leadTime;
+  return { min: handlingDays('min'), max: handlingDays('max') };
 }
 
-export function getMaxHandlingDays(
-  items: ShopifyCartItem[],
-  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS
+export function getItemHandlingDays(
+  item: ShopifyCartItem,
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  orderDate?: Date,
+  calendar?: BusinessCalendar
 ): number {
+  return getItemHandlingRange(item, defaultHandlingDays, orderDate, calendar).max;
+}
+
+/**
+ * The order ships once its slowest item is ready, so both ends of the
+ * range are the largest across items.
+ */
+export function getCartHandlingRange(
+  items: ShopifyCartItem[],
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  orderDate?: Date,
+  calendar?: BusinessCalendar
+): DaysRange {
   if (items.length === 0) {
-    return defaultHandlingDays;
+    return { min: defaultHandlingDays, max: defaultHandlingDays };
   }
 
-  let maxHandlingDays = 0;
+  const ranges = items.map((item) =>
+    getItemHandlingRange(item, defaultHandlingDays, orderDate, calendar)
+  );
+  return {
+    min: Math.max(...ranges.map((range) => range.min)),
+    max: Math.max(...ranges.map((range) => range.max)),
+  };
+}
+
+export interface CartSplit {
+  // Items that ship after the default handling days
+  readyItems: ShopifyCartItem[];
+  // Items waiting on a lead time or an availability date
+  delayedItems: ShopifyCartItem[];
+}
 
-  for (const item of items) {
-    // Handle quantity - each unit has the same handling time, but we take max across items
-    const itemHandlingDays = getItemHandlingDays(item, defaultHandlingDays);
-    if (itemHandlingDays > maxHandlingDays) {
-      maxHandlingDays = itemHandlingDays;
+export function splitCartByAvailability(
+  items: ShopifyCartItem[],
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  orderDate?: Date,
+  calendar?: BusinessCalendar
+): CartSplit {
+  const split: CartSplit = { readyItems: [], delayedItems: [] };
+
+  for (const item of items.filter((i) => i.requires_shipping)) {
+    const handling = getItemHandlingRange(item, defaultHandlingDays, orderDate, calendar);
+    if (handling.max > defaultHandlingDays) {
+      split.delayedItems.push(item);
+    } else {
+      split.readyItems.push(item);
     }
   }
 
-  return maxHandlingDays || defaultHandlingDays;
+  return split;
 }
 
-export function isWeekend(date: Date): boolean {
-  const day = date.getUTCDay();
-  return day === 0 || day === 6;
+export function getMaxHandlingDays(
+  items: ShopifyCartItem[],
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  orderDate?: Date,
+  calendar?: BusinessCalendar
+): number {
+  return getCartHandlingRange(items, defaultHandlingDays, orderDate, calendar).max;
 }
 
-export function addBusinessDays(startDate: Date, businessDays: number): Date {
+export function addBusinessDays(
+  startDate: Date,
+  businessDays: number,
+  calendar: BusinessCalendar = FEDEX_CALENDAR
+): Date {
   const result = new Date(startDate);
   let daysAdded = 0;
 
   while (daysAdded < businessDays) {
     result.setUTCDate(result.getUTCDate() + 1);
-    if (!isWeekend(result)) {
+    if (calendar.isBusinessDay(result)) {
       daysAdded++;
     }
   }
@@ -71,63 +253,175 @@ export function addBusinessDays(startDate: Date, businessDays: number): Date {
   return result;
 }
 
-export function getNextBusinessDay(date: Date): Date {
+// Business days after start, up to and including end
+export function countBusinessDays(
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar = FEDEX_CALENDAR
+): number {
+  const current = new Date(start);
+  let count = 0;
+
+  while (current < end) {
+    current.setUTCDate(current.getUTCDate() + 1);
+    if (calendar.isBusinessDay(current)) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+export function getNextBusinessDay(
+  date: Date,
+  calendar: BusinessCalendar = FEDEX_CALENDAR
+): Date {
   const result = new Date(date);
   result.setUTCDate(result.getUTCDate() + 1);
 
-  while (isWeekend(result)) {
+  while (!calendar.isBusinessDay(result)) {
     result.setUTCDate(result.getUTCDate() + 1);
   }
 
   return result;
 }
 
-export function calculateShipDate(handlingDays: number, fromDate: Date = new Date()): Date {
+export function calculateShipDate(
+  handlingDays: number,
+  fromDate: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_DELIVERY_CALENDARS.warehouse
+): Date {
   if (handlingDays <= 0) {
-    return getNextBusinessDay(fromDate);
+    return getNextBusinessDay(fromDate, calendar);
   }
 
-  return addBusinessDays(fromDate, handlingDays);
+  return addBusinessDays(fromDate, handlingDays, calendar);
+}
+
+/**
+ * Ship date for an order placed at the given instant. Handling starts on
+ * the order date, which moves to the next pickup day after the cutoff, so
+ * an order with no handling days ships on its order date.
+ */
+export function calculateOrderShipDate(
+  handlingDays: number,
+  orderedAt: Date = new Date(),
+  calendars: DeliveryCalendars = DEFAULT_DELIVERY_CALENDARS
+): Date {
+  const orderDate = getOrderDate(orderedAt, calendars);
+  return addBusinessDays(orderDate, handlingDays, calendars.warehouse);
 }
 
 export function calculateDeliveryDate(
   shipDate: Date,
-  transitDays: number
+  transitDays: number,
+  calendar: BusinessCalendar = FEDEX_CALENDAR
 ): Date {
   if (transitDays <= 0) {
     return shipDate;
   }
 
-  return addBusinessDays(shipDate, transitDays);
+  return addBusinessDays(shipDate, transitDays, calendar);
 }
 
 export function formatDateISO(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
-export interface DeliveryDateResult {
-  shipDate: Date;
-  deliveryDate: Date;
+export interface DeliveryDateRange {
   minDeliveryDateISO: string;
   maxDeliveryDateISO: string;
 }
 
+export interface DeliveryDateResult extends DeliveryDateRange {
+  // Earliest ship and delivery dates; later ones are only in the range
+  shipDate: Date;
+  deliveryDate: Date;
+}
+
 export function calculateDeliveryDates(
   items: ShopifyCartItem[],
   transitDays: number,
   defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
-  fromDate: Date = new Date()
+  fromDate: Date = new Date(),
+  calendars: DeliveryCalendars = DEFAULT_DELIVERY_CALENDARS
 ): DeliveryDateResult {
-  const handlingDays = getMaxHandlingDays(items, defaultHandlingDays);
-  const shipDate = calculateShipDate(handlingDays, fromDate);
-  const deliveryDate = calculateDeliveryDate(shipDate, transitDays);
-
-  const deliveryDateISO = formatDateISO(deliveryDate);
+  const handling = getCartHandlingRange(
+    items,
+    defaultHandlingDays,
+    getOrderDate(fromDate, calendars),
+    calendars.warehouse
+  );
+  const shipDate = calculateOrderShipDate(handling.min, fromDate, calendars);
+  const deliveryDate = calculateDeliveryDate(shipDate, transitDays, calendars.carrier);
+  const latestShipDate = calculateOrderShipDate(handling.max, fromDate, calendars);
+  const latestDeliveryDate = calculateDeliveryDate(
+    latestShipDate,
+    transitDays,
+    calendars.carrier
+  );
 
   return {
     shipDate,
     deliveryDate,
-    minDeliveryDateISO: deliveryDateISO,
-    maxDeliveryDateISO: deliveryDateISO,
+    minDeliveryDateISO: formatDateISO(deliveryDate),
+    maxDeliveryDateISO: formatDateISO(latestDeliveryDate),
+  };
+}
+
+/**
+ * Widens a delivery window for a carrier transit range by moving the
+ * latest delivery out by the extra transit days.
+ */
+export function addTransitRange(
+  dates: DeliveryDateRange,
+  extraTransitDays: number,
+  calendar: BusinessCalendar = FEDEX_CALENDAR
+): DeliveryDateRange {
+  if (extraTransitDays <= 0) {
+    return dates;
+  }
+
+  const latest = new Date(`${dates.maxDeliveryDateISO}T00:00:00Z`);
+  return {
+    minDeliveryDateISO: dates.minDeliveryDateISO,
+    maxDeliveryDateISO: formatDateISO(addBusinessDays(latest, extraTransitDays, calendar)),
+  };
+}
+
+/**
+ * Carriers quote the date in-stock orders ship. When handling and lead
+ * times hold the cart longer, its carrier delivery date moves by the
+ * carrier business days between the quoted and the actual ship date.
+ */
+export function shiftCarrierDeliveryDates(
+  carrierDeliveryDateISO: string,
+  quotedShipDate: Date,
+  items: ShopifyCartItem[],
+  defaultHandlingDays: number = DEFAULT_HANDLING_DAYS,
+  calendars: DeliveryCalendars = DEFAULT_DELIVERY_CALENDARS,
+  orderedAt: Date = new Date()
+): DeliveryDateRange {
+  const handling = getCartHandlingRange(
+    items,
+    defaultHandlingDays,
+    getOrderDate(orderedAt, calendars),
+    calendars.warehouse
+  );
+  const carrierDeliveryDate = new Date(`${carrierDeliveryDateISO}T00:00:00Z`);
+
+  const shift = (handlingDays: number): string => {
+    const extraDays = Math.max(handlingDays - defaultHandlingDays, 0);
+    if (extraDays === 0) {
+      return carrierDeliveryDateISO;
+    }
+    const shipDate = addBusinessDays(quotedShipDate, extraDays, calendars.warehouse);
+    const offset = countBusinessDays(quotedShipDate, shipDate, calendars.carrier);
+    return formatDateISO(addBusinessDays(carrierDeliveryDate, offset, calendars.carrier));
+  };
+
+  return {
+    minDeliveryDateISO: shift(handling.min),
+    maxDeliveryDateISO: shift(handling.max),
   };
 }
@@ -5,9 +5,12 @@ import {
   packItems,
   packedBoxesToFedExPackages,
   getPackagesForCart,
+  estimatePackingCostCents,
+  planCartPackaging,
+  describeSpecialHandling,
 } from "./packaging";
 import type { ShopifyCartItem, BoxConfig } from "../types";
-import { GRAMS_PER_LB } from "../config";
+import { GRAMS_PER_LB, BOX_CONFIGS, HAZMAT_SEGREGATION } from "../config";
 
 const TEST_BOX_CONFIGS: BoxConfig[] = [
   {
@@ -130,8 +133,16 @@ describe("packItems", () => {
     ];
     const packed = packItems(items, TEST_BOX_CONFIGS);
 
+    // Without dimensions the container is assumed to be the largest box size
     expect(packed).toHaveLength(1);
-    expect(packed[0].box.name).toBe("large");
+    expect(packed[0].box).toMatchObject({
+      name: "own-container",
+      length: 24,
+      width: 18,
+      height: 12,
+    });
+    expect(packed[0].totalWeightLbs).toBeCloseTo(100, 1);
+    expect(packed[0].ownContainer?.reason).toBe("overweight");
   });
 
   it("returns empty array for empty cart", () => {
@@ -194,6 +205,8 @@ describe("packedBoxesToFedExPackages", () => {
         totalWeightLbs: 15.5,
         itemWeightLbs: 14.5,
         usedFloorArea: 100,
+        placements: [],
+        hazmat: [],
       },
     ];
 
@@ -216,6 +229,8 @@ describe("packedBoxesToFedExPackages", () => {
         totalWeightLbs: 15.5555,
         itemWeightLbs: 14.5555,
         usedFloorArea: 100,
+        placements: [],
+        hazmat: [],
       },
     ];
 
@@ -237,6 +252,26 @@ describe("getPackagesForCart", () => {
     expect(packages[0].weight.value).toBeCloseTo(1000 / GRAMS_PER_LB + 1, 1);
   });
 
+  it("adds dangerous goods services only to packages holding hazmat items", () => {
+    const items = [
+      createCartItem({
+        sku: "PAINT",
+        grams: Math.round(40 * GRAMS_PER_LB),
+        properties: { _un_number: "UN1263", _hazard_class: "3", _packing_group: "II" },
+      }),
+      createCartItem({ sku: "BRUSH", grams: Math.round(40 * GRAMS_PER_LB) }),
+    ];
+
+    const packages = getPackagesForCart(items, TEST_BOX_CONFIGS);
+
+    expect(packages).toHaveLength(2);
+    expect(packages[0].packageSpecialServices?.dangerousGoodsDetail).toMatchObject({
+      accessibility: "ACCESSIBLE",
+      options: ["HAZARDOUS_MATERIALS"],
+    });
+    expect(packages[1].packageSpecialServices).toBeUndefined();
+  });
+
   it("returns empty array when all items are non-shippable", () => {
     const items = [
       createCartItem({ requires_shipping: false }),
@@ -406,3 +441,344 @@ describe("dimension-based packing", () => {
     expect(packed[0].usedFloorArea).toBeCloseTo(42.25, 2); // 6.5x6.5
   });
 });
+
+describe("3D packing", () => {
+  function dimensionedItem(
+    length: number,
+    width: number,
+    height: number,
+    overrides: Partial<ShopifyCartItem> = {},
+  ): ShopifyCartItem {
+    return createCartItem({
+      grams: Math.round(0.5 * GRAMS_PER_LB),
+      ...overrides,
+      properties: {
+        _length: `${length} in`,
+        _width: `${width} in`,
+        _height: `${height} in`,
+        ...overrides.properties,
+      },
+    });
+  }
+
+  it("stacks a second layer when the floor is full", () => {
+    // Small box is 12x12x8: four 6x6x4 items per layer, two layers
+    const packed = packItems([dimensionedItem(6, 6, 4, { quantity: 8 })], TEST_BOX_CONFIGS);
+
+    expect(packed).toHaveLength(1);
+    expect(packed[0].box.name).toBe("small");
+    expect(packed[0].placements).toHaveLength(8);
+    expect(packed[0].placements.filter((p) => p.z === 0)).toHaveLength(4);
+    expect(packed[0].placements.filter((p) => p.z === 4)).toHaveLength(4);
+    expect(packed[0].usedFloorArea).toBe(144);
+  });
+
+  it("opens another box once both layers are full", () => {
+    const packed = packItems([dimensionedItem(6, 6, 4, { quantity: 9 })], TEST_BOX_CONFIGS);
+
+    expect(packed).toHaveLength(2);
+    expect(packed[1].placements).toHaveLength(1);
+  });
+
+  it("stacks smaller items on top of fully supporting items", () => {
+    const packed = packItems(
+      [dimensionedItem(10, 10, 2, { sku: "TRAY" }), dimensionedItem(6, 6, 4, { sku: "CAN" })],
+      TEST_BOX_CONFIGS,
+    );
+
+    expect(packed).toHaveLength(1);
+    const can = packed[0].placements.find((p) => p.sku === "CAN")!;
+    expect(can.z).toBe(2);
+    expect(packed[0].usedFloorArea).toBe(100);
+  });
+
+  it("does not rest items on a partial base", () => {
+    // A 12x12 tray cannot sit on a single 6x6 can
+    const packed = packItems(
+      [
+        dimensionedItem(6, 6, 4, { sku: "CAN", grams: Math.round(3 * GRAMS_PER_LB) }),
+        dimensionedItem(12, 12, 1, { sku: "TRAY" }),
+      ],
+      TEST_BOX_CONFIGS,
+    );
+
+    // The heavier can is packed first, so the tray needs its own box
+    expect(packed).toHaveLength(2);
+    expect(packed[1].placements[0]).toMatchObject({ sku: "TRAY", z: 0 });
+  });
+
+  it("turns upright items on the floor to fit", () => {
+    // 8x14 footprint only fits the 18x12 medium box as 14x8
+    const packed = packItems([dimensionedItem(8, 14, 6)], TEST_BOX_CONFIGS);
+
+    expect(packed[0].box.name).toBe("medium");
+    expect(packed[0].placements[0]).toMatchObject({ length: 14, width: 8, height: 6 });
+  });
+
+  it("lays items down when _this_side_up is false", () => {
+    // 9" tall does not fit the 8" small box standing up, but does on its side
+    const packed = packItems(
+      [dimensionedItem(6, 6, 9, { properties: { _this_side_up: "false" } })],
+      TEST_BOX_CONFIGS,
+    );
+
+    expect(packed[0].box.name).toBe("small");
+    expect(packed[0].placements[0].height).toBe(6);
+  });
+
+  it("never overlaps placements or exceeds the box", () => {
+    const packed = packItems(
+      [
+        dimensionedItem(7, 5, 3, { quantity: 6 }),
+        dimensionedItem(4, 4, 6, { quantity: 5 }),
+        dimensionedItem(11, 3, 2, { quantity: 3, properties: { _this_side_up: "false" } }),
+      ],
+      TEST_BOX_CONFIGS,
+    );
+
+    for (const { box, placements } of packed) {
+      for (const p of placements) {
+        expect(p.x + p.length).toBeLessThanOrEqual(box.length);
+        expect(p.y + p.width).toBeLessThanOrEqual(box.width);
+        expect(p.z + p.height).toBeLessThanOrEqual(box.height);
+      }
+      for (let i = 0; i < placements.length; i++) {
+        for (let j = i + 1; j < placements.length; j++) {
+          const a = placements[i];
+          const b = placements[j];
+          const separated =
+            a.x + a.length <= b.x ||
+            b.x + b.length <= a.x ||
+            a.y + a.width <= b.y ||
+            b.y + b.width <= a.y ||
+            a.z + a.height <= b.z ||
+            b.z + b.height <= a.z;
+          expect(separated).toBe(true);
+        }
+      }
+    }
+    expect(packed.reduce((sum, p) => sum + p.placements.length, 0)).toBe(14);
+  });
+});
+
+describe("cost-optimized packing", () => {
+  // Gallon cans: two fit side by side in a 2-gallon box, four in a 4-gallon box
+  const gallonCans = (quantity: number) =>
+    createCartItem({
+      sku: "GALLON",
+      grams: Math.round(11 * GRAMS_PER_LB),
+      quantity,
+      properties: { _length: "6.5 in", _width: "6.5 in", _height: "7.5 in" },
+    });
+
+  it("scores plans by billable weight plus material cost", () => {
+    const [twoGallon, fourGallon] = BOX_CONFIGS;
+    const plan = [
+      // 9x15x9 dim weight is 8.74 lbs, so the actual 24 lbs bills
+      { box: twoGallon, totalWeightLbs: 24, itemWeightLbs: 22, usedFloorArea: 0, placements: [], hazmat: [] },
+      // 15x15x9 dim weight is 14.57 lbs, so it bills 15 lbs
+      { box: fourGallon, totalWeightLbs: 5, itemWeightLbs: 2, usedFloorArea: 0, placements: [], hazmat: [] },
+    ];
+
+    expect(estimatePackingCostCents(plan)).toBe((24 + 15) * 100 + 150 + 225);
+  });
+
+  it("greedy packing leaves three cans in two 2-gallon boxes", () => {
+    const packed = packItems([gallonCans(3)], BOX_CONFIGS);
+
+    expect(packed.map((p) => p.box.name)).toEqual(["2-gallon", "2-gallon"]);
+  });
+
+  it("uses one 4-gallon box when that is cheaper", () => {
+    const greedy = packItems([gallonCans(3)], BOX_CONFIGS);
+    const optimized = packItems([gallonCans(3)], BOX_CONFIGS, { mode: "cost_optimized" });
+
+    expect(optimized.map((p) => p.box.name)).toEqual(["4-gallon"]);
+    expect(optimized[0].placements).toHaveLength(3);
+    expect(estimatePackingCostCents(optimized)).toBeLessThan(estimatePackingCostCents(greedy));
+  });
+
+  it("keeps the greedy plan when it is already cheapest", () => {
+    const optimized = packItems([gallonCans(2)], BOX_CONFIGS, { mode: "cost_optimized" });
+
+    expect(optimized.map((p) => p.box.name)).toEqual(["2-gallon"]);
+  });
+
+  it("never overfills a box by weight", () => {
+    const optimized = packItems([gallonCans(9)], BOX_CONFIGS, { mode: "cost_optimized" });
+
+    const packedCans = optimized.reduce((sum, p) => sum + p.placements.length, 0);
+    expect(packedCans).toBe(9);
+    for (const packed of optimized) {
+      expect(packed.itemWeightLbs).toBeLessThanOrEqual(
+        (packed.box.maxWeightLbs - packed.box.emptyWeightLbs) * 0.9,
+      );
+    }
+  });
+
+  it("falls back to the greedy plan when the time budget is spent", () => {
+    let clock = 0;
+    const optimized = packItems([gallonCans(3)], BOX_CONFIGS, {
+      mode: "cost_optimized",
+      timeBudgetMs: 5,
+      now: () => (clock += 10),
+    });
+
+    expect(optimized.map((p) => p.box.name)).toEqual(["2-gallon", "2-gallon"]);
+  });
+});
+
+describe("oversize and overweight items", () => {
+  function dimensioned(
+    length: number,
+    width: number,
+    height: number,
+    weightLbs: number,
+    overrides: Partial<ShopifyCartItem> = {},
+  ): ShopifyCartItem {
+    return createCartItem({
+      grams: Math.round(weightLbs * GRAMS_PER_LB),
+      properties: {
+        _length: `${length} in`,
+        _width: `${width} in`,
+        _height: `${height} in`,
+      },
+      ...overrides,
+    });
+  }
+
+  it("ships items too large for every box in their own container", () => {
+    const items = [
+      dimensioned(30.5, 6, 6, 10, { sku: "PART", name: "Drive Shaft" }),
+      dimensioned(6, 6, 6, 2),
+    ];
+
+    const packed = packItems(items, TEST_BOX_CONFIGS);
+
+    expect(packed).toHaveLength(2);
+    expect(packed[0].box.name).toBe("small");
+    expect(packed[1].box).toMatchObject({
+      name: "own-container",
+      length: 31,
+      width: 6,
+      height: 6,
+      emptyWeightLbs: 0,
+    });
+    expect(packed[1].totalWeightLbs).toBeCloseTo(10, 1);
+    expect(packed[1].ownContainer).toEqual({
+      sku: "PART",
+      name: "Drive Shaft",
+      reason: "oversize",
+    });
+  });
+
+  it("ships items too heavy for every box in their own container", () => {
+    const packed = packItems([dimensioned(16, 16, 20, 65)], TEST_BOX_CONFIGS);
+
+    expect(packed).toHaveLength(1);
+    expect(packed[0].box).toMatchObject({ length: 16, width: 16, height: 20 });
+    expect(packed[0].ownContainer?.reason).toBe("overweight");
+  });
+
+  it("keeps own-container items out of cost-optimized plans", () => {
+    const items = [dimensioned(30, 6, 6, 10), dimensioned(6, 6, 6, 2)];
+
+    const packed = packItems(items, TEST_BOX_CONFIGS, { mode: "cost_optimized" });
+
+    expect(packed.map((p) => p.box.name)).toEqual(["small", "own-container"]);
+  });
+
+  it("routes items over the FedEx parcel limits to freight", () => {
+    const items = [
+      createCartItem({ sku: "DRUM", name: "Drum", grams: Math.round(200 * GRAMS_PER_LB) }),
+      // 100 + 2 * (25 + 10) = 170 in length + girth
+      dimensioned(25, 100, 10, 40, { sku: "PIPE", name: "Pipe" }),
+      // 100 + 2 * (20 + 10) = 160 in, still a parcel
+      dimensioned(100, 20, 10, 40, { sku: "RAIL", name: "Rail" }),
+    ];
+
+    const plan = planCartPackaging(items, TEST_BOX_CONFIGS);
+
+    expect(plan.freightItems).toEqual([
+      { sku: "DRUM", name: "Drum", reason: "parcel_weight_limit" },
+      { sku: "PIPE", name: "Pipe", reason: "parcel_size_limit" },
+    ]);
+    expect(plan.packages).toHaveLength(1);
+    expect(plan.ownContainerItems).toEqual([
+      { sku: "RAIL", name: "Rail", reason: "oversize" },
+    ]);
+  });
+
+  it("describes why an item needs special handling", () => {
+    expect(
+      describeSpecialHandling({ sku: "A", name: "Drum", reason: "overweight" }),
+    ).toBe("Drum ships in its own container (too heavy for our boxes)");
+    expect(
+      describeSpecialHandling({ sku: "A", name: "Pipe", reason: "parcel_size_limit" }),
+    ).toBe("Pipe exceeds the 165 in length + girth parcel limit");
+  });
+});
+
+describe("hazmat segregation", () => {
+  const hazmatItem = (sku: string, hazardClass: string) =>
+    createCartItem({
+      sku,
+      grams: Math.round(2 * GRAMS_PER_LB),
+      properties: { _is_hazmat: "true", _hazard_class: hazardClass },
+    });
+
+  it("packs incompatible hazard classes in separate boxes", () => {
+    // Class 3 flammable liquids and 5.1 oxidizers must be separated
+    const packed = packItems(
+      [hazmatItem("PAINT", "3"), hazmatItem("OXIDIZER", "5.1")],
+      TEST_BOX_CONFIGS,
+    );
+
+    expect(packed).toHaveLength(2);
+    expect(packed.map((p) => p.hazmat.map((h) => h.sku))).toEqual([
+      ["PAINT"],
+      ["OXIDIZER"],
+    ]);
+  });
+
+  it("packs compatible hazard classes and non-hazmat items together by default", () => {
+    const packed = packItems(
+      [hazmatItem("PAINT", "3"), hazmatItem("CLEANER", "8"), createCartItem()],
+      TEST_BOX_CONFIGS,
+    );
+
+    expect(packed).toHaveLength(1);
+    expect(packed[0].hazmat).toHaveLength(2);
+  });
+
+  it("keeps segregated items apart in cost-optimized mode", () => {
+    const packed = packItems(
+      [hazmatItem("PAINT", "3"), hazmatItem("OXIDIZER", "5.1")],
+      TEST_BOX_CONFIGS,
+      { mode: "cost_optimized" },
+    );
+
+    expect(packed).toHaveLength(2);
+  });
+
+  it("keeps non-hazmat items out of hazmat boxes when configured", () => {
+    const packed = packItems(
+      [hazmatItem("PAINT", "3"), createCartItem({ sku: "BRUSH" })],
+      TEST_BOX_CONFIGS,
+      { segregation: { ...HAZMAT_SEGREGATION, separateNonHazmat: true } },
+    );
+
+    expect(packed).toHaveLength(2);
+    expect(packed.map((p) => p.hazmat.length).sort()).toEqual([0, 1]);
+  });
+
+  it("uses the configured incompatible classes", () => {
+    const packed = packItems(
+      [hazmatItem("PAINT", "3"), hazmatItem("CLEANER", "8")],
+      TEST_BOX_CONFIGS,
+      { segregation: { incompatibleClasses: { "8": ["3"] }, separateNonHazmat: false } },
+    );
+
+    expect(packed).toHaveLength(2);
+  });
+});
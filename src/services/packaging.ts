@@ -1,20 +1,81 @@
 import type {
   BoxConfig,
+  HazmatSegregationConfig,
   ShopifyCartItem,
   FedExPackageLineItem,
 } from "../types";
-import { GRAMS_PER_LB, BOX_CONFIGS } from "../config";
+import {
+  GRAMS_PER_LB,
+  BOX_CONFIGS,
+  PACKING_COST_PER_BILLABLE_LB_CENTS,
+  PACKING_TIME_BUDGET_MS,
+  FEDEX_PARCEL_MAX_WEIGHT_LBS,
+  FEDEX_PARCEL_MAX_LENGTH_PLUS_GIRTH_IN,
+  HAZMAT_SEGREGATION,
+} from "../config";
+import { calculateBillableWeightLbs } from "./fallback-rates";
+import {
+  getItemHazmat,
+  canShareBox,
+  buildPackageSpecialServices,
+  type HazmatInfo,
+} from "./hazmat";
 
 // Safety factor for weight capacity
 const WEIGHT_FILL_PERCENTAGE = 0.9;
-// Safety factor for floor area (accounts for imperfect packing)
-const AREA_FILL_PERCENTAGE = 0.85;
+// Tolerance for floating point comparisons of coordinates (inches)
+const EPSILON = 1e-6;
+// Box name used for items that ship in their own packaging
+export const OWN_CONTAINER_BOX_NAME = "own-container";
+
+/**
+ * An item placed in a box as an axis-aligned cuboid. The origin is the
+ * box's bottom-left-back corner; length runs along x, width along y and
+ * height along z (up).
+ */
+export interface ItemPlacement {
+  sku: string;
+  x: number;
+  y: number;
+  z: number;
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+}
 
 export interface PackedBox {
   box: BoxConfig;
   totalWeightLbs: number;
   itemWeightLbs: number;
-  usedFloorArea: number; // square inches
+  usedFloorArea: number; // square inches covered by items on the box floor
+  placements: ItemPlacement[]; // items without dimensions are packed by weight only
+  hazmat: HazmatInfo[]; // one entry per dangerous goods unit in the box
+  ownContainer?: SpecialHandlingItem; // set when the item ships in its own packaging
+}
+
+/**
+ * Why an item cannot go in one of our boxes. "overweight" and "oversize"
+ * items ship in their own container; items over the FedEx parcel limits
+ * have to go LTL freight.
+ */
+export type SpecialHandlingReason =
+  | "overweight"
+  | "oversize"
+  | "parcel_weight_limit"
+  | "parcel_size_limit";
+
+export interface SpecialHandlingItem {
+  sku: string;
+  name: string;
+  reason: SpecialHandlingReason;
+}
+
+export interface CartPackingPlan {
+  packedBoxes: PackedBox[];
+  packages: FedExPackageLineItem[];
+  ownContainerItems: SpecialHandlingItem[];
+  freightItems: SpecialHandlingItem[];
 }
 
 interface ItemDimensions {
@@ -25,9 +86,32 @@ interface ItemDimensions {
 }
 
 interface PackableItem {
+  sku: string;
+  name: string;
   weightLbs: number;
   dimensions: ItemDimensions;
-  floorArea: number; // length × width
+  volume: number;
+  orientations: Orientation[];
+  hazmat: HazmatInfo | null;
+}
+
+type Orientation = [length: number, width: number, height: number];
+
+interface PackingState {
+  packed: PackedBox;
+  // Candidate corners for the next placement
+  points: [number, number, number][];
+  // Items in this box, kept so plans can be re-packed
+  items: PackableItem[];
+}
+
+export type PackingMode = "greedy" | "cost_optimized";
+
+export interface PackingOptions {
+  mode?: PackingMode;
+  timeBudgetMs?: number;
+  now?: () => number;
+  segregation?: HazmatSegregationConfig;
 }
 
 export function gramsToLbs(grams: number): number {
@@ -77,12 +161,160 @@ function extractItemDimensions(item: ShopifyCartItem): ItemDimensions {
   };
 }
 
+/**
+ * Items stay upright unless _this_side_up is "false". Most of the catalog is
+ * liquid in cans, so upright is the safe default; upright items may still
+ * be turned on the floor (length and width swapped).
+ */
+function isThisSideUp(item: ShopifyCartItem): boolean {
+  return item.properties?._this_side_up?.trim().toLowerCase() !== "false";
+}
+
+function getOrientations(
+  dimensions: ItemDimensions,
+  thisSideUp: boolean,
+): Orientation[] {
+  const { length: l, width: w, height: h } = dimensions;
+  const candidates: Orientation[] = thisSideUp
+    ? [
+        [l, w, h],
+        [w, l, h],
+      ]
+    : [
+        [l, w, h],
+        [w, l, h],
+        [l, h, w],
+        [h, l, w],
+        [w, h, l],
+        [h, w, l],
+      ];
+
+  // Drop duplicates (e.g. cubes) and try the lowest orientations first
+  const seen = new Set<string>();
+  return candidates
+    .filter((orientation) => {
+      const key = orientation.join("x");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a[2] - b[2]);
+}
+
 function getEffectiveWeightCapacity(box: BoxConfig): number {
   return (box.maxWeightLbs - box.emptyWeightLbs) * WEIGHT_FILL_PERCENTAGE;
 }
 
-function getEffectiveFloorArea(box: BoxConfig): number {
-  return box.length * box.width * AREA_FILL_PERCENTAGE;
+function fitsInsideBox(
+  [x, y, z]: [number, number, number],
+  [l, w, h]: Orientation,
+  box: BoxConfig,
+): boolean {
+  return (
+    x + l <= box.length + EPSILON &&
+    y + w <= box.width + EPSILON &&
+    z + h <= box.height + EPSILON
+  );
+}
+
+function overlaps(
+  [x, y, z]: [number, number, number],
+  [l, w, h]: Orientation,
+  other: ItemPlacement,
+): boolean {
+  return (
+    x < other.x + other.length - EPSILON &&
+    x + l > other.x + EPSILON &&
+    y < other.y + other.width - EPSILON &&
+    y + w > other.y + EPSILON &&
+    z < other.z + other.height - EPSILON &&
+    z + h > other.z + EPSILON
+  );
+}
+
+/**
+ * Items resting above the floor must be fully supported by the tops of the
+ * items directly beneath them. Placements never overlap, so the supported
+ * area is the sum of the individual overlaps.
+ */
+function isSupported(
+  [x, y, z]: [number, number, number],
+  [l, w]: Orientation,
+  placements: ItemPlacement[],
+): boolean {
+  if (z <= EPSILON) return true;
+
+  let supportedArea = 0;
+  for (const below of placements) {
+    if (Math.abs(below.z + below.height - z) > EPSILON) continue;
+    const overlapLength =
+      Math.min(x + l, below.x + below.length) - Math.max(x, below.x);
+    const overlapWidth =
+      Math.min(y + w, below.y + below.width) - Math.max(y, below.y);
+    if (overlapLength > 0 && overlapWidth > 0) {
+      supportedArea += overlapLength * overlapWidth;
+    }
+  }
+  return supportedArea >= l * w - EPSILON;
+}
+
+function findPlacement(
+  item: PackableItem,
+  state: PackingState,
+): { point: [number, number, number]; orientation: Orientation } | null {
+  const { box, placements } = state.packed;
+
+  for (const point of state.points) {
+    for (const orientation of item.orientations) {
+      if (
+        fitsInsideBox(point, orientation, box) &&
+        placements.every((other) => !overlaps(point, orientation, other)) &&
+        isSupported(point, orientation, placements)
+      ) {
+        return { point, orientation };
+      }
+    }
+  }
+  return null;
+}
+
+function addItemToBox(
+  item: PackableItem,
+  state: PackingState,
+  point: [number, number, number],
+  orientation: Orientation,
+): void {
+  const [x, y, z] = point;
+  const [length, width, height] = orientation;
+
+  state.packed.placements.push({
+    sku: item.sku,
+    x,
+    y,
+    z,
+    length,
+    width,
+    height,
+    weightLbs: item.weightLbs,
+  });
+  if (z <= EPSILON) {
+    state.packed.usedFloorArea += length * width;
+  }
+
+  // Extreme points: the corners next to, behind and on top of the new item.
+  // Keep them ordered bottom-up, then back-to-front, then left-to-right.
+  state.points = state.points.filter((p) => p !== point);
+  state.points.push([x + length, y, z], [x, y + width, z], [x, y, z + height]);
+  state.points.sort((a, b) => a[2] - b[2] || a[1] - b[1] || a[0] - b[0]);
+}
+
+function addItemWeight(item: PackableItem, state: PackingState): void {
+  state.packed.itemWeightLbs += item.weightLbs;
+  state.packed.totalWeightLbs += item.weightLbs;
+  if (item.hazmat) {
+    state.packed.hazmat.push(item.hazmat);
+  }
+  state.items.push(item);
 }
 
 function itemFitsInBox(item: PackableItem, box: BoxConfig): boolean {
@@ -96,150 +328,456 @@ function itemFitsInBox(item: PackableItem, box: BoxConfig): boolean {
     return true;
   }
 
-  // Check height (item must fit standing up)
-  if (item.dimensions.height > box.height) {
-    return false;
-  }
-
-  // Check floor area
-  if (item.floorArea > getEffectiveFloorArea(box)) {
-    return false;
-  }
-
-  return true;
+  return item.orientations.some((orientation) =>
+    fitsInsideBox([0, 0, 0], orientation, box),
+  );
 }
 
-function itemFitsInPackedBox(
+/**
+ * Try to add an item to a box that is already open. Returns false, leaving
+ * the box untouched, when the item is too heavy, has no free space or may
+ * not share the box with its contents under the hazmat segregation rules.
+ */
+function tryPackIntoBox(
   item: PackableItem,
-  packedBox: PackedBox,
+  state: PackingState,
+  segregation: HazmatSegregationConfig,
 ): boolean {
-  // Check remaining weight capacity
+  if (
+    !state.items.every((packed) =>
+      canShareBox(item.hazmat, packed.hazmat, segregation),
+    )
+  ) {
+    return false;
+  }
+
   const remainingWeight =
-    getEffectiveWeightCapacity(packedBox.box) - packedBox.itemWeightLbs;
+    getEffectiveWeightCapacity(state.packed.box) - state.packed.itemWeightLbs;
   if (item.weightLbs > remainingWeight) {
     return false;
   }
 
   // If no dimensions, weight check is sufficient
   if (!item.dimensions.hasValidDimensions) {
+    addItemWeight(item, state);
     return true;
   }
 
-  // Check height
-  if (item.dimensions.height > packedBox.box.height) {
-    return false;
-  }
-
-  // Check remaining floor area
-  const remainingArea =
-    getEffectiveFloorArea(packedBox.box) - packedBox.usedFloorArea;
-  if (item.floorArea > remainingArea) {
+  const placement = findPlacement(item, state);
+  if (!placement) {
     return false;
   }
 
+  addItemToBox(item, state, placement.point, placement.orientation);
+  addItemWeight(item, state);
   return true;
 }
 
-export function packItems(
-  items: ShopifyCartItem[],
-  boxConfigs: BoxConfig[] = BOX_CONFIGS,
-): PackedBox[] {
-  if (items.length === 0) {
-    return [];
-  }
-
-  if (boxConfigs.length === 0) {
-    throw new Error("No box configurations available");
-  }
-
-  // Sort boxes by floor area (smallest first for efficient selection)
-  const boxesByAreaAsc = [...boxConfigs].sort(
-    (a, b) => a.length * a.width - b.length * b.width,
-  );
-  const largestBox = boxesByAreaAsc[boxesByAreaAsc.length - 1];
+function openBox(box: BoxConfig): PackingState {
+  return {
+    packed: {
+      box,
+      itemWeightLbs: 0,
+      totalWeightLbs: box.emptyWeightLbs,
+      usedFloorArea: 0,
+      placements: [],
+      hazmat: [],
+    },
+    points: [[0, 0, 0]],
+    items: [],
+  };
+}
 
+function toPackableItems(items: ShopifyCartItem[]): PackableItem[] {
   // Expand items by quantity and extract dimensions
   const packableItems: PackableItem[] = [];
   for (const item of items) {
     const weightPerUnit = gramsToLbs(item.grams);
     const dimensions = extractItemDimensions(item);
-    const floorArea = dimensions.hasValidDimensions
-      ? dimensions.length * dimensions.width
+    const volume = dimensions.hasValidDimensions
+      ? dimensions.length * dimensions.width * dimensions.height
       : 0;
+    const orientations = dimensions.hasValidDimensions
+      ? getOrientations(dimensions, isThisSideUp(item))
+      : [];
+    const hazmat = getItemHazmat(item);
 
     for (let i = 0; i < item.quantity; i++) {
       packableItems.push({
+        sku: item.sku,
+        name: item.name,
         weightLbs: weightPerUnit,
         dimensions,
-        floorArea,
+        volume,
+        orientations,
+        hazmat,
       });
     }
   }
+  return sortLargestFirst(packableItems);
+}
 
-  // Sort by floor area descending (largest items first), then by weight
-  packableItems.sort((a, b) => {
-    if (b.floorArea !== a.floorArea) {
-      return b.floorArea - a.floorArea;
+function sortLargestFirst(items: PackableItem[]): PackableItem[] {
+  // Sort by volume descending (largest items first), then by weight
+  return [...items].sort((a, b) => {
+    if (b.volume !== a.volume) {
+      return b.volume - a.volume;
     }
     return b.weightLbs - a.weightLbs;
   });
+}
 
-  const packedBoxes: PackedBox[] = [];
-
-  for (const item of packableItems) {
-    let placed = false;
+/**
+ * 3D first-fit decreasing packing. Each item is placed as an oriented cuboid
+ * at the first free extreme point of an open box, stacking on top of fully
+ * supporting items; when no open box has room a new one is opened using the
+ * first box in boxPreference that the item fits in, falling back to any box
+ * in allBoxes. Every item must fit at least one box.
+ */
+function packFirstFit(
+  items: PackableItem[],
+  boxPreference: BoxConfig[],
+  allBoxes: BoxConfig[],
+  segregation: HazmatSegregationConfig,
+): PackingState[] {
+  const states: PackingState[] = [];
 
+  for (const item of items) {
     // Try to fit in existing boxes
-    for (const packedBox of packedBoxes) {
-      if (itemFitsInPackedBox(item, packedBox)) {
-        packedBox.itemWeightLbs += item.weightLbs;
-        packedBox.totalWeightLbs += item.weightLbs;
-        packedBox.usedFloorArea += item.floorArea;
-        placed = true;
-        break;
-      }
+    if (states.some((state) => tryPackIntoBox(item, state, segregation))) {
+      continue;
     }
 
     // Need a new box
-    if (!placed) {
-      const suitableBox = boxesByAreaAsc.find((box) =>
-        itemFitsInBox(item, box),
-      );
-
-      const boxToUse = suitableBox || largestBox;
-      packedBoxes.push({
-        box: boxToUse,
-        itemWeightLbs: item.weightLbs,
-        totalWeightLbs: boxToUse.emptyWeightLbs + item.weightLbs,
-        usedFloorArea: item.floorArea,
-      });
+    const suitableBox =
+      boxPreference.find((box) => itemFitsInBox(item, box)) ??
+      allBoxes.find((box) => itemFitsInBox(item, box));
+    if (!suitableBox) {
+      throw new Error(`Item ${item.sku} does not fit any box`);
+    }
+    const state = openBox(suitableBox);
+    states.push(state);
+    tryPackIntoBox(item, state, segregation);
+  }
+
+  return states;
+}
+
+function getOwnContainerReason(
+  item: PackableItem,
+  boxes: BoxConfig[],
+): SpecialHandlingReason {
+  const tooHeavy = boxes.every(
+    (box) => item.weightLbs > getEffectiveWeightCapacity(box),
+  );
+  return tooHeavy ? "overweight" : "oversize";
+}
+
+/**
+ * Ship an item that fits none of our boxes in its own packaging, sized from
+ * its _length/_width/_height. Without dimensions we can only assume it is
+ * no bigger than our largest box.
+ */
+function packInOwnContainer(
+  item: PackableItem,
+  reason: SpecialHandlingReason,
+  largestBox: BoxConfig,
+): PackingState {
+  const [length, width, height] = item.dimensions.hasValidDimensions
+    ? item.orientations[0]
+    : [largestBox.length, largestBox.width, largestBox.height];
+
+  const state = openBox({
+    name: OWN_CONTAINER_BOX_NAME,
+    length: Math.ceil(length),
+    width: Math.ceil(width),
+    height: Math.ceil(height),
+    maxWeightLbs: item.weightLbs,
+    emptyWeightLbs: 0,
+  });
+  if (item.dimensions.hasValidDimensions) {
+    addItemToBox(item, state, [0, 0, 0], item.orientations[0]);
+  }
+  addItemWeight(item, state);
+  state.packed.ownContainer = { sku: item.sku, name: item.name, reason };
+  return state;
+}
+
+/**
+ * Re-pack a set of items into a single box of the given type.
+ * Returns null when they do not all fit.
+ */
+function packIntoSingleBox(
+  items: PackableItem[],
+  box: BoxConfig,
+  segregation: HazmatSegregationConfig,
+): PackingState | null {
+  const state = openBox(box);
+  for (const item of sortLargestFirst(items)) {
+    if (!tryPackIntoBox(item, state, segregation)) {
+      return null;
     }
   }
+  return state;
+}
 
-  return packedBoxes;
+/**
+ * Estimated cost of shipping a plan: billable weight (the greater of actual
+ * and dimensional weight per box) at a flat per-pound rate, plus materials.
+ */
+export function estimatePackingCostCents(packedBoxes: PackedBox[]): number {
+  const billableWeightLbs = calculateBillableWeightLbs(
+    packedBoxesToFedExPackages(packedBoxes),
+  );
+  const materialCents = packedBoxes.reduce(
+    (sum, packed) => sum + (packed.box.materialCostCents ?? 0),
+    0,
+  );
+  return billableWeightLbs * PACKING_COST_PER_BILLABLE_LB_CENTS + materialCents;
+}
+
+function planCost(states: PackingState[]): number {
+  return estimatePackingCostCents(states.map((state) => state.packed));
+}
+
+/**
+ * Search for a cheaper plan than greedy first-fit: open the largest boxes
+ * first, use a single box type throughout, then repeatedly merge pairs of
+ * boxes into one box of any type, and shrink each box to the cheapest type
+ * that holds its contents. The greedy plan is the first candidate, so when
+ * the time budget runs out the best plan found so far is never worse.
+ */
+function packCostOptimized(
+  items: PackableItem[],
+  boxesByAreaAsc: BoxConfig[],
+  deadline: number,
+  now: () => number,
+  segregation: HazmatSegregationConfig,
+): PackingState[] {
+  let best = packFirstFit(items, boxesByAreaAsc, boxesByAreaAsc, segregation);
+  let bestCost = planCost(best);
+
+  const consider = (candidate: PackingState[]) => {
+    const cost = planCost(candidate);
+    if (cost < bestCost) {
+      best = candidate;
+      bestCost = cost;
+    }
+  };
+
+  const alternatives: BoxConfig[][] = [
+    [...boxesByAreaAsc].reverse(),
+    ...boxesByAreaAsc.map((box) => [box]),
+  ];
+  for (const boxPreference of alternatives) {
+    if (now() > deadline) return best;
+    consider(packFirstFit(items, boxPreference, boxesByAreaAsc, segregation));
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+
+    // Merge two boxes into one
+    for (let i = 0; i < best.length && !improved; i++) {
+      for (let j = i + 1; j < best.length && !improved; j++) {
+        if (now() > deadline) return best;
+        const merged = [...best[i].items, ...best[j].items];
+        for (const box of boxesByAreaAsc) {
+          const state = packIntoSingleBox(merged, box, segregation);
+          if (!state) continue;
+          const candidate = best.filter((_, k) => k !== i && k !== j);
+          candidate.push(state);
+          const before = bestCost;
+          consider(candidate);
+          if (bestCost < before) {
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+
+    // Move each box's contents into a cheaper box type
+    for (let i = 0; i < best.length && !improved; i++) {
+      if (now() > deadline) return best;
+      for (const box of boxesByAreaAsc) {
+        if (box === best[i].packed.box) continue;
+        const state = packIntoSingleBox(best[i].items, box, segregation);
+        if (!state) continue;
+        const before = bestCost;
+        consider(best.map((existing, k) => (k === i ? state : existing)));
+        if (bestCost < before) {
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+export function packItems(
+  items: ShopifyCartItem[],
+  boxConfigs: BoxConfig[] = BOX_CONFIGS,
+  options: PackingOptions = {},
+): PackedBox[] {
+  if (items.length === 0) {
+    return [];
+  }
+
+  if (boxConfigs.length === 0) {
+    throw new Error("No box configurations available");
+  }
+
+  // Sort boxes by floor area (smallest first for efficient selection)
+  const boxesByAreaAsc = [...boxConfigs].sort(
+    (a, b) => a.length * a.width - b.length * b.width,
+  );
+  const largestBox = boxesByAreaAsc[boxesByAreaAsc.length - 1];
+
+  // Items that fit none of our boxes ship on their own
+  const boxedItems: PackableItem[] = [];
+  const ownContainers: PackingState[] = [];
+  for (const item of toPackableItems(items)) {
+    if (boxesByAreaAsc.some((box) => itemFitsInBox(item, box))) {
+      boxedItems.push(item);
+    } else {
+      const reason = getOwnContainerReason(item, boxesByAreaAsc);
+      ownContainers.push(packInOwnContainer(item, reason, largestBox));
+    }
+  }
+
+  const segregation = options.segregation ?? HAZMAT_SEGREGATION;
+  let states: PackingState[];
+  if (options.mode === "cost_optimized") {
+    const now = options.now ?? Date.now;
+    const deadline = now() + (options.timeBudgetMs ?? PACKING_TIME_BUDGET_MS);
+    states = packCostOptimized(
+      boxedItems,
+      boxesByAreaAsc,
+      deadline,
+      now,
+      segregation,
+    );
+  } else {
+    states = packFirstFit(
+      boxedItems,
+      boxesByAreaAsc,
+      boxesByAreaAsc,
+      segregation,
+    );
+  }
+
+  return [...states, ...ownContainers].map((state) => state.packed);
+}
+
+export function getPackingMode(value: string | undefined): PackingMode {
+  return value === "cost_optimized" ? "cost_optimized" : "greedy";
 }
 
 export function packedBoxesToFedExPackages(
   packedBoxes: PackedBox[],
 ): FedExPackageLineItem[] {
-  return packedBoxes.map((packed) => ({
-    weight: {
-      units: "LB",
-      value: Math.round(packed.totalWeightLbs * 100) / 100,
-    },
-    dimensions: {
-      length: packed.box.length,
-      width: packed.box.width,
-      height: packed.box.height,
-      units: "IN",
-    },
-    groupPackageCount: 1,
-  }));
+  return packedBoxes.map((packed) => {
+    const pkg: FedExPackageLineItem = {
+      weight: {
+        units: "LB",
+        value: Math.round(packed.totalWeightLbs * 100) / 100,
+      },
+      dimensions: {
+        length: packed.box.length,
+        width: packed.box.width,
+        height: packed.box.height,
+        units: "IN",
+      },
+      groupPackageCount: 1,
+    };
+    const specialServices = buildPackageSpecialServices(packed.hazmat);
+    if (specialServices) {
+      pkg.packageSpecialServices = specialServices;
+    }
+    return pkg;
+  });
+}
+
+/**
+ * Check a single unit of an item against the FedEx parcel limits: weight,
+ * and length (longest side) plus girth (twice the other two sides).
+ */
+export function getParcelLimitReason(
+  item: ShopifyCartItem,
+): SpecialHandlingReason | null {
+  if (gramsToLbs(item.grams) > FEDEX_PARCEL_MAX_WEIGHT_LBS) {
+    return "parcel_weight_limit";
+  }
+
+  const dimensions = extractItemDimensions(item);
+  if (dimensions.hasValidDimensions) {
+    const [length, ...others] = [
+      dimensions.length,
+      dimensions.width,
+      dimensions.height,
+    ].sort((a, b) => b - a);
+    const girth = 2 * (others[0] + others[1]);
+    if (length + girth > FEDEX_PARCEL_MAX_LENGTH_PLUS_GIRTH_IN) {
+      return "parcel_size_limit";
+    }
+  }
+
+  return null;
+}
+
+export function describeSpecialHandling(item: SpecialHandlingItem): string {
+  switch (item.reason) {
+    case "overweight":
+      return `${item.name} ships in its own container (too heavy for our boxes)`;
+    case "oversize":
+      return `${item.name} ships in its own container (too large for our boxes)`;
+    case "parcel_weight_limit":
+      return `${item.name} exceeds the ${FEDEX_PARCEL_MAX_WEIGHT_LBS} lb parcel limit`;
+    case "parcel_size_limit":
+      return `${item.name} exceeds the ${FEDEX_PARCEL_MAX_LENGTH_PLUS_GIRTH_IN} in length + girth parcel limit`;
+  }
+}
+
+/**
+ * Pack the shippable items in a cart. Items over the FedEx parcel limits
+ * are not packed; they are returned as freightItems for an LTL quote.
+ */
+export function planCartPackaging(
+  items: ShopifyCartItem[],
+  boxConfigs: BoxConfig[] = BOX_CONFIGS,
+  options: PackingOptions = {},
+): CartPackingPlan {
+  const parcelItems: ShopifyCartItem[] = [];
+  const freightItems: SpecialHandlingItem[] = [];
+
+  for (const item of items.filter((i) => i.requires_shipping)) {
+    const reason = getParcelLimitReason(item);
+    if (reason) {
+      freightItems.push({ sku: item.sku, name: item.name, reason });
+    } else {
+      parcelItems.push(item);
+    }
+  }
+
+  const packedBoxes = packItems(parcelItems, boxConfigs, options);
+  return {
+    packedBoxes,
+    packages: packedBoxesToFedExPackages(packedBoxes),
+    ownContainerItems: packedBoxes.flatMap((packed) =>
+      packed.ownContainer ? [packed.ownContainer] : [],
+    ),
+    freightItems,
+  };
 }
 
 export function getPackagesForCart(
   items: ShopifyCartItem[],
   boxConfigs: BoxConfig[] = BOX_CONFIGS,
+  options: PackingOptions = {},
 ): FedExPackageLineItem[] {
   const shippableItems = items.filter((item) => item.requires_shipping);
 
@@ -247,6 +785,6 @@ export function getPackagesForCart(
     return [];
   }
 
-  const packedBoxes = packItems(shippableItems, boxConfigs);
+  const packedBoxes = packItems(shippableItems, boxConfigs, options);
   return packedBoxesToFedExPackages(packedBoxes);
 }
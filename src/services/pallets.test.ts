@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { buildPalletPlan } from "./pallets";
+import type { PackedBox } from "./packaging";
+import type { PalletConfig } from "../types";
+
+const PALLET: PalletConfig = {
+  length: 48,
+  width: 40,
+  height: 6,
+  maxHeight: 72,
+  tareWeightLbs: 50,
+};
+
+function createBox(
+  length: number,
+  width: number,
+  height: number,
+  totalWeightLbs: number,
+): PackedBox {
+  return {
+    box: {
+      name: "test",
+      length,
+      width,
+      height,
+      maxWeightLbs: 100,
+      emptyWeightLbs: 2,
+    },
+    totalWeightLbs,
+    itemWeightLbs: totalWeightLbs - 2,
+    usedFloorArea: 0,
+    placements: [],
+    hazmat: [],
+  };
+}
+
+function boxes(count: number): PackedBox[] {
+  return Array.from({ length: count }, () => createBox(15, 15, 9, 40));
+}
+
+describe("buildPalletPlan", () => {
+  it("fills a layer in rows before stacking the next layer", () => {
+    // Three 15 in boxes per 48 in row, two rows across 40 in
+    const pallets = buildPalletPlan(boxes(8), PALLET);
+
+    expect(pallets).toHaveLength(1);
+    expect(pallets[0]).toMatchObject({
+      length: 48,
+      width: 40,
+      height: 6 + 9 + 9,
+      weightLbs: 50 + 8 * 40,
+    });
+    expect(pallets[0].boxes).toHaveLength(8);
+  });
+
+  it("starts another pallet when the stack would exceed the max height", () => {
+    const pallets = buildPalletPlan(boxes(13), { ...PALLET, maxHeight: 24 });
+
+    expect(pallets.map((p) => p.boxes.length)).toEqual([12, 1]);
+    expect(pallets.map((p) => p.height)).toEqual([24, 15]);
+  });
+
+  it("turns boxes to fit the footprint", () => {
+    const pallets = buildPalletPlan([createBox(20, 45, 10, 30)], PALLET);
+
+    expect(pallets).toHaveLength(1);
+    expect(pallets[0].length).toBe(48);
+  });
+
+  it("puts boxes larger than the pallet on a pallet of their own", () => {
+    const pallets = buildPalletPlan(
+      [createBox(60, 10, 10, 30), ...boxes(2)],
+      PALLET,
+    );
+
+    expect(pallets).toHaveLength(2);
+    expect(pallets[1]).toMatchObject({
+      length: 60,
+      width: 40,
+      height: 16,
+      weightLbs: 80,
+    });
+  });
+
+  it("returns no pallets for no boxes", () => {
+    expect(buildPalletPlan([], PALLET)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import type { PalletConfig } from "../types";
+import type { PackedBox } from "./packaging";
+
+// Tolerance for floating point comparisons of dimensions (inches)
+const EPSILON = 1e-6;
+
+/**
+ * A loaded pallet (LTL handling unit). Dimensions are those of the whole
+ * unit, so height includes the pallet deck and weight includes its tare.
+ */
+export interface Pallet {
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+  boxes: PackedBox[];
+}
+
+// Boxes in a layer are placed in rows across the pallet width
+interface Row {
+  depth: number;
+  usedLength: number;
+}
+
+interface Layer {
+  height: number;
+  rows: Row[];
+}
+
+interface PalletState {
+  pallet: Pallet;
+  layers: Layer[];
+}
+
+function footprints(box: PackedBox): [number, number][] {
+  const { length, width } = box.box;
+  return [
+    [length, width],
+    [width, length],
+  ];
+}
+
+function tryPlaceInLayer(
+  layer: Layer,
+  box: PackedBox,
+  config: PalletConfig,
+): boolean {
+  if (box.box.height > layer.height + EPSILON) {
+    return false;
+  }
+
+  for (const [length, width] of footprints(box)) {
+    for (const row of layer.rows) {
+      if (
+        width <= row.depth + EPSILON &&
+        row.usedLength + length <= config.length + EPSILON
+      ) {
+        row.usedLength += length;
+        return true;
+      }
+    }
+
+    const usedWidth = layer.rows.reduce((sum, row) => sum + row.depth, 0);
+    if (
+      length <= config.length + EPSILON &&
+      usedWidth + width <= config.width + EPSILON
+    ) {
+      layer.rows.push({ depth: width, usedLength: length });
+      return true;
+    }
+  }
+  return false;
+}
+
+function stackHeight(state: PalletState): number {
+  return state.layers.reduce((sum, layer) => sum + layer.height, 0);
+}
+
+function tryPlaceOnPallet(
+  state: PalletState,
+  box: PackedBox,
+  config: PalletConfig,
+): boolean {
+  if (!state.layers.some((layer) => tryPlaceInLayer(layer, box, config))) {
+    // Start a new layer on top, as tall as this box
+    if (
+      config.height + stackHeight(state) + box.box.height >
+      config.maxHeight + EPSILON
+    ) {
+      return false;
+    }
+    const layer: Layer = { height: box.box.height, rows: [] };
+    if (!tryPlaceInLayer(layer, box, config)) {
+      return false;
+    }
+    state.layers.push(layer);
+  }
+
+  state.pallet.boxes.push(box);
+  state.pallet.weightLbs += box.totalWeightLbs;
+  state.pallet.height = config.height + stackHeight(state);
+  return true;
+}
+
+function emptyPallet(config: PalletConfig): PalletState {
+  return {
+    pallet: {
+      length: config.length,
+      width: config.width,
+      height: config.height,
+      weightLbs: config.tareWeightLbs,
+      boxes: [],
+    },
+    layers: [],
+  };
+}
+
+function fitsOnPallet(box: PackedBox, config: PalletConfig): boolean {
+  return (
+    config.height + box.box.height <= config.maxHeight + EPSILON &&
+    footprints(box).some(
+      ([length, width]) =>
+        length <= config.length + EPSILON && width <= config.width + EPSILON,
+    )
+  );
+}
+
+/**
+ * Stack packed boxes onto pallets in layers, tallest boxes first. A layer
+ * is as tall as its first box and is filled in rows; a box that is larger
+ * than the pallet footprint or too tall to stack rides alone on a pallet
+ * sized to it.
+ */
+export function buildPalletPlan(
+  packedBoxes: PackedBox[],
+  config: PalletConfig,
+): Pallet[] {
+  const sorted = [...packedBoxes].sort(
+    (a, b) =>
+      b.box.height - a.box.height ||
+      b.box.length * b.box.width - a.box.length * a.box.width,
+  );
+
+  const states: PalletState[] = [];
+  const oversized: Pallet[] = [];
+
+  for (const box of sorted) {
+    if (!fitsOnPallet(box, config)) {
+      oversized.push({
+        length: Math.max(config.length, box.box.length),
+        width: Math.max(config.width, box.box.width),
+        height: config.height + box.box.height,
+        weightLbs: config.tareWeightLbs + box.totalWeightLbs,
+        boxes: [box],
+      });
+      continue;
+    }
+
+    if (states.some((state) => tryPlaceOnPallet(state, box, config))) {
+      continue;
+    }
+
+    const state = emptyPallet(config);
+    tryPlaceOnPallet(state, box, config);
+    states.push(state);
+  }
+
+  return [...states.map((state) => state.pallet), ...oversized];
+}
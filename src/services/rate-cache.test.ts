@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  buildRateCacheKey,
+  getCachedRates,
+  putCachedRates,
+  getRateCacheTtlSeconds,
+  type RateCacheKeyInput,
+} from "./rate-cache";
+import { createLogger } from "./logger";
+import type { Env, CarrierRate, FedExPackageLineItem } from "../types";
+
+const logger = createLogger(false);
+
+function createPackage(weight: number): FedExPackageLineItem {
+  return {
+    weight: { units: "LB", value: weight },
+    dimensions: { length: 15, width: 15, height: 9, units: "IN" },
+    groupPackageCount: 1,
+  };
+}
+
+function createKeyInput(
+  overrides: Partial<RateCacheKeyInput> = {},
+): RateCacheKeyInput {
+  return {
+    originZip: "33172-2831",
+    destinationZip: "85937",
+    destinationCountry: "US",
+    residential: false,
+    packages: [createPackage(10), createPackage(20)],
+    includeHazmat: true,
+    shipDate: "2026-03-02",
+    ...overrides,
+  };
+}
+
+const RATES: CarrierRate[] = [
+  {
+    carrier: "fedex",
+    serviceType: "FEDEX_GROUND",
+    serviceName: "FedEx Ground",
+    totalChargeCents: 2500,
+    transitDays: 3,
+    deliveryDate: null,
+    deliveryTimestamp: null,
+    deliveryDayOfWeek: null,
+  },
+];
+
+function createEnv(overrides: Partial<Env> = {}) {
+  const store = new Map<string, string>();
+  const kv = {
+    get: vi.fn(async (key: string) => {
+      const value = store.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+  };
+  const env: Env = {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123",
+    RATE_CACHE: kv as unknown as KVNamespace,
+    ...overrides,
+  };
+  return { env, kv };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("buildRateCacheKey", () => {
+  it("is stable for the same shipment", async () => {
+    const a = await buildRateCacheKey(createKeyInput());
+    const b = await buildRateCacheKey(createKeyInput());
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^rates:[0-9a-f]{64}$/);
+  });
+
+  it("normalizes zip+4 codes and package order", async () => {
+    const a = await buildRateCacheKey(createKeyInput());
+    const b = await buildRateCacheKey(
+      createKeyInput({
+        originZip: "33172",
+        packages: [createPackage(20), createPackage(10)],
+      }),
+    );
+
+    expect(a).toBe(b);
+  });
+
+  it("changes when any quoted field changes", async () => {
+    const base = await buildRateCacheKey(createKeyInput());
+    const variants: Partial<RateCacheKeyInput>[] = [
+      { destinationZip: "85938" },
+      { destinationCountry: "CA" },
+      { residential: true },
+      { packages: [createPackage(10)] },
+      { includeHazmat: false },
+      { shipDate: "2026-03-03" },
+      { paymentType: "RECIPIENT" },
+      { payorAccount: "222222222" },
+      { carriers: ["fedex", "ups"] },
+      { services: ["FEDEX_GROUND"] },
+    ];
+
+    for (const variant of variants) {
+      expect(await buildRateCacheKey(createKeyInput(variant))).not.toBe(base);
+    }
+  });
+});
+
+describe("getRateCacheTtlSeconds", () => {
+  it("defaults to 15 minutes", () => {
+    const { env } = createEnv();
+    expect(getRateCacheTtlSeconds(env)).toBe(900);
+  });
+
+  it("uses the configured TTL", () => {
+    const { env } = createEnv({ RATE_CACHE_TTL_SECONDS: "300" });
+    expect(getRateCacheTtlSeconds(env)).toBe(300);
+  });
+
+  it("clamps to the KV minimum of 60 seconds", () => {
+    const { env } = createEnv({ RATE_CACHE_TTL_SECONDS: "10" });
+    expect(getRateCacheTtlSeconds(env)).toBe(60);
+  });
+});
+
+describe("getCachedRates / putCachedRates", () => {
+  it("returns null on a miss and logs it", async () => {
+    const { env } = createEnv();
+
+    expect(await getCachedRates(env, "rates:abc", logger)).toBeNull();
+    expect(console.log).toHaveBeenCalledWith("Rate cache miss", { key: "rates:abc" });
+  });
+
+  it("round-trips rates with the configured TTL", async () => {
+    const { env, kv } = createEnv({ RATE_CACHE_TTL_SECONDS: "120" });
+
+    await putCachedRates(env, "rates:abc", RATES, logger);
+    const cached = await getCachedRates(env, "rates:abc", logger);
+
+    expect(cached).toEqual(RATES);
+    expect(kv.put).toHaveBeenCalledWith("rates:abc", expect.any(String), {
+      expirationTtl: 120,
+    });
+    expect(console.log).toHaveBeenCalledWith(
+      "Rate cache hit",
+      expect.objectContaining({ key: "rates:abc" }),
+    );
+  });
+
+  it("does not cache empty results", async () => {
+    const { env, kv } = createEnv();
+
+    await putCachedRates(env, "rates:abc", [], logger);
+    expect(kv.put).not.toHaveBeenCalled();
+  });
+
+  it("is a no-op when no binding is configured", async () => {
+    const { env } = createEnv({ RATE_CACHE: undefined });
+
+    await putCachedRates(env, "rates:abc", RATES, logger);
+    expect(await getCachedRates(env, "rates:abc", logger)).toBeNull();
+  });
+
+  it("treats KV read failures as a miss", async () => {
+    const { env, kv } = createEnv();
+    kv.get.mockRejectedValueOnce(new Error("KV down"));
+
+    expect(await getCachedRates(env, "rates:abc", logger)).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import type {
+  Env,
+  CarrierId,
+  CarrierRate,
+  FedExPackageLineItem,
+  FedExPaymentType,
+} from "../types";
+import {
+  RATE_CACHE_KEY_PREFIX,
+  RATE_CACHE_DEFAULT_TTL_SECONDS,
+  RATE_CACHE_MIN_TTL_SECONDS,
+  LAST_GOOD_RATE_KEY_PREFIX,
+  STALE_RATE_DEFAULT_MAX_AGE_SECONDS,
+} from "../config";
+import type { Logger } from "./logger";
+
+export interface RateCacheKeyInput {
+  originZip: string;
+  destinationZip: string;
+  destinationCountry: string;
+  residential: boolean;
+  packages: FedExPackageLineItem[];
+  includeHazmat: boolean;
+  shipDate: string;
+  paymentType?: FedExPaymentType;
+  // Customer FedEx account billed for own-account quotes
+  payorAccount?: string;
+  carriers?: CarrierId[];
+  // Allowed services, since quotes are filtered by them before caching
+  services?: string[];
+}
+
+interface CachedRates {
+  rates: CarrierRate[];
+  cachedAt: string;
+}
+
+function normalizeZip(postalCode: string): string {
+  return postalCode.trim().toUpperCase().substring(0, 5);
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function normalizeShipment(input: Omit<RateCacheKeyInput, "shipDate">): unknown[] {
+  const packages = input.packages
+    .map((pkg) => [
+      pkg.weight.value,
+      pkg.dimensions.length,
+      pkg.dimensions.width,
+      pkg.dimensions.height,
+      pkg.groupPackageCount,
+      pkg.packageSpecialServices?.dangerousGoodsDetail ?? null,
+    ])
+    .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+
+  return [
+    normalizeZip(input.originZip),
+    normalizeZip(input.destinationZip),
+    input.destinationCountry.trim().toUpperCase(),
+    input.residential,
+    packages,
+    input.includeHazmat,
+    input.paymentType ?? "SENDER",
+    input.payorAccount ?? null,
+    [...(input.carriers ?? ["fedex"])].sort(),
+    [...(input.services ?? [])].sort(),
+  ];
+}
+
+/**
+ * Hash the parts of a shipment that affect the carrier quotes.
+ * Package order is normalized so the same cart always maps to the same key.
+ */
+export async function buildRateCacheKey(
+  input: RateCacheKeyInput,
+): Promise<string> {
+  const normalized = JSON.stringify([...normalizeShipment(input), input.shipDate]);
+  return `${RATE_CACHE_KEY_PREFIX}${await sha256Hex(normalized)}`;
+}
+
+/**
+ * Same as buildRateCacheKey but without the ship date, so a quote from an
+ * earlier day can stand in for the same lane and package profile.
+ */
+export async function buildLaneCacheKey(
+  input: Omit<RateCacheKeyInput, "shipDate">,
+): Promise<string> {
+  const normalized = JSON.stringify(normalizeShipment(input));
+  return `${LAST_GOOD_RATE_KEY_PREFIX}${await sha256Hex(normalized)}`;
+}
+
+export function getRateCacheTtlSeconds(env: Env): number {
+  if (env.RATE_CACHE_TTL_SECONDS) {
+    const parsed = parseInt(env.RATE_CACHE_TTL_SECONDS, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      return Math.max(parsed, RATE_CACHE_MIN_TTL_SECONDS);
+    }
+  }
+  return RATE_CACHE_DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Look up cached rates. Returns null on a miss, when caching is disabled,
+ * or when KV fails; a cache problem never fails the rate request.
+ */
+export async function getCachedRates(
+  env: Env,
+  key: string,
+  logger: Logger,
+): Promise<CarrierRate[] | null> {
+  if (!env.RATE_CACHE) return null;
+
+  try {
+    const cached = await env.RATE_CACHE.get<CachedRates>(key, "json");
+    if (cached) {
+      logger.info("Rate cache hit", { key, cachedAt: cached.cachedAt });
+      return cached.rates;
+    }
+    logger.info("Rate cache miss", { key });
+  } catch (error) {
+    logger.warn("Rate cache read failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return null;
+}
+
+export async function putCachedRates(
+  env: Env,
+  key: string,
+  rates: CarrierRate[],
+  logger: Logger,
+): Promise<void> {
+  if (!env.RATE_CACHE || rates.length === 0) return;
+
+  const entry: CachedRates = { rates, cachedAt: new Date().toISOString() };
+  try {
+    await env.RATE_CACHE.put(key, JSON.stringify(entry), {
+      expirationTtl: getRateCacheTtlSeconds(env),
+    });
+  } catch (error) {
+    logger.warn("Rate cache write failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export function getStaleRateMaxAgeSeconds(env: Env): number {
+  if (env.STALE_RATE_MAX_AGE_SECONDS) {
+    const parsed = parseInt(env.STALE_RATE_MAX_AGE_SECONDS, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      return Math.max(parsed, RATE_CACHE_MIN_TTL_SECONDS);
+    }
+  }
+  return STALE_RATE_DEFAULT_MAX_AGE_SECONDS;
+}
+
+/**
+ * Remember the last successful quote for a lane so it can be reused
+ * when carriers are down. Stored in RATE_CACHE until it is too old to use.
+ */
+export async function putLastGoodRates(
+  env: Env,
+  laneKey: string,
+  rates: CarrierRate[],
+  logger: Logger,
+  now: number = Date.now(),
+): Promise<void> {
+  if (!env.RATE_CACHE || rates.length === 0) return;
+
+  const entry: CachedRates = { rates, cachedAt: new Date(now).toISOString() };
+  try {
+    await env.RATE_CACHE.put(laneKey, JSON.stringify(entry), {
+      expirationTtl: getStaleRateMaxAgeSeconds(env),
+    });
+  } catch (error) {
+    logger.warn("Last-good rate write failed", {
+      laneKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function getLastGoodRates(
+  env: Env,
+  laneKey: string,
+  logger: Logger,
+  now: number = Date.now(),
+): Promise<{ rates: CarrierRate[]; quotedAt: string } | null> {
+  if (!env.RATE_CACHE) return null;
+
+  try {
+    const cached = await env.RATE_CACHE.get<CachedRates>(laneKey, "json");
+    if (!cached) return null;
+
+    const ageSeconds = (now - Date.parse(cached.cachedAt)) / 1000;
+    if (!(ageSeconds <= getStaleRateMaxAgeSeconds(env))) {
+      logger.info("Last-good rates too old to use", {
+        laneKey,
+        quotedAt: cached.cachedAt,
+      });
+      return null;
+    }
+    return { rates: cached.rates, quotedAt: cached.cachedAt };
+  } catch (error) {
+    logger.warn("Last-good rate read failed", {
+      laneKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyRateRules,
+  buildRateRuleContext,
+  getCartSubtotalCents,
+  matchesRateRule,
+  type RateRuleContext,
+} from "./rate-rules";
+import type { RateRule, ShopifyCartItem, ShopifyRate, ShopifyRateRequest } from "../types";
+
+function createRate(serviceCode: string, totalPrice: number): ShopifyRate {
+  return {
+    service_name: serviceCode,
+    service_code: serviceCode,
+    total_price: totalPrice.toString(),
+    currency: "USD",
+    min_delivery_date: "2026-03-26",
+    max_delivery_date: "2026-03-26",
+  };
+}
+
+function createRule(overrides: Partial<RateRule> = {}): RateRule {
+  return {
+    name: "rule",
+    priority: 10,
+    conditions: {},
+    action: { type: "markup_percent", percent: 10 },
+    ...overrides,
+  };
+}
+
+function createCartItem(overrides: Partial<ShopifyCartItem> = {}): ShopifyCartItem {
+  return {
+    name: "Paint",
+    sku: "PAINT-1",
+    quantity: 1,
+    grams: 5000,
+    price: 5000,
+    vendor: "JDL",
+    requires_shipping: true,
+    taxable: true,
+    fulfillment_service: "manual",
+    properties: {},
+    product_id: 1,
+    variant_id: 1,
+    ...overrides,
+  };
+}
+
+const CONTEXT: RateRuleContext = {
+  routeType: "domestic",
+  customerType: "standard",
+  subtotalCents: 25000,
+  destinationState: "AZ",
+  destinationCountry: "US",
+  skus: new Set(["PAINT-1"]),
+  vendors: new Set(["JDL"]),
+  customerAccountBilled: false,
+};
+
+const prices = (rates: ShopifyRate[]) => rates.map((rate) => rate.total_price);
+
+describe("getCartSubtotalCents", () => {
+  it("sums unit price times quantity", () => {
+    expect(
+      getCartSubtotalCents([
+        createCartItem({ price: 5000, quantity: 2 }),
+        createCartItem({ price: 1250 }),
+      ]),
+    ).toBe(11250);
+  });
+});
+
+describe("buildRateRuleContext", () => {
+  it("reads the route, destination and cart", () => {
+    const request = {
+      rate: {
+        destination: { province: "az", country: "us" },
+        items: [createCartItem({ sku: "A", vendor: "Acme", quantity: 3 })],
+      },
+    } as unknown as ShopifyRateRequest;
+
+    expect(
+      buildRateRuleContext(request, {
+        routeType: "domestic",
+        customerType: "standard",
+        isInternational: false,
+      }),
+    ).toEqual({
+      routeType: "domestic",
+      customerType: "standard",
+      subtotalCents: 15000,
+      destinationState: "AZ",
+      destinationCountry: "US",
+      skus: new Set(["A"]),
+      vendors: new Set(["Acme"]),
+      customerAccountBilled: false,
+    });
+  });
+});
+
+describe("matchesRateRule", () => {
+  const matches = (conditions: RateRule["conditions"], service = "FEDEX_GROUND") =>
+    matchesRateRule(createRule({ conditions }), service, CONTEXT);
+
+  it("matches everything without conditions", () => {
+    expect(matches({})).toBe(true);
+  });
+
+  it("requires every listed condition to match", () => {
+    expect(matches({ services: ["FEDEX_GROUND"], destinationStates: ["az"] })).toBe(true);
+    expect(matches({ services: ["FEDEX_GROUND"], destinationStates: ["FL"] })).toBe(false);
+    expect(matches({ services: ["FEDEX_2_DAY"] })).toBe(false);
+    expect(matches({ routeTypes: ["international_military"] })).toBe(false);
+    expect(matches({ customerTypes: ["standard"], destinationCountries: ["US"] })).toBe(true);
+  });
+
+  it("matches split-shipment rates by the service they combine", () => {
+    expect(matches({ services: ["FEDEX_2_DAY"] }, "FEDEX_2_DAY_SPLIT")).toBe(true);
+    expect(matches({ services: ["FEDEX_GROUND"] }, "FEDEX_2_DAY_SPLIT")).toBe(false);
+  });
+
+  it("bounds the subtotal inclusively", () => {
+    expect(matches({ minSubtotalCents: 25000 })).toBe(true);
+    expect(matches({ minSubtotalCents: 25001 })).toBe(false);
+    expect(matches({ maxSubtotalCents: 24999 })).toBe(false);
+  });
+
+  it("matches skus and vendors on any cart item", () => {
+    expect(matches({ skus: ["OTHER", "PAINT-1"] })).toBe(true);
+    expect(matches({ vendors: ["Acme"] })).toBe(false);
+  });
+});
+
+describe("applyRateRules", () => {
+  const rates = [createRate("FEDEX_GROUND", 2000), createRate("FEDEX_2_DAY", 5000)];
+
+  it("returns the rates unchanged without rules", () => {
+    expect(applyRateRules(rates, [], CONTEXT)).toBe(rates);
+  });
+
+  it("applies each action", () => {
+    const apply = (action: RateRule["action"]) =>
+      prices(applyRateRules(rates, [createRule({ action })], CONTEXT));
+
+    expect(apply({ type: "markup_percent", percent: 15 })).toEqual(["2300", "5750"]);
+    expect(apply({ type: "markup_fixed", cents: 500 })).toEqual(["2500", "5500"]);
+    expect(apply({ type: "discount_percent", percent: 25 })).toEqual(["1500", "3750"]);
+    expect(apply({ type: "discount_fixed", cents: 3000 })).toEqual(["0", "2000"]);
+    expect(apply({ type: "free_shipping" })).toEqual(["0", "0"]);
+    expect(apply({ type: "price_floor", cents: 2500 })).toEqual(["2500", "5000"]);
+    expect(apply({ type: "price_ceiling", cents: 2500 })).toEqual(["2000", "2500"]);
+    expect(apply({ type: "hide_service" })).toEqual([]);
+  });
+
+  it("stacks matching rules in priority order", () => {
+    const rules = [
+      createRule({ priority: 20, action: { type: "discount_fixed", cents: 500 } }),
+      createRule({ priority: 10, action: { type: "markup_percent", percent: 10 } }),
+    ];
+
+    // (2000 * 1.1) - 500, not (2000 - 500) * 1.1
+    expect(prices(applyRateRules(rates.slice(0, 1), rules, CONTEXT))).toEqual(["1700"]);
+  });
+
+  it("compounds percentages and bounds only the rules before a floor", () => {
+    const rules = [
+      createRule({ priority: 1, action: { type: "discount_percent", percent: 50 } }),
+      createRule({ priority: 2, action: { type: "price_floor", cents: 1500 } }),
+      createRule({ priority: 3, action: { type: "discount_percent", percent: 50 } }),
+    ];
+
+    expect(prices(applyRateRules(rates, rules, CONTEXT))).toEqual(["750", "1250"]);
+  });
+
+  it("keeps the listed order for equal priorities", () => {
+    const rules = [
+      createRule({ action: { type: "markup_fixed", cents: 1000 } }),
+      createRule({ action: { type: "price_ceiling", cents: 2500 } }),
+    ];
+
+    expect(prices(applyRateRules(rates.slice(0, 1), rules, CONTEXT))).toEqual(["2500"]);
+  });
+
+  it("stops after free shipping or a rule with stop set", () => {
+    const markup = createRule({ priority: 50, action: { type: "markup_fixed", cents: 999 } });
+    const free = createRule({
+      priority: 1,
+      conditions: { minSubtotalCents: 20000, services: ["FEDEX_GROUND"] },
+      action: { type: "free_shipping" },
+    });
+    const stop = createRule({
+      priority: 2,
+      conditions: { services: ["FEDEX_2_DAY"] },
+      action: { type: "discount_fixed", cents: 1000 },
+      stop: true,
+    });
+
+    expect(prices(applyRateRules(rates, [markup, stop, free], CONTEXT))).toEqual([
+      "0",
+      "4000",
+    ]);
+  });
+
+  it("hides a service even after other rules adjusted it", () => {
+    const rules = [
+      createRule({ priority: 1 }),
+      createRule({ priority: 2, conditions: { services: ["FEDEX_2_DAY"] }, action: { type: "hide_service" } }),
+    ];
+
+    expect(applyRateRules(rates, rules, CONTEXT).map((rate) => rate.service_code)).toEqual([
+      "FEDEX_GROUND",
+    ]);
+  });
+
+  it("leaves rates billed to the customer's own FedEx account unchanged", () => {
+    const ownAccountRates = [createRate("FEDEX_GROUND", 0)];
+    const rules = [createRule({ action: { type: "markup_fixed", cents: 500 } })];
+
+    expect(
+      applyRateRules(ownAccountRates, rules, { ...CONTEXT, customerAccountBilled: true }),
+    ).toBe(ownAccountRates);
+  });
+
+  it("appends rule descriptions to the rate description", () => {
+    const [rate] = applyRateRules(
+      [{ ...createRate("FEDEX_GROUND", 2000), description: "Delivery by Thu, Mar 26" }],
+      [createRule({ action: { type: "free_shipping" }, description: "Free shipping over $200" })],
+      CONTEXT,
+    );
+
+    expect(rate.description).toBe("Delivery by Thu, Mar 26 · Free shipping over $200");
+  });
+});
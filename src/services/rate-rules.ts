@@ -0,0 +1,171 @@
+import type {
+  CustomerType,
+  RateRule,
+  RateRuleAction,
+  RouteType,
+  ShopifyCartItem,
+  ShopifyRate,
+  ShopifyRateRequest,
+} from "../types";
+import { SPLIT_SERVICE_CODE_SUFFIX } from "../config";
+import type { RouteDecision } from "./routing";
+
+export interface RateRuleContext {
+  routeType: RouteType;
+  customerType: CustomerType;
+  subtotalCents: number;
+  destinationState: string;
+  destinationCountry: string;
+  skus: Set<string>;
+  vendors: Set<string>;
+  // Freight is billed to the customer's own FedEx account, so our rules
+  // must not price the $0 rates
+  customerAccountBilled: boolean;
+}
+
+export function getCartSubtotalCents(items: ShopifyCartItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+export function buildRateRuleContext(
+  request: ShopifyRateRequest,
+  route: RouteDecision,
+  customerAccountBilled = false,
+): RateRuleContext {
+  const { destination, items } = request.rate;
+  return {
+    routeType: route.routeType,
+    customerType: route.customerType,
+    subtotalCents: getCartSubtotalCents(items),
+    destinationState: destination.province.toUpperCase(),
+    destinationCountry: destination.country.toUpperCase(),
+    skus: new Set(items.map((item) => item.sku)),
+    vendors: new Set(items.map((item) => item.vendor)),
+    customerAccountBilled,
+  };
+}
+
+// Split-shipment rates match rules for the service they combine
+function getBaseServiceCode(serviceCode: string): string {
+  return serviceCode.endsWith(SPLIT_SERVICE_CODE_SUFFIX)
+    ? serviceCode.slice(0, -SPLIT_SERVICE_CODE_SUFFIX.length)
+    : serviceCode;
+}
+
+function includesUpperCase(values: string[], value: string): boolean {
+  return values.some((v) => v.toUpperCase() === value);
+}
+
+export function matchesRateRule(
+  rule: RateRule,
+  serviceCode: string,
+  context: RateRuleContext,
+): boolean {
+  const when = rule.conditions;
+  if (when.services && !when.services.includes(getBaseServiceCode(serviceCode))) {
+    return false;
+  }
+  if (when.routeTypes && !when.routeTypes.includes(context.routeType)) return false;
+  if (when.customerTypes && !when.customerTypes.includes(context.customerType)) {
+    return false;
+  }
+  if (when.minSubtotalCents !== undefined && context.subtotalCents < when.minSubtotalCents) {
+    return false;
+  }
+  if (when.maxSubtotalCents !== undefined && context.subtotalCents > when.maxSubtotalCents) {
+    return false;
+  }
+  if (
+    when.destinationStates &&
+    !includesUpperCase(when.destinationStates, context.destinationState)
+  ) {
+    return false;
+  }
+  if (
+    when.destinationCountries &&
+    !includesUpperCase(when.destinationCountries, context.destinationCountry)
+  ) {
+    return false;
+  }
+  if (when.skus && !when.skus.some((sku) => context.skus.has(sku))) return false;
+  if (when.vendors && !when.vendors.some((vendor) => context.vendors.has(vendor))) {
+    return false;
+  }
+  return true;
+}
+
+function applyAction(action: RateRuleAction, priceCents: number): number {
+  switch (action.type) {
+    case "markup_percent":
+      return Math.round(priceCents * (1 + action.percent / 100));
+    case "markup_fixed":
+      return priceCents + action.cents;
+    case "discount_percent":
+      return Math.round(priceCents * (1 - action.percent / 100));
+    case "discount_fixed":
+      return priceCents - action.cents;
+    case "free_shipping":
+      return 0;
+    case "price_floor":
+      return Math.max(priceCents, action.cents);
+    case "price_ceiling":
+      return Math.min(priceCents, action.cents);
+    case "hide_service":
+      return priceCents;
+  }
+}
+
+/**
+ * Apply the rules to each rate in priority order. Every matching rule
+ * adjusts the price left by the previous one, so percentages compound and
+ * a floor or ceiling only bounds the rules before it. Prices never go below
+ * zero. free_shipping and hide_service end processing for the rate, as
+ * does any rule with stop set. Rates billed to the customer's own FedEx
+ * account are returned unchanged.
+ */
+export function applyRateRules(
+  rates: ShopifyRate[],
+  rules: RateRule[],
+  context: RateRuleContext,
+): ShopifyRate[] {
+  if (rules.length === 0 || context.customerAccountBilled) {
+    return rates;
+  }
+
+  // Array.prototype.sort is stable, so equal priorities keep their order
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  const result: ShopifyRate[] = [];
+
+  for (const rate of rates) {
+    let priceCents = parseInt(rate.total_price, 10);
+    const notes: string[] = [];
+    let hidden = false;
+
+    for (const rule of ordered) {
+      if (!matchesRateRule(rule, rate.service_code, context)) continue;
+
+      if (rule.action.type === "hide_service") {
+        hidden = true;
+        break;
+      }
+      priceCents = Math.max(0, applyAction(rule.action, priceCents));
+      if (rule.description) {
+        notes.push(rule.description);
+      }
+      if (rule.stop || rule.action.type === "free_shipping") break;
+    }
+
+    if (hidden) continue;
+
+    const adjusted: ShopifyRate = { ...rate, total_price: priceCents.toString() };
+    if (notes.length > 0) {
+      adjusted.description = [
+        ...(rate.description ? [rate.description] : []),
+        ...notes,
+      ].join(" · ");
+    }
+    result.push(adjusted);
+  }
+
+  return result;
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
+import {
+  classifyByCompanyName,
+  classifyResidentialAddress,
+  buildAddressClassificationKey,
+  selectGroundServiceForAddress,
+} from "./residential";
+import { createLogger } from "./logger";
+import type { Env, FedExAddress, ShopifyAddress } from "../types";
+
+const logger = createLogger(false);
+
+function createShopifyAddress(overrides: Partial<ShopifyAddress> = {}): ShopifyAddress {
+  return {
+    country: "US",
+    postal_code: "85937",
+    province: "AZ",
+    city: "Snowflake",
+    name: "Test",
+    address1: "123 Main St",
+    address2: "",
+    phone: "",
+    ...overrides,
+  };
+}
+
+const FEDEX_ADDRESS: FedExAddress = {
+  streetLines: ["123 Main St"],
+  city: "Snowflake",
+  stateOrProvinceCode: "AZ",
+  postalCode: "85937",
+  countryCode: "US",
+};
+
+function createKV() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => {
+      const value = store.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+  };
+}
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123456789",
+    FEDEX_ADDRESS_VALIDATION: "true",
+    ...overrides,
+  };
+}
+
+describe("classifyByCompanyName", () => {
+  it("treats addresses with a company as commercial", () => {
+    expect(classifyByCompanyName(createShopifyAddress({ company_name: "Foo Company" }))).toBe(
+      false,
+    );
+  });
+
+  it("treats missing or blank company names as residential", () => {
+    expect(classifyByCompanyName(createShopifyAddress())).toBe(true);
+    expect(classifyByCompanyName(createShopifyAddress({ company_name: null }))).toBe(true);
+    expect(classifyByCompanyName(createShopifyAddress({ company_name: "  " }))).toBe(true);
+  });
+});
+
+describe("buildAddressClassificationKey", () => {
+  it("ignores case, spacing and ZIP+4", async () => {
+    const key = await buildAddressClassificationKey(FEDEX_ADDRESS);
+    const variant = await buildAddressClassificationKey({
+      ...FEDEX_ADDRESS,
+      streetLines: ["123  main st", ""],
+      city: "SNOWFLAKE",
+      postalCode: "85937-1234",
+    });
+
+    expect(key).toMatch(/^addr:[0-9a-f]{64}$/);
+    expect(variant).toBe(key);
+  });
+});
+
+describe("classifyResidentialAddress", () => {
+  let fetchMock: Mock<[string], Promise<Response>>;
+
+  function respondWith(classification: string) {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith("/oauth/token")) {
+        return new Response(
+          JSON.stringify({ access_token: "token", token_type: "bearer", expires_in: 3600, scope: "" }),
+        );
+      }
+      return new Response(
+        JSON.stringify({ output: { resolvedAddresses: [{ classification }] } }),
+      );
+    });
+  }
+
+  const validationCalls = () =>
+    fetchMock.mock.calls.filter(([url]) => url.includes("/address/v1/")).length;
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uses the company name when validation is disabled", async () => {
+    const result = await classifyResidentialAddress(
+      createEnv({ FEDEX_ADDRESS_VALIDATION: undefined }),
+      createShopifyAddress({ company_name: "Foo Company" }),
+      FEDEX_ADDRESS,
+      logger,
+    );
+
+    expect(result).toEqual({ residential: false, source: "company_name" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("uses the FedEx classification and caches it", async () => {
+    respondWith("RESIDENTIAL");
+    const env = createEnv({ RATE_CACHE: createKV() as unknown as KVNamespace });
+    // A company name would otherwise mean commercial
+    const address = createShopifyAddress({ company_name: "Home Office LLC" });
+
+    const first = await classifyResidentialAddress(env, address, FEDEX_ADDRESS, logger);
+    const second = await classifyResidentialAddress(env, address, FEDEX_ADDRESS, logger);
+
+    expect(first).toEqual({ residential: true, source: "address_validation" });
+    expect(second).toEqual(first);
+    expect(validationCalls()).toBe(1);
+  });
+
+  it("classifies BUSINESS addresses as commercial", async () => {
+    respondWith("BUSINESS");
+
+    const result = await classifyResidentialAddress(
+      createEnv(),
+      createShopifyAddress(),
+      FEDEX_ADDRESS,
+      logger,
+    );
+
+    expect(result).toEqual({ residential: false, source: "address_validation" });
+  });
+
+  it("falls back to the company name for MIXED or UNKNOWN results", async () => {
+    respondWith("MIXED");
+
+    const result = await classifyResidentialAddress(
+      createEnv(),
+      createShopifyAddress(),
+      FEDEX_ADDRESS,
+      logger,
+    );
+
+    expect(result).toEqual({ residential: true, source: "company_name" });
+  });
+
+  it("falls back to the company name when validation fails", async () => {
+    fetchMock.mockRejectedValue(new Error("network down"));
+
+    const result = await classifyResidentialAddress(
+      createEnv(),
+      createShopifyAddress({ company_name: "Foo Company" }),
+      FEDEX_ADDRESS,
+      logger,
+    );
+
+    expect(result).toEqual({ residential: false, source: "company_name" });
+    expect(console.warn).toHaveBeenCalledWith(
+      "Address validation failed, using company name",
+      expect.objectContaining({ error: "network down" }),
+    );
+  });
+
+  it("does not validate non-US addresses", async () => {
+    const result = await classifyResidentialAddress(
+      createEnv(),
+      createShopifyAddress({ country: "CA" }),
+      { ...FEDEX_ADDRESS, countryCode: "CA" },
+      logger,
+    );
+
+    expect(result.source).toBe("company_name");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("selectGroundServiceForAddress", () => {
+  const rates = [
+    { serviceType: "FEDEX_GROUND" },
+    { serviceType: "GROUND_HOME_DELIVERY" },
+    { serviceType: "FEDEX_2_DAY" },
+  ];
+
+  it("offers Home Delivery instead of Ground to residential addresses", () => {
+    expect(selectGroundServiceForAddress(rates, true).map((r) => r.serviceType)).toEqual([
+      "GROUND_HOME_DELIVERY",
+      "FEDEX_2_DAY",
+    ]);
+  });
+
+  it("offers Ground instead of Home Delivery to commercial addresses", () => {
+    expect(selectGroundServiceForAddress(rates, false).map((r) => r.serviceType)).toEqual([
+      "FEDEX_GROUND",
+      "FEDEX_2_DAY",
+    ]);
+  });
+
+  it("keeps Ground for residential addresses when there is no Home Delivery rate", () => {
+    const groundOnly = [{ serviceType: "FEDEX_GROUND" }, { serviceType: "FEDEX_2_DAY" }];
+    expect(selectGroundServiceForAddress(groundOnly, true)).toEqual(groundOnly);
+  });
+});
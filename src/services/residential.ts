@@ -0,0 +1,203 @@
+import type {
+  Env,
+  FedExAddress,
+  FedExAddressClassification,
+  ShopifyAddress,
+} from "../types";
+import {
+  ADDRESS_CLASSIFICATION_KEY_PREFIX,
+  ADDRESS_CLASSIFICATION_TTL_SECONDS,
+} from "../config";
+import {
+  getFedExAccessToken,
+  getFedExCredentials,
+  callFedExAddressValidationAPI,
+} from "./fedex";
+import { sha256Hex } from "./rate-cache";
+import type { Logger } from "./logger";
+
+const FEDEX_GROUND = "FEDEX_GROUND";
+const FEDEX_HOME_DELIVERY = "GROUND_HOME_DELIVERY";
+
+export interface AddressClassificationResult {
+  residential: boolean;
+  source: "address_validation" | "company_name";
+}
+
+interface CachedClassification {
+  classification: FedExAddressClassification;
+  validatedAt: string;
+}
+
+/**
+ * Shopify sends company_name when the customer filled in a company.
+ * Without one we assume a home address, since most checkouts are consumers.
+ */
+export function classifyByCompanyName(address: ShopifyAddress): boolean {
+  return !address.company_name?.trim();
+}
+
+export function isAddressValidationEnabled(env: Env): boolean {
+  return env.FEDEX_ADDRESS_VALIDATION === "true";
+}
+
+export async function buildAddressClassificationKey(
+  address: FedExAddress,
+): Promise<string> {
+  const normalize = (value: string | undefined) =>
+    (value || "").trim().toUpperCase().replace(/\s+/g, " ");
+
+  const normalized = JSON.stringify([
+    (address.streetLines || []).map(normalize).filter(Boolean),
+    normalize(address.city),
+    normalize(address.stateOrProvinceCode),
+    normalize(address.postalCode).substring(0, 5),
+    normalize(address.countryCode),
+  ]);
+  return `${ADDRESS_CLASSIFICATION_KEY_PREFIX}${await sha256Hex(normalized)}`;
+}
+
+async function getCachedClassification(
+  env: Env,
+  key: string,
+  logger: Logger,
+): Promise<FedExAddressClassification | null> {
+  if (!env.RATE_CACHE) return null;
+
+  try {
+    const cached = await env.RATE_CACHE.get<CachedClassification>(key, "json");
+    return cached ? cached.classification : null;
+  } catch (error) {
+    logger.warn("Address classification cache read failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+async function putCachedClassification(
+  env: Env,
+  key: string,
+  classification: FedExAddressClassification,
+  logger: Logger,
+): Promise<void> {
+  if (!env.RATE_CACHE) return;
+
+  const entry: CachedClassification = {
+    classification,
+    validatedAt: new Date().toISOString(),
+  };
+  try {
+    await env.RATE_CACHE.put(key, JSON.stringify(entry), {
+      expirationTtl: ADDRESS_CLASSIFICATION_TTL_SECONDS,
+    });
+  } catch (error) {
+    logger.warn("Address classification cache write failed", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+async function fetchFedExClassification(
+  env: Env,
+  address: FedExAddress,
+): Promise<FedExAddressClassification> {
+  const { useSandbox } = getFedExCredentials(env);
+  const accessToken = await getFedExAccessToken(env);
+
+  const response = await callFedExAddressValidationAPI(
+    {
+      addressesToValidate: [
+        {
+          address: {
+            streetLines: address.streetLines,
+            city: address.city,
+            stateOrProvinceCode: address.stateOrProvinceCode,
+            postalCode: address.postalCode,
+            countryCode: address.countryCode,
+          },
+        },
+      ],
+    },
+    accessToken,
+    useSandbox,
+  );
+
+  if (response.errors && response.errors.length > 0) {
+    throw new Error(
+      `FedEx Address Validation returned errors: ${response.errors
+        .map((e) => e.code)
+        .join(", ")}`,
+    );
+  }
+
+  return response.output?.resolvedAddresses?.[0]?.classification ?? "UNKNOWN";
+}
+
+/**
+ * Decide whether the destination is residential. When FEDEX_ADDRESS_VALIDATION
+ * is enabled, US addresses are classified by FedEx (cached in RATE_CACHE);
+ * MIXED/UNKNOWN results and validation failures fall back to company_name.
+ */
+export async function classifyResidentialAddress(
+  env: Env,
+  shopifyAddress: ShopifyAddress,
+  address: FedExAddress,
+  logger: Logger,
+): Promise<AddressClassificationResult> {
+  const byCompanyName: AddressClassificationResult = {
+    residential: classifyByCompanyName(shopifyAddress),
+    source: "company_name",
+  };
+
+  if (!isAddressValidationEnabled(env) || address.countryCode !== "US") {
+    return byCompanyName;
+  }
+
+  const key = await buildAddressClassificationKey(address);
+  let classification = await getCachedClassification(env, key, logger);
+
+  if (!classification) {
+    try {
+      classification = await fetchFedExClassification(env, address);
+      await putCachedClassification(env, key, classification, logger);
+    } catch (error) {
+      logger.warn("Address validation failed, using company name", {
+        destinationZip: address.postalCode,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return byCompanyName;
+    }
+  }
+
+  if (classification === "RESIDENTIAL") {
+    return { residential: true, source: "address_validation" };
+  }
+  if (classification === "BUSINESS") {
+    return { residential: false, source: "address_validation" };
+  }
+  return byCompanyName;
+}
+
+/**
+ * Offer FedEx Home Delivery to residential addresses and FedEx Ground to
+ * businesses. A residential quote keeps FedEx Ground only when there is no
+ * Home Delivery rate to replace it (e.g. rate-table estimates).
+ */
+export function selectGroundServiceForAddress<T extends { serviceType: string }>(
+  rates: T[],
+  residential: boolean,
+): T[] {
+  if (!residential) {
+    return rates.filter((rate) => rate.serviceType !== FEDEX_HOME_DELIVERY);
+  }
+
+  const hasHomeDelivery = rates.some(
+    (rate) => rate.serviceType === FEDEX_HOME_DELIVERY,
+  );
+  return hasHomeDelivery
+    ? rates.filter((rate) => rate.serviceType !== FEDEX_GROUND)
+    : rates;
+}
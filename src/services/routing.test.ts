@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   extractCustomerType,
+  extractCustomerFedExPayor,
   isLocalDeliveryZip,
   isDomesticDestination,
   determineRoute,
@@ -92,6 +93,43 @@ describe('extractCustomerType', () => {
   });
 });
 
+describe('extractCustomerFedExPayor', () => {
+  it('returns null when no account property is present', () => {
+    const items = [createCartItem({ properties: { _customer_type: 'fedex_own_account' } })];
+    expect(extractCustomerFedExPayor(items)).toBeNull();
+  });
+
+  it('defaults to RECIPIENT billing', () => {
+    const items = [createCartItem({ properties: { _fedex_account: '123456789' } })];
+    expect(extractCustomerFedExPayor(items)).toEqual({
+      paymentType: 'RECIPIENT',
+      accountNumber: '123456789',
+    });
+  });
+
+  it('supports THIRD_PARTY billing', () => {
+    const items = [
+      createCartItem({
+        properties: { _fedex_account: '123456789', _fedex_payment_type: 'Third_Party' },
+      }),
+    ];
+    expect(extractCustomerFedExPayor(items)?.paymentType).toBe('THIRD_PARTY');
+  });
+
+  it('strips spaces and dashes from the account number', () => {
+    const items = [createCartItem({ properties: { _fedex_account: '1234-5678 9' } })];
+    expect(extractCustomerFedExPayor(items)?.accountNumber).toBe('123456789');
+  });
+
+  it('ignores malformed account numbers', () => {
+    const items = [
+      createCartItem({ properties: { _fedex_account: '12345' } }),
+      createCartItem({ properties: { _fedex_account: 'ABCDEFGHI' } }),
+    ];
+    expect(extractCustomerFedExPayor(items)).toBeNull();
+  });
+});
+
 describe('isLocalDeliveryZip', () => {
   it('returns true for zip in local delivery list', () => {
     expect(isLocalDeliveryZip('33172', localZips)).toBe(true);
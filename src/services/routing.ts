@@ -1,6 +1,12 @@
-import type { ShopifyRateRequest, ShopifyCartItem, CustomerType } from '../types';
+import type {
+  ShopifyRateRequest,
+  ShopifyCartItem,
+  CustomerType,
+  RouteType,
+  FedExPayor,
+} from '../types';
 
-export type RouteType = 'local_delivery' | 'domestic' | 'international_military' | 'freight_forwarding';
+export type { RouteType };
 
 export interface RouteDecision {
   routeType: RouteType;
@@ -26,6 +32,30 @@ export function extractCustomerType(items: ShopifyCartItem[]): CustomerType {
   return 'standard';
 }
 
+const FEDEX_ACCOUNT_NUMBER_PATTERN = /^\d{9}$/;
+
+/**
+ * Find the customer's own FedEx account on the cart for fedex_own_account customers.
+ * Reads _fedex_account (9 digits, spaces/dashes ignored) and an optional
+ * _fedex_payment_type of "recipient" (default) or "third_party".
+ */
+export function extractCustomerFedExPayor(items: ShopifyCartItem[]): FedExPayor | null {
+  for (const item of items) {
+    const rawAccount = item.properties?._fedex_account;
+    if (!rawAccount) continue;
+
+    const accountNumber = rawAccount.replace(/[\s-]/g, '');
+    if (!FEDEX_ACCOUNT_NUMBER_PATTERN.test(accountNumber)) continue;
+
+    const paymentType = item.properties?._fedex_payment_type?.trim().toLowerCase() === 'third_party'
+      ? 'THIRD_PARTY'
+      : 'RECIPIENT';
+
+    return { paymentType, accountNumber };
+  }
+  return null;
+}
+
 export function isLocalDeliveryZip(postalCode: string, localZipSet: Set<string>): boolean {
   const normalizedZip = postalCode.trim().substring(0, 5);
   return localZipSet.has(normalizedZip);
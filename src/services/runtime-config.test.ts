@@ -0,0 +1,423 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  loadRuntimeConfig,
+  clearRuntimeConfigCache,
+  validateRuntimeConfigDocument,
+  getDefaultRuntimeConfig,
+  getAllowedServices,
+  ConfigValidationError,
+} from "./runtime-config";
+import { createLogger } from "./logger";
+import { BOX_CONFIGS, CONFIG_CACHE_TTL_MS, LOCAL_DELIVERY_ZIPS } from "../config";
+import type { Env, RateRule, RuntimeConfigDocument } from "../types";
+
+const logger = createLogger(false);
+
+function createDocument(
+  overrides: Partial<RuntimeConfigDocument> = {},
+): RuntimeConfigDocument {
+  return {
+    version: 1,
+    boxes: [
+      {
+        name: "kv-box",
+        length: 10,
+        width: 10,
+        height: 10,
+        maxWeightLbs: 40,
+        emptyWeightLbs: 2,
+      },
+    ],
+    hazmatFees: {
+      ground: { per_order: 1000, per_package: 0, per_hazmat_package: 0, per_inaccessible_package: 0 },
+      air: { per_order: 0, per_package: 0, per_hazmat_package: 5000, per_inaccessible_package: 2500 },
+      international: { per_order: 0, per_package: 0, per_hazmat_package: 7500, per_inaccessible_package: 7500 },
+    },
+    localDeliveryZips: ["33172"],
+    services: {
+      domesticGround: ["FEDEX_GROUND"],
+      domesticAir: ["FEDEX_2_DAY"],
+      international: [],
+    },
+    ...overrides,
+  };
+}
+
+function createEnv(kvValue: unknown) {
+  const get = vi.fn(async () => kvValue);
+  const env: Env = {
+    FEDEX_CLIENT_ID: "id",
+    FEDEX_CLIENT_SECRET: "secret",
+    FEDEX_ACCOUNT_NUMBER: "123",
+    CONFIG_KV: { get } as unknown as KVNamespace,
+  };
+  return { env, get };
+}
+
+beforeEach(() => {
+  clearRuntimeConfigCache();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("validateRuntimeConfigDocument", () => {
+  it("accepts a valid document", () => {
+    const document = createDocument();
+    expect(validateRuntimeConfigDocument(document)).toEqual(document);
+  });
+
+  it("rejects an unsupported version", () => {
+    expect(() =>
+      validateRuntimeConfigDocument(createDocument({ version: 2 })),
+    ).toThrow(ConfigValidationError);
+  });
+
+  it("keeps the revision and rejects invalid ones", () => {
+    expect(validateRuntimeConfigDocument(createDocument({ revision: 3 })).revision).toBe(3);
+    expect(() =>
+      validateRuntimeConfigDocument(createDocument({ revision: -1 })),
+    ).toThrow("revision must be a non-negative integer");
+  });
+
+  it("rejects boxes whose empty weight is not below max weight", () => {
+    const document = createDocument({
+      boxes: [
+        {
+          name: "bad",
+          length: 10,
+          width: 10,
+          height: 10,
+          maxWeightLbs: 5,
+          emptyWeightLbs: 5,
+        },
+      ],
+    });
+    expect(() => validateRuntimeConfigDocument(document)).toThrow(
+      "boxes[0].emptyWeightLbs must be less than maxWeightLbs",
+    );
+  });
+
+  it("rejects negative or fractional box material costs", () => {
+    for (const materialCostCents of [-1, 1.5]) {
+      const document = createDocument({
+        boxes: [
+          {
+            name: "bad",
+            length: 10,
+            width: 10,
+            height: 10,
+            maxWeightLbs: 20,
+            emptyWeightLbs: 1,
+            materialCostCents,
+          },
+        ],
+      });
+      expect(() => validateRuntimeConfigDocument(document)).toThrow(
+        "boxes[0].materialCostCents must be a non-negative integer",
+      );
+    }
+  });
+
+  it("rejects an empty box list", () => {
+    expect(() =>
+      validateRuntimeConfigDocument(createDocument({ boxes: [] })),
+    ).toThrow("boxes must be a non-empty array");
+  });
+
+  it("rejects non-integer hazmat fees", () => {
+    const { hazmatFees } = createDocument();
+    const document = createDocument({
+      hazmatFees: { ...hazmatFees, air: { ...hazmatFees.air, per_package: 30.5 } },
+    });
+    expect(() => validateRuntimeConfigDocument(document)).toThrow(
+      "hazmatFees.air.per_package must be a non-negative integer (cents)",
+    );
+  });
+
+  it("reads flat per-order hazmat fees from older documents", () => {
+    const document = validateRuntimeConfigDocument({
+      ...createDocument(),
+      hazmatFees: { ground_per_order: 3000, air_per_order: 12500 },
+    });
+
+    expect(document.hazmatFees.ground).toEqual({
+      per_order: 3000,
+      per_package: 0,
+      per_hazmat_package: 0,
+      per_inaccessible_package: 0,
+    });
+    expect(document.hazmatFees.international.per_order).toBe(12500);
+  });
+
+  it("rejects malformed zip codes", () => {
+    const document = createDocument({ localDeliveryZips: ["3317"] });
+    expect(() => validateRuntimeConfigDocument(document)).toThrow(
+      'Invalid local delivery zip "3317"',
+    );
+  });
+
+  it("accepts a freight section and rejects unknown freight classes", () => {
+    const freight = {
+      pallet: { length: 48, width: 40, height: 6, maxHeight: 60, tareWeightLbs: 45 },
+      freightClass: "CLASS_077_5",
+      minWeightLbs: 250,
+    };
+    expect(validateRuntimeConfigDocument(createDocument({ freight })).freight).toEqual(freight);
+
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({ freight: { ...freight, freightClass: "55" } }),
+      ),
+    ).toThrow("freight.freightClass must be a FedEx freight class like CLASS_055");
+  });
+
+  it("accepts a hazmat segregation section and rejects unknown hazard classes", () => {
+    const hazmatSegregation = {
+      incompatibleClasses: { "3": ["5.1", "8"] },
+      separateNonHazmat: true,
+    };
+    expect(
+      validateRuntimeConfigDocument(createDocument({ hazmatSegregation })).hazmatSegregation,
+    ).toEqual(hazmatSegregation);
+
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({
+          hazmatSegregation: { ...hazmatSegregation, incompatibleClasses: { "3": ["oxidizer"] } },
+        }),
+      ),
+    ).toThrow('Invalid hazard class "oxidizer" in hazmatSegregation');
+  });
+
+  it("accepts rate rules and rejects unknown actions", () => {
+    const rateRules: RateRule[] = [
+      {
+        name: "Free ground over $500",
+        priority: 10,
+        conditions: { services: ["FEDEX_GROUND"], minSubtotalCents: 50000 },
+        action: { type: "free_shipping" },
+        description: "Free ground shipping on orders over $500",
+      },
+      {
+        name: "Alaska markup",
+        priority: 20,
+        conditions: { destinationStates: ["AK"], routeTypes: ["domestic"] },
+        action: { type: "markup_percent", percent: 15 },
+        stop: true,
+      },
+    ];
+    expect(validateRuntimeConfigDocument(createDocument({ rateRules })).rateRules).toEqual(
+      rateRules,
+    );
+
+    expect(() =>
+      validateRuntimeConfigDocument({
+        ...createDocument(),
+        rateRules: [{ ...rateRules[0], action: { type: "surcharge" } }],
+      }),
+    ).toThrow('rateRules[0].action.type "surcharge" is not a known rate rule action');
+    expect(() =>
+      validateRuntimeConfigDocument({
+        ...createDocument(),
+        rateRules: [{ ...rateRules[1], action: { type: "discount_percent", percent: 150 } }],
+      }),
+    ).toThrow("rateRules[0].action.percent must be a positive number up to 100");
+  });
+
+  it("accepts a calendar section and rejects invalid closure dates", () => {
+    const calendar = { observeFederalHolidays: true, closures: ["2025-12-26"] };
+    expect(validateRuntimeConfigDocument(createDocument({ calendar })).calendar).toEqual(calendar);
+
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({ calendar: { ...calendar, closures: ["2025-02-30"] } }),
+      ),
+    ).toThrow('Invalid closure date "2025-02-30" (expected YYYY-MM-DD)');
+  });
+
+  it("accepts a ship schedule and rejects unknown timezones and times", () => {
+    const shipSchedule = {
+      timezone: "America/Chicago",
+      cutoffTime: "15:30",
+      pickups: [null, "17:00", "17:00", "17:00", "17:00", "16:00", null],
+    };
+    expect(
+      validateRuntimeConfigDocument(createDocument({ shipSchedule })).shipSchedule,
+    ).toEqual(shipSchedule);
+
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({ shipSchedule: { ...shipSchedule, timezone: "Miami" } }),
+      ),
+    ).toThrow("shipSchedule.timezone must be an IANA timezone like America/New_York");
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({
+          shipSchedule: { ...shipSchedule, pickups: [null, "5pm", null, null, null, null, null] },
+        }),
+      ),
+    ).toThrow("shipSchedule.pickups[1] must be a time like 17:00 or null");
+  });
+
+  it("accepts warehouses and rejects duplicate ids and bad addresses", () => {
+    const warehouse = {
+      id: "hentzen",
+      name: "Hentzen Coatings",
+      address: {
+        streetLines: ["6937 W Mill Rd"],
+        city: "Milwaukee",
+        stateOrProvinceCode: "WI",
+        postalCode: "53218",
+        countryCode: "US",
+      },
+      inventoryTags: [],
+      vendors: ["Hentzen"],
+      calendar: { observeFederalHolidays: false, closures: [] },
+    };
+    expect(
+      validateRuntimeConfigDocument(createDocument({ warehouses: [warehouse] })).warehouses,
+    ).toEqual([warehouse]);
+
+    expect(() =>
+      validateRuntimeConfigDocument(createDocument({ warehouses: [warehouse, warehouse] })),
+    ).toThrow('Duplicate warehouse id "hentzen"');
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({
+          warehouses: [{ ...warehouse, address: { ...warehouse.address, countryCode: "USA" } }],
+        }),
+      ),
+    ).toThrow("warehouses[0].address.countryCode must be a two-letter country code like US");
+    expect(() =>
+      validateRuntimeConfigDocument({
+        ...createDocument(),
+        warehouses: [{ ...warehouse, shipSchedule: { timezone: "Milwaukee" } }],
+      }),
+    ).toThrow(
+      "warehouses[0].shipSchedule.timezone must be an IANA timezone like America/New_York",
+    );
+  });
+
+  it("accepts vendor profiles and rejects duplicate vendors and bad fees", () => {
+    const profile = {
+      vendor: "Hentzen",
+      address: {
+        streetLines: ["6937 W Mill Rd"],
+        city: "Milwaukee",
+        stateOrProvinceCode: "WI",
+        postalCode: "53218",
+        countryCode: "US",
+      },
+      handlingDays: 3,
+      useOurFedExAccount: false,
+      flatFees: { perShipmentCents: 1500, perItemCents: 0 },
+      transitDays: { min: 2, max: 5 },
+    };
+    expect(
+      validateRuntimeConfigDocument(createDocument({ vendorProfiles: [profile] })).vendorProfiles,
+    ).toEqual([profile]);
+
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({ vendorProfiles: [profile, { ...profile, vendor: "HENTZEN" }] }),
+      ),
+    ).toThrow('Duplicate vendor profile "HENTZEN"');
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({
+          vendorProfiles: [{ ...profile, flatFees: { perShipmentCents: 15.5, perItemCents: 0 } }],
+        }),
+      ),
+    ).toThrow("vendorProfiles[0].flatFees.perShipmentCents must be a non-negative integer (cents)");
+    expect(() =>
+      validateRuntimeConfigDocument(
+        createDocument({ vendorProfiles: [{ ...profile, transitDays: { min: 5, max: 2 } }] }),
+      ),
+    ).toThrow("vendorProfiles[0].transitDays must have integer min and max days with min <= max");
+  });
+
+  it("rejects missing service lists", () => {
+    const document = { ...createDocument(), services: { domesticGround: [] } };
+    expect(() => validateRuntimeConfigDocument(document)).toThrow(
+      "services.domesticAir must be an array of strings",
+    );
+  });
+});
+
+describe("loadRuntimeConfig", () => {
+  it("uses the KV document when valid", async () => {
+    const { env } = createEnv(createDocument());
+    const config = await loadRuntimeConfig(env, logger);
+
+    expect(config.source).toBe("kv");
+    expect(config.boxes[0].name).toBe("kv-box");
+    expect(config.localDeliveryZips.has("33172")).toBe(true);
+    expect(config.hazmatFees.ground.per_order).toBe(1000);
+  });
+
+  it("falls back to defaults when no binding is configured", async () => {
+    const env: Env = {
+      FEDEX_CLIENT_ID: "id",
+      FEDEX_CLIENT_SECRET: "secret",
+      FEDEX_ACCOUNT_NUMBER: "123",
+    };
+    const config = await loadRuntimeConfig(env, logger);
+
+    expect(config.source).toBe("default");
+    expect(config.boxes).toBe(BOX_CONFIGS);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("falls back to defaults when the document is missing", async () => {
+    const { env } = createEnv(null);
+    const config = await loadRuntimeConfig(env, logger);
+
+    expect(config.source).toBe("default");
+  });
+
+  it("falls back to defaults when the document is invalid", async () => {
+    const { env } = createEnv({ version: 1, boxes: "nope" });
+    const config = await loadRuntimeConfig(env, logger);
+
+    expect(config.source).toBe("default");
+    expect(config.localDeliveryZips).toBe(LOCAL_DELIVERY_ZIPS);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("falls back to defaults when KV throws", async () => {
+    const env: Env = {
+      FEDEX_CLIENT_ID: "id",
+      FEDEX_CLIENT_SECRET: "secret",
+      FEDEX_ACCOUNT_NUMBER: "123",
+      CONFIG_KV: {
+        get: vi.fn(async () => {
+          throw new Error("KV unavailable");
+        }),
+      } as unknown as KVNamespace,
+    };
+    const config = await loadRuntimeConfig(env, logger);
+
+    expect(config.source).toBe("default");
+  });
+
+  it("caches the document per isolate until the TTL expires", async () => {
+    const { env, get } = createEnv(createDocument());
+    const now = 1_000_000;
+
+    await loadRuntimeConfig(env, logger, now);
+    await loadRuntimeConfig(env, logger, now + 1);
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await loadRuntimeConfig(env, logger, now + CONFIG_CACHE_TTL_MS + 1);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("getAllowedServices", () => {
+  it("flattens the default allow-lists", () => {
+    const services = getAllowedServices(getDefaultRuntimeConfig());
+
+    expect(services).toContain("FEDEX_GROUND");
+    expect(services).toContain("FEDEX_2_DAY");
+    expect(services).toContain("INTERNATIONAL_PRIORITY");
+  });
+});
@@ -0,0 +1,978 @@
+import type {
+  Env,
+  BoxConfig,
+  HazmatFees,
+  HazmatFeeSchedule,
+  HazmatSegregationConfig,
+  RateRule,
+  RateRuleAction,
+  RateRuleConditions,
+  CalendarConfig,
+  ShipScheduleConfig,
+  WarehouseConfig,
+  VendorProfile,
+  FallbackRateTable,
+  FreightConfig,
+  ServiceAllowList,
+  RuntimeConfig,
+  RuntimeConfigDocument,
+  FedExAddress,
+} from "../types";
+import {
+  BOX_CONFIGS,
+  HAZMAT_FEES_CENTS,
+  LOCAL_DELIVERY_ZIPS,
+  DOMESTIC_GROUND_SERVICES,
+  DOMESTIC_AIR_SERVICES,
+  INTERNATIONAL_SERVICES,
+  FALLBACK_RATE_TABLE,
+  FREIGHT_CONFIG,
+  HAZMAT_SEGREGATION,
+  RATE_RULES,
+  CALENDAR_CONFIG,
+  SHIP_SCHEDULE,
+  WAREHOUSES,
+  VENDOR_PROFILES,
+  CONFIG_KV_KEY,
+  CONFIG_SCHEMA_VERSION,
+  CONFIG_CACHE_TTL_MS,
+} from "../config";
+import type { Logger } from "./logger";
+import { HAZARD_CLASS_PATTERN } from "./hazmat";
+
+interface CachedConfig {
+  config: RuntimeConfig;
+  expiresAt: number;
+}
+
+// Per-isolate cache so KV is read at most once per CONFIG_CACHE_TTL_MS
+let configCache: CachedConfig | null = null;
+
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigValidationError";
+  }
+}
+
+export function getDefaultRuntimeConfig(): RuntimeConfig {
+  return {
+    version: CONFIG_SCHEMA_VERSION,
+    boxes: BOX_CONFIGS,
+    hazmatFees: HAZMAT_FEES_CENTS,
+    localDeliveryZips: LOCAL_DELIVERY_ZIPS,
+    services: {
+      domesticGround: [...DOMESTIC_GROUND_SERVICES],
+      domesticAir: [...DOMESTIC_AIR_SERVICES],
+      international: [...INTERNATIONAL_SERVICES],
+    },
+    fallbackRateTable: FALLBACK_RATE_TABLE,
+    freight: FREIGHT_CONFIG,
+    hazmatSegregation: HAZMAT_SEGREGATION,
+    rateRules: RATE_RULES,
+    calendar: CALENDAR_CONFIG,
+    shipSchedule: SHIP_SCHEDULE,
+    warehouses: WAREHOUSES,
+    vendorProfiles: VENDOR_PROFILES,
+    source: "default",
+  };
+}
+
+export function getAllowedServices(config: RuntimeConfig): string[] {
+  return [
+    ...config.services.domesticGround,
+    ...config.services.domesticAir,
+    ...config.services.international,
+  ];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+export function validateBoxConfig(value: unknown, label: string): BoxConfig {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    throw new ConfigValidationError(`${label}.name must be a non-empty string`);
+  }
+  for (const field of ["length", "width", "height", "maxWeightLbs"] as const) {
+    if (!isPositiveNumber(value[field])) {
+      throw new ConfigValidationError(
+        `${label}.${field} must be a positive number`,
+      );
+    }
+  }
+  if (
+    typeof value.emptyWeightLbs !== "number" ||
+    !Number.isFinite(value.emptyWeightLbs) ||
+    value.emptyWeightLbs < 0
+  ) {
+    throw new ConfigValidationError(
+      `${label}.emptyWeightLbs must be a non-negative number`,
+    );
+  }
+  if (value.emptyWeightLbs >= (value.maxWeightLbs as number)) {
+    throw new ConfigValidationError(
+      `${label}.emptyWeightLbs must be less than maxWeightLbs`,
+    );
+  }
+  if (
+    value.materialCostCents !== undefined &&
+    !(Number.isInteger(value.materialCostCents) && (value.materialCostCents as number) >= 0)
+  ) {
+    throw new ConfigValidationError(
+      `${label}.materialCostCents must be a non-negative integer`,
+    );
+  }
+
+  const box: BoxConfig = {
+    name: value.name,
+    length: value.length as number,
+    width: value.width as number,
+    height: value.height as number,
+    maxWeightLbs: value.maxWeightLbs as number,
+    emptyWeightLbs: value.emptyWeightLbs,
+  };
+  if (value.materialCostCents !== undefined) {
+    box.materialCostCents = value.materialCostCents as number;
+  }
+  return box;
+}
+
+const HAZMAT_FEE_FIELDS = [
+  "per_order",
+  "per_package",
+  "per_hazmat_package",
+  "per_inaccessible_package",
+] as const;
+
+function validateHazmatFeeSchedule(
+  value: unknown,
+  label: string,
+): HazmatFeeSchedule {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  for (const field of HAZMAT_FEE_FIELDS) {
+    if (!isNonNegativeInteger(value[field])) {
+      throw new ConfigValidationError(
+        `${label}.${field} must be a non-negative integer (cents)`,
+      );
+    }
+  }
+  return {
+    per_order: value.per_order as number,
+    per_package: value.per_package as number,
+    per_hazmat_package: value.per_hazmat_package as number,
+    per_inaccessible_package: value.per_inaccessible_package as number,
+  };
+}
+
+function perOrderSchedule(cents: number): HazmatFeeSchedule {
+  return {
+    per_order: cents,
+    per_package: 0,
+    per_hazmat_package: 0,
+    per_inaccessible_package: 0,
+  };
+}
+
+/**
+ * Documents written before per-package fees have only ground_per_order
+ * and air_per_order; those are read as flat per-order schedules, with
+ * international priced like air.
+ */
+export function validateHazmatFees(value: unknown): HazmatFees {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("hazmatFees must be an object");
+  }
+  if ("ground_per_order" in value || "air_per_order" in value) {
+    if (!isNonNegativeInteger(value.ground_per_order)) {
+      throw new ConfigValidationError(
+        "hazmatFees.ground_per_order must be a non-negative integer (cents)",
+      );
+    }
+    if (!isNonNegativeInteger(value.air_per_order)) {
+      throw new ConfigValidationError(
+        "hazmatFees.air_per_order must be a non-negative integer (cents)",
+      );
+    }
+    return {
+      ground: perOrderSchedule(value.ground_per_order),
+      air: perOrderSchedule(value.air_per_order),
+      international: perOrderSchedule(value.air_per_order),
+    };
+  }
+  return {
+    ground: validateHazmatFeeSchedule(value.ground, "hazmatFees.ground"),
+    air: validateHazmatFeeSchedule(value.air, "hazmatFees.air"),
+    international: validateHazmatFeeSchedule(
+      value.international,
+      "hazmatFees.international",
+    ),
+  };
+}
+
+function validateServices(value: unknown): ServiceAllowList {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("services must be an object");
+  }
+  for (const field of ["domesticGround", "domesticAir", "international"] as const) {
+    if (!isStringArray(value[field])) {
+      throw new ConfigValidationError(
+        `services.${field} must be an array of strings`,
+      );
+    }
+  }
+  return {
+    domesticGround: value.domesticGround as string[],
+    domesticAir: value.domesticAir as string[],
+    international: value.international as string[],
+  };
+}
+
+const ZIP3_PATTERN = /^\d{3}$/;
+
+export function validateFallbackRateTable(value: unknown): FallbackRateTable {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("fallbackRateTable must be an object");
+  }
+  if (!Array.isArray(value.zones) || !Array.isArray(value.rates)) {
+    throw new ConfigValidationError(
+      "fallbackRateTable.zones and fallbackRateTable.rates must be arrays",
+    );
+  }
+
+  const zones = value.zones.map((zone, i) => {
+    const label = `fallbackRateTable.zones[${i}]`;
+    if (
+      !isRecord(zone) ||
+      typeof zone.fromZip3 !== "string" ||
+      typeof zone.toZip3 !== "string" ||
+      !ZIP3_PATTERN.test(zone.fromZip3) ||
+      !ZIP3_PATTERN.test(zone.toZip3) ||
+      zone.fromZip3 > zone.toZip3
+    ) {
+      throw new ConfigValidationError(
+        `${label} must have 3-digit fromZip3 <= toZip3`,
+      );
+    }
+    if (!isNonNegativeInteger(zone.zone)) {
+      throw new ConfigValidationError(`${label}.zone must be an integer`);
+    }
+    return { fromZip3: zone.fromZip3, toZip3: zone.toZip3, zone: zone.zone };
+  });
+
+  const rates = value.rates.map((rate, i) => {
+    const label = `fallbackRateTable.rates[${i}]`;
+    if (!isRecord(rate) || typeof rate.serviceType !== "string") {
+      throw new ConfigValidationError(`${label}.serviceType must be a string`);
+    }
+    for (const field of ["zone", "baseCents", "perLbCents", "transitDays"] as const) {
+      if (!isNonNegativeInteger(rate[field])) {
+        throw new ConfigValidationError(
+          `${label}.${field} must be a non-negative integer`,
+        );
+      }
+    }
+    return {
+      zone: rate.zone as number,
+      serviceType: rate.serviceType,
+      baseCents: rate.baseCents as number,
+      perLbCents: rate.perLbCents as number,
+      transitDays: rate.transitDays as number,
+    };
+  });
+
+  return { zones, rates };
+}
+
+// FedEx freight classes, e.g. CLASS_055 or CLASS_077_5
+const FREIGHT_CLASS_PATTERN = /^CLASS_\d{3}(_5)?$/;
+
+export function validateFreightConfig(value: unknown): FreightConfig {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("freight must be an object");
+  }
+  const pallet = value.pallet;
+  if (!isRecord(pallet)) {
+    throw new ConfigValidationError("freight.pallet must be an object");
+  }
+  for (const field of ["length", "width", "height", "maxHeight"] as const) {
+    if (!isPositiveNumber(pallet[field])) {
+      throw new ConfigValidationError(
+        `freight.pallet.${field} must be a positive number`,
+      );
+    }
+  }
+  if ((pallet.height as number) >= (pallet.maxHeight as number)) {
+    throw new ConfigValidationError(
+      "freight.pallet.height must be less than maxHeight",
+    );
+  }
+  if (
+    typeof pallet.tareWeightLbs !== "number" ||
+    !Number.isFinite(pallet.tareWeightLbs) ||
+    pallet.tareWeightLbs < 0
+  ) {
+    throw new ConfigValidationError(
+      "freight.pallet.tareWeightLbs must be a non-negative number",
+    );
+  }
+  if (
+    typeof value.freightClass !== "string" ||
+    !FREIGHT_CLASS_PATTERN.test(value.freightClass)
+  ) {
+    throw new ConfigValidationError(
+      "freight.freightClass must be a FedEx freight class like CLASS_055",
+    );
+  }
+  if (!isPositiveNumber(value.minWeightLbs)) {
+    throw new ConfigValidationError(
+      "freight.minWeightLbs must be a positive number",
+    );
+  }
+
+  return {
+    pallet: {
+      length: pallet.length as number,
+      width: pallet.width as number,
+      height: pallet.height as number,
+      maxHeight: pallet.maxHeight as number,
+      tareWeightLbs: pallet.tareWeightLbs,
+    },
+    freightClass: value.freightClass,
+    minWeightLbs: value.minWeightLbs,
+  };
+}
+
+export function validateHazmatSegregation(
+  value: unknown,
+): HazmatSegregationConfig {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("hazmatSegregation must be an object");
+  }
+  const table = value.incompatibleClasses;
+  if (!isRecord(table)) {
+    throw new ConfigValidationError(
+      "hazmatSegregation.incompatibleClasses must be an object",
+    );
+  }
+  const incompatibleClasses: Record<string, string[]> = {};
+  for (const [hazardClass, classes] of Object.entries(table)) {
+    if (!HAZARD_CLASS_PATTERN.test(hazardClass)) {
+      throw new ConfigValidationError(
+        `Invalid hazard class "${hazardClass}" in hazmatSegregation`,
+      );
+    }
+    if (!isStringArray(classes)) {
+      throw new ConfigValidationError(
+        `hazmatSegregation.incompatibleClasses.${hazardClass} must be an array of strings`,
+      );
+    }
+    const invalid = classes.find((c) => !HAZARD_CLASS_PATTERN.test(c));
+    if (invalid !== undefined) {
+      throw new ConfigValidationError(
+        `Invalid hazard class "${invalid}" in hazmatSegregation`,
+      );
+    }
+    incompatibleClasses[hazardClass] = classes;
+  }
+  if (typeof value.separateNonHazmat !== "boolean") {
+    throw new ConfigValidationError(
+      "hazmatSegregation.separateNonHazmat must be a boolean",
+    );
+  }
+
+  return {
+    incompatibleClasses,
+    separateNonHazmat: value.separateNonHazmat,
+  };
+}
+
+const ROUTE_TYPES = [
+  "local_delivery",
+  "domestic",
+  "international_military",
+  "freight_forwarding",
+] as const;
+
+const CUSTOMER_TYPES = [
+  "international_military",
+  "freight_forwarding",
+  "fedex_own_account",
+  "standard",
+] as const;
+
+function validateRateRuleConditions(
+  value: unknown,
+  label: string,
+): RateRuleConditions {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  const conditions: RateRuleConditions = {};
+  for (const field of [
+    "services",
+    "destinationStates",
+    "destinationCountries",
+    "skus",
+    "vendors",
+  ] as const) {
+    if (value[field] === undefined) continue;
+    if (!isStringArray(value[field])) {
+      throw new ConfigValidationError(
+        `${label}.${field} must be an array of strings`,
+      );
+    }
+    conditions[field] = value[field] as string[];
+  }
+  if (value.routeTypes !== undefined) {
+    const routeTypes = value.routeTypes;
+    if (
+      !isStringArray(routeTypes) ||
+      !routeTypes.every((t) => (ROUTE_TYPES as readonly string[]).includes(t))
+    ) {
+      throw new ConfigValidationError(
+        `${label}.routeTypes must contain only ${ROUTE_TYPES.join(", ")}`,
+      );
+    }
+    conditions.routeTypes = routeTypes as RateRuleConditions["routeTypes"];
+  }
+  if (value.customerTypes !== undefined) {
+    const customerTypes = value.customerTypes;
+    if (
+      !isStringArray(customerTypes) ||
+      !customerTypes.every((t) => (CUSTOMER_TYPES as readonly string[]).includes(t))
+    ) {
+      throw new ConfigValidationError(
+        `${label}.customerTypes must contain only ${CUSTOMER_TYPES.join(", ")}`,
+      );
+    }
+    conditions.customerTypes =
+      customerTypes as RateRuleConditions["customerTypes"];
+  }
+  for (const field of ["minSubtotalCents", "maxSubtotalCents"] as const) {
+    if (value[field] === undefined) continue;
+    if (!isNonNegativeInteger(value[field])) {
+      throw new ConfigValidationError(
+        `${label}.${field} must be a non-negative integer (cents)`,
+      );
+    }
+    conditions[field] = value[field] as number;
+  }
+  return conditions;
+}
+
+function validateRateRuleAction(value: unknown, label: string): RateRuleAction {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  switch (value.type) {
+    case "markup_percent":
+    case "discount_percent":
+      if (
+        !isPositiveNumber(value.percent) ||
+        (value.type === "discount_percent" && value.percent > 100)
+      ) {
+        throw new ConfigValidationError(
+          `${label}.percent must be a positive number${value.type === "discount_percent" ? " up to 100" : ""}`,
+        );
+      }
+      return { type: value.type, percent: value.percent };
+    case "markup_fixed":
+    case "discount_fixed":
+    case "price_floor":
+    case "price_ceiling":
+      if (!isNonNegativeInteger(value.cents)) {
+        throw new ConfigValidationError(
+          `${label}.cents must be a non-negative integer`,
+        );
+      }
+      return { type: value.type, cents: value.cents };
+    case "free_shipping":
+    case "hide_service":
+      return { type: value.type };
+    default:
+      throw new ConfigValidationError(
+        `${label}.type "${String(value.type)}" is not a known rate rule action`,
+      );
+  }
+}
+
+export function validateRateRules(value: unknown): RateRule[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError("rateRules must be an array");
+  }
+  return value.map((rule, i) => {
+    const label = `rateRules[${i}]`;
+    if (!isRecord(rule)) {
+      throw new ConfigValidationError(`${label} must be an object`);
+    }
+    if (typeof rule.name !== "string" || rule.name.trim() === "") {
+      throw new ConfigValidationError(`${label}.name must be a non-empty string`);
+    }
+    if (typeof rule.priority !== "number" || !Number.isFinite(rule.priority)) {
+      throw new ConfigValidationError(`${label}.priority must be a number`);
+    }
+    if (rule.description !== undefined && typeof rule.description !== "string") {
+      throw new ConfigValidationError(`${label}.description must be a string`);
+    }
+    if (rule.stop !== undefined && typeof rule.stop !== "boolean") {
+      throw new ConfigValidationError(`${label}.stop must be a boolean`);
+    }
+
+    const validated: RateRule = {
+      name: rule.name,
+      priority: rule.priority,
+      conditions: validateRateRuleConditions(
+        rule.conditions ?? {},
+        `${label}.conditions`,
+      ),
+      action: validateRateRuleAction(rule.action, `${label}.action`),
+    };
+    if (rule.description !== undefined) {
+      validated.description = rule.description;
+    }
+    if (rule.stop !== undefined) {
+      validated.stop = rule.stop;
+    }
+    return validated;
+  });
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+export function validateCalendarConfig(
+  value: unknown,
+  label = "calendar",
+): CalendarConfig {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  if (typeof value.observeFederalHolidays !== "boolean") {
+    throw new ConfigValidationError(
+      `${label}.observeFederalHolidays must be a boolean`,
+    );
+  }
+  if (!isStringArray(value.closures)) {
+    throw new ConfigValidationError(
+      `${label}.closures must be an array of strings`,
+    );
+  }
+  const invalid = value.closures.find((date) => !isValidDate(date));
+  if (invalid !== undefined) {
+    throw new ConfigValidationError(
+      `Invalid closure date "${invalid}" (expected YYYY-MM-DD)`,
+    );
+  }
+  return {
+    observeFederalHolidays: value.observeFederalHolidays,
+    closures: value.closures,
+  };
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateShipSchedule(
+  value: unknown,
+  label = "shipSchedule",
+): ShipScheduleConfig {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  if (typeof value.timezone !== "string" || !isValidTimeZone(value.timezone)) {
+    throw new ConfigValidationError(
+      `${label}.timezone must be an IANA timezone like America/New_York`,
+    );
+  }
+  if (typeof value.cutoffTime !== "string" || !TIME_PATTERN.test(value.cutoffTime)) {
+    throw new ConfigValidationError(
+      `${label}.cutoffTime must be a time like 14:00`,
+    );
+  }
+  if (!Array.isArray(value.pickups) || value.pickups.length !== 7) {
+    throw new ConfigValidationError(
+      `${label}.pickups must list 7 weekdays, Sunday first`,
+    );
+  }
+  const pickups = value.pickups.map((pickup, i) => {
+    if (pickup === null) return null;
+    if (typeof pickup !== "string" || !TIME_PATTERN.test(pickup)) {
+      throw new ConfigValidationError(
+        `${label}.pickups[${i}] must be a time like 17:00 or null`,
+      );
+    }
+    return pickup;
+  });
+  if (pickups.every((pickup) => pickup === null)) {
+    throw new ConfigValidationError(
+      `${label}.pickups must include at least one pickup day`,
+    );
+  }
+  return {
+    timezone: value.timezone,
+    cutoffTime: value.cutoffTime,
+    pickups,
+  };
+}
+
+function validateOriginAddress(value: unknown, label: string): FedExAddress {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError(`${label} must be an object`);
+  }
+  if (!isStringArray(value.streetLines) || value.streetLines.length === 0) {
+    throw new ConfigValidationError(
+      `${label}.streetLines must be a non-empty array of strings`,
+    );
+  }
+  for (const field of ["city", "postalCode"] as const) {
+    if (typeof value[field] !== "string" || value[field].trim() === "") {
+      throw new ConfigValidationError(
+        `${label}.${field} must be a non-empty string`,
+      );
+    }
+  }
+  if (
+    value.stateOrProvinceCode !== undefined &&
+    typeof value.stateOrProvinceCode !== "string"
+  ) {
+    throw new ConfigValidationError(
+      `${label}.stateOrProvinceCode must be a string`,
+    );
+  }
+  if (
+    typeof value.countryCode !== "string" ||
+    !/^[A-Z]{2}$/.test(value.countryCode)
+  ) {
+    throw new ConfigValidationError(
+      `${label}.countryCode must be a two-letter country code like US`,
+    );
+  }
+  const address: FedExAddress = {
+    streetLines: value.streetLines,
+    city: value.city as string,
+    postalCode: value.postalCode as string,
+    countryCode: value.countryCode,
+  };
+  if (value.stateOrProvinceCode !== undefined) {
+    address.stateOrProvinceCode = value.stateOrProvinceCode;
+  }
+  return address;
+}
+
+export function validateWarehouses(value: unknown): WarehouseConfig[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError("warehouses must be an array");
+  }
+  const ids = new Set<string>();
+  return value.map((warehouse, i) => {
+    const label = `warehouses[${i}]`;
+    if (!isRecord(warehouse)) {
+      throw new ConfigValidationError(`${label} must be an object`);
+    }
+    for (const field of ["id", "name"] as const) {
+      if (typeof warehouse[field] !== "string" || warehouse[field].trim() === "") {
+        throw new ConfigValidationError(
+          `${label}.${field} must be a non-empty string`,
+        );
+      }
+    }
+    const id = warehouse.id as string;
+    if (ids.has(id)) {
+      throw new ConfigValidationError(`Duplicate warehouse id "${id}"`);
+    }
+    ids.add(id);
+    for (const field of ["inventoryTags", "vendors"] as const) {
+      if (!isStringArray(warehouse[field])) {
+        throw new ConfigValidationError(
+          `${label}.${field} must be an array of strings`,
+        );
+      }
+    }
+    const validated: WarehouseConfig = {
+      id,
+      name: warehouse.name as string,
+      address: validateOriginAddress(warehouse.address, `${label}.address`),
+      inventoryTags: warehouse.inventoryTags as string[],
+      vendors: warehouse.vendors as string[],
+    };
+    if (warehouse.calendar !== undefined) {
+      validated.calendar = validateCalendarConfig(
+        warehouse.calendar,
+        `${label}.calendar`,
+      );
+    }
+    if (warehouse.shipSchedule !== undefined) {
+      validated.shipSchedule = validateShipSchedule(
+        warehouse.shipSchedule,
+        `${label}.shipSchedule`,
+      );
+    }
+    return validated;
+  });
+}
+
+export function validateVendorProfiles(value: unknown): VendorProfile[] {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError("vendorProfiles must be an array");
+  }
+  const vendors = new Set<string>();
+  return value.map((profile, i) => {
+    const label = `vendorProfiles[${i}]`;
+    if (!isRecord(profile)) {
+      throw new ConfigValidationError(`${label} must be an object`);
+    }
+    if (typeof profile.vendor !== "string" || profile.vendor.trim() === "") {
+      throw new ConfigValidationError(`${label}.vendor must be a non-empty string`);
+    }
+    const vendorKey = profile.vendor.trim().toLowerCase();
+    if (vendors.has(vendorKey)) {
+      throw new ConfigValidationError(
+        `Duplicate vendor profile "${profile.vendor}"`,
+      );
+    }
+    vendors.add(vendorKey);
+    if (!isNonNegativeInteger(profile.handlingDays)) {
+      throw new ConfigValidationError(
+        `${label}.handlingDays must be a non-negative integer`,
+      );
+    }
+    if (typeof profile.useOurFedExAccount !== "boolean") {
+      throw new ConfigValidationError(
+        `${label}.useOurFedExAccount must be a boolean`,
+      );
+    }
+
+    const validated: VendorProfile = {
+      vendor: profile.vendor,
+      address: validateOriginAddress(profile.address, `${label}.address`),
+      handlingDays: profile.handlingDays,
+      useOurFedExAccount: profile.useOurFedExAccount,
+    };
+    if (profile.flatFees !== undefined) {
+      const flatFees = profile.flatFees;
+      if (!isRecord(flatFees)) {
+        throw new ConfigValidationError(`${label}.flatFees must be an object`);
+      }
+      for (const field of ["perShipmentCents", "perItemCents"] as const) {
+        if (!isNonNegativeInteger(flatFees[field])) {
+          throw new ConfigValidationError(
+            `${label}.flatFees.${field} must be a non-negative integer (cents)`,
+          );
+        }
+      }
+      validated.flatFees = {
+        perShipmentCents: flatFees.perShipmentCents as number,
+        perItemCents: flatFees.perItemCents as number,
+      };
+    }
+    if (profile.transitDays !== undefined) {
+      const transitDays = profile.transitDays;
+      if (
+        !isRecord(transitDays) ||
+        !isNonNegativeInteger(transitDays.min) ||
+        !isNonNegativeInteger(transitDays.max) ||
+        transitDays.min > transitDays.max
+      ) {
+        throw new ConfigValidationError(
+          `${label}.transitDays must have integer min and max days with min <= max`,
+        );
+      }
+      validated.transitDays = { min: transitDays.min, max: transitDays.max };
+    }
+    if (profile.calendar !== undefined) {
+      validated.calendar = validateCalendarConfig(
+        profile.calendar,
+        `${label}.calendar`,
+      );
+    }
+    if (profile.shipSchedule !== undefined) {
+      validated.shipSchedule = validateShipSchedule(
+        profile.shipSchedule,
+        `${label}.shipSchedule`,
+      );
+    }
+    return validated;
+  });
+}
+
+/**
+ * Validate a parsed KV document against RuntimeConfigDocument.
+ * Throws ConfigValidationError describing the first problem found.
+ */
+export function validateRuntimeConfigDocument(
+  value: unknown,
+): RuntimeConfigDocument {
+  if (!isRecord(value)) {
+    throw new ConfigValidationError("Config document must be an object");
+  }
+  if (value.version !== CONFIG_SCHEMA_VERSION) {
+    throw new ConfigValidationError(
+      `Unsupported config version ${String(value.version)} (expected ${CONFIG_SCHEMA_VERSION})`,
+    );
+  }
+  if (!Array.isArray(value.boxes) || value.boxes.length === 0) {
+    throw new ConfigValidationError("boxes must be a non-empty array");
+  }
+  const boxes = value.boxes.map((box, i) => validateBoxConfig(box, `boxes[${i}]`));
+  const boxNames = new Set<string>();
+  for (const box of boxes) {
+    if (boxNames.has(box.name)) {
+      throw new ConfigValidationError(`Duplicate box name "${box.name}"`);
+    }
+    boxNames.add(box.name);
+  }
+
+  if (!isStringArray(value.localDeliveryZips)) {
+    throw new ConfigValidationError(
+      "localDeliveryZips must be an array of strings",
+    );
+  }
+  const invalidZip = value.localDeliveryZips.find((zip) => !/^\d{5}$/.test(zip));
+  if (invalidZip !== undefined) {
+    throw new ConfigValidationError(`Invalid local delivery zip "${invalidZip}"`);
+  }
+
+  const document: RuntimeConfigDocument = {
+    version: value.version,
+    boxes,
+    hazmatFees: validateHazmatFees(value.hazmatFees),
+    localDeliveryZips: value.localDeliveryZips,
+    services: validateServices(value.services),
+  };
+  if (value.revision !== undefined) {
+    if (!isNonNegativeInteger(value.revision)) {
+      throw new ConfigValidationError("revision must be a non-negative integer");
+    }
+    document.revision = value.revision;
+  }
+  if (value.fallbackRateTable !== undefined) {
+    document.fallbackRateTable = validateFallbackRateTable(
+      value.fallbackRateTable,
+    );
+  }
+  if (value.freight !== undefined) {
+    document.freight = validateFreightConfig(value.freight);
+  }
+  if (value.hazmatSegregation !== undefined) {
+    document.hazmatSegregation = validateHazmatSegregation(
+      value.hazmatSegregation,
+    );
+  }
+  if (value.rateRules !== undefined) {
+    document.rateRules = validateRateRules(value.rateRules);
+  }
+  if (value.calendar !== undefined) {
+    document.calendar = validateCalendarConfig(value.calendar);
+  }
+  if (value.shipSchedule !== undefined) {
+    document.shipSchedule = validateShipSchedule(value.shipSchedule);
+  }
+  if (value.warehouses !== undefined) {
+    document.warehouses = validateWarehouses(value.warehouses);
+  }
+  if (value.vendorProfiles !== undefined) {
+    document.vendorProfiles = validateVendorProfiles(value.vendorProfiles);
+  }
+  return document;
+}
+
+export function runtimeConfigFromDocument(
+  document: RuntimeConfigDocument,
+): RuntimeConfig {
+  return {
+    version: document.version,
+    boxes: document.boxes,
+    hazmatFees: document.hazmatFees,
+    localDeliveryZips: new Set(document.localDeliveryZips),
+    services: document.services,
+    fallbackRateTable: document.fallbackRateTable ?? FALLBACK_RATE_TABLE,
+    freight: document.freight ?? FREIGHT_CONFIG,
+    hazmatSegregation: document.hazmatSegregation ?? HAZMAT_SEGREGATION,
+    rateRules: document.rateRules ?? RATE_RULES,
+    calendar: document.calendar ?? CALENDAR_CONFIG,
+    shipSchedule: document.shipSchedule ?? SHIP_SCHEDULE,
+    warehouses: document.warehouses ?? WAREHOUSES,
+    vendorProfiles: document.vendorProfiles ?? VENDOR_PROFILES,
+    source: "kv",
+  };
+}
+
+async function readRuntimeConfig(
+  env: Env,
+  logger: Logger,
+): Promise<RuntimeConfig> {
+  if (!env.CONFIG_KV) {
+    logger.warn("CONFIG_KV binding not configured, using hardcoded defaults");
+    return getDefaultRuntimeConfig();
+  }
+
+  try {
+    const raw = await env.CONFIG_KV.get(CONFIG_KV_KEY, "json");
+    if (raw === null) {
+      logger.warn("No config document in KV, using hardcoded defaults", {
+        key: CONFIG_KV_KEY,
+      });
+      return getDefaultRuntimeConfig();
+    }
+    return runtimeConfigFromDocument(validateRuntimeConfigDocument(raw));
+  } catch (error) {
+    logger.warn("Failed to load config from KV, using hardcoded defaults", {
+      key: CONFIG_KV_KEY,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return getDefaultRuntimeConfig();
+  }
+}
+
+/**
+ * Load the runtime configuration, caching it for the life of the isolate.
+ * Never throws: any KV or validation problem falls back to src/config.ts.
+ */
+export async function loadRuntimeConfig(
+  env: Env,
+  logger: Logger,
+  now: number = Date.now(),
+): Promise<RuntimeConfig> {
+  if (configCache && configCache.expiresAt > now) {
+    return configCache.config;
+  }
+
+  const config = await readRuntimeConfig(env, logger);
+  configCache = { config, expiresAt: now + CONFIG_CACHE_TTL_MS };
+  return config;
+}
+
+export function clearRuntimeConfigCache(): void {
+  configCache = null;
+}
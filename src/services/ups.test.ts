@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
+import {
+  buildUPSRateRequest,
+  parseUPSRateResponse,
+  upsCarrierAdapter,
+} from "./ups";
+import { createLogger } from "./logger";
+import { getDefaultRuntimeConfig } from "./runtime-config";
+import type {
+  Env,
+  CarrierRateRequest,
+  FedExPackageLineItem,
+  UPSRateResponse,
+} from "../types";
+
+function createPackage(weight: number, count = 1): FedExPackageLineItem {
+  return {
+    weight: { units: "LB", value: weight },
+    dimensions: { length: 15, width: 15, height: 9, units: "IN" },
+    groupPackageCount: count,
+  };
+}
+
+const REQUEST: CarrierRateRequest = {
+  origin: {
+    streetLines: ["9500 NW 12th St"],
+    city: "Miami",
+    stateOrProvinceCode: "FL",
+    postalCode: "33172",
+    countryCode: "US",
+  },
+  destination: {
+    streetLines: ["123 Main St"],
+    city: "Snowflake",
+    stateOrProvinceCode: "AZ",
+    postalCode: "85937",
+    countryCode: "US",
+    residential: true,
+  },
+  packages: [createPackage(10, 2), createPackage(5.5)],
+  includeHazmat: false,
+  isInternational: false,
+};
+
+const UPS_RESPONSE: UPSRateResponse = {
+  RateResponse: {
+    RatedShipment: [
+      {
+        Service: { Code: "03" },
+        TotalCharges: { MonetaryValue: "31.20" },
+        NegotiatedRateCharges: { TotalCharge: { MonetaryValue: "24.10" } },
+        TimeInTransit: {
+          ServiceSummary: {
+            EstimatedArrival: {
+              BusinessDaysInTransit: "4",
+              Arrival: { Date: "20260306" },
+            },
+          },
+        },
+      },
+      {
+        Service: { Code: "02" },
+        TotalCharges: { MonetaryValue: "58.75" },
+        GuaranteedDelivery: { BusinessDaysInTransit: "2" },
+      },
+      {
+        // Not in the allow-list
+        Service: { Code: "14" },
+        TotalCharges: { MonetaryValue: "140.00" },
+      },
+      {
+        Service: { Code: "65" },
+        TotalCharges: { MonetaryValue: "99.00" },
+      },
+    ],
+  },
+};
+
+describe("buildUPSRateRequest", () => {
+  it("expands grouped packages and bills the shipper account", () => {
+    const request = buildUPSRateRequest(REQUEST, "A1B2C3", new Date("2026-03-02T15:00:00Z"));
+    const shipment = request.RateRequest.Shipment;
+
+    expect(shipment.Package).toHaveLength(3);
+    expect(shipment.Package[2].PackageWeight.Weight).toBe("5.5");
+    expect(shipment.ShipmentTotalWeight?.Weight).toBe("25.5");
+    expect(shipment.PaymentDetails.ShipmentCharge[0].BillShipper.AccountNumber).toBe("A1B2C3");
+    expect(shipment.DeliveryTimeInformation?.Pickup.Date).toBe("20260302");
+  });
+
+  it("flags residential destinations only", () => {
+    const shipment = buildUPSRateRequest(REQUEST, "A1B2C3").RateRequest.Shipment;
+
+    expect(shipment.ShipTo.Address.ResidentialAddressIndicator).toBe("");
+    expect(shipment.Shipper.Address.ResidentialAddressIndicator).toBeUndefined();
+  });
+});
+
+describe("parseUPSRateResponse", () => {
+  it("prefers negotiated charges and keeps allowed domestic services", () => {
+    const rates = parseUPSRateResponse(UPS_RESPONSE, false);
+
+    expect(rates.map((r) => r.serviceType)).toEqual(["UPS_GROUND", "UPS_2ND_DAY_AIR"]);
+    expect(rates[0]).toMatchObject({
+      carrier: "ups",
+      serviceName: "UPS Ground",
+      totalChargeCents: 2410,
+      transitDays: 4,
+      deliveryDate: "2026-03-06",
+    });
+    expect(rates[1].totalChargeCents).toBe(5875);
+    expect(rates[1].transitDays).toBe(2);
+    expect(rates[1].deliveryDate).toBeNull();
+  });
+
+  it("returns only international services for international shipments", () => {
+    const rates = parseUPSRateResponse(UPS_RESPONSE, true);
+
+    expect(rates.map((r) => r.serviceType)).toEqual(["UPS_WORLDWIDE_SAVER"]);
+  });
+
+  it("accepts a single RatedShipment object", () => {
+    const rates = parseUPSRateResponse(
+      {
+        RateResponse: {
+          RatedShipment: { Service: { Code: "03" }, TotalCharges: { MonetaryValue: "12.00" } },
+        },
+      },
+      false,
+    );
+
+    expect(rates).toHaveLength(1);
+    expect(rates[0].totalChargeCents).toBe(1200);
+  });
+
+  it("returns no rates for an empty response", () => {
+    expect(parseUPSRateResponse({}, false)).toEqual([]);
+  });
+});
+
+describe("upsCarrierAdapter", () => {
+  const config = getDefaultRuntimeConfig();
+  const logger = createLogger(false);
+  const env = {
+    UPS_CLIENT_ID: "ups-id",
+    UPS_CLIENT_SECRET: "ups-secret",
+    UPS_ACCOUNT_NUMBER: "A1B2C3",
+    UPS_SANDBOX: "true",
+  } as Env;
+
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/security/v1/oauth/token")) {
+        return new Response(
+          JSON.stringify({ access_token: "ups-token", token_type: "Bearer", expires_in: "14399" }),
+        );
+      }
+      return new Response(JSON.stringify(UPS_RESPONSE));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("is configured only with client credentials and an account number", () => {
+    expect(upsCarrierAdapter.isConfigured(env)).toBe(true);
+    expect(upsCarrierAdapter.isConfigured({ ...env, UPS_ACCOUNT_NUMBER: undefined })).toBe(false);
+  });
+
+  it("treats only UPS Ground as ground", () => {
+    expect(upsCarrierAdapter.isGroundService("UPS_GROUND", config)).toBe(true);
+    expect(upsCarrierAdapter.isGroundService("UPS_2ND_DAY_AIR", config)).toBe(false);
+    expect(upsCarrierAdapter.isGroundService("FEDEX_GROUND", config)).toBe(false);
+  });
+
+  it("authenticates once and reuses the cached token", async () => {
+    await upsCarrierAdapter.getRates(REQUEST, { env, config, logger });
+    const rates = await upsCarrierAdapter.getRates(REQUEST, { env, config, logger });
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.filter((url) => url.endsWith("/oauth/token"))).toHaveLength(1);
+    expect(urls.filter((url) => url.includes("/api/rating/"))).toHaveLength(2);
+    expect(urls[0]).toContain("wwwcie.ups.com");
+    expect(rates).toHaveLength(2);
+
+    const [, init] = fetchMock.mock.calls[1];
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer ups-token");
+  });
+
+  it("throws when UPS rejects the request", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith("/oauth/token")
+        ? new Response(JSON.stringify({ access_token: "t", token_type: "Bearer", expires_in: "14399" }))
+        : new Response("Invalid ShipTo", { status: 400 }),
+    );
+
+    await expect(
+      upsCarrierAdapter.getRates(REQUEST, { env, config, logger }),
+    ).rejects.toThrow("UPS Rating API failed: 400");
+  });
+});
@@ -0,0 +1,291 @@
+import type {
+  Env,
+  CarrierAdapter,
+  CarrierRate,
+  CarrierRateRequest,
+  FedExAddress,
+  FedExPackageLineItem,
+  UPSAddress,
+  UPSOAuthResponse,
+  UPSRateRequest,
+  UPSRateResponse,
+  UPSRatedShipment,
+} from "../types";
+import {
+  UPS_TOKEN_EXPIRY_BUFFER_SECONDS,
+  UPS_RATING_API_VERSION,
+  UPS_SERVICES,
+  CARRIER_API_TIMEOUT_MS,
+  getUPSApiBase,
+} from "../config";
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Separate token caches for sandbox and production
+const tokenCaches: { sandbox: CachedToken | null; production: CachedToken | null } = {
+  sandbox: null,
+  production: null,
+};
+
+export function getUPSCredentials(env: Env): {
+  clientId: string;
+  clientSecret: string;
+  accountNumber: string;
+  useSandbox: boolean;
+} {
+  return {
+    clientId: env.UPS_CLIENT_ID || "",
+    clientSecret: env.UPS_CLIENT_SECRET || "",
+    accountNumber: env.UPS_ACCOUNT_NUMBER || "",
+    useSandbox: env.UPS_SANDBOX === "true",
+  };
+}
+
+export async function getUPSAccessToken(env: Env): Promise<string> {
+  const now = Date.now();
+  const { clientId, clientSecret, accountNumber, useSandbox } =
+    getUPSCredentials(env);
+  const cacheKey = useSandbox ? "sandbox" : "production";
+  const cachedToken = tokenCaches[cacheKey];
+
+  if (cachedToken && cachedToken.expiresAt > now) {
+    return cachedToken.accessToken;
+  }
+
+  const oauthEndpoint = `${getUPSApiBase(useSandbox)}/security/v1/oauth/token`;
+
+  const response = await fetch(oauthEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      "x-merchant-id": accountNumber,
+    },
+    body: new URLSearchParams({ grant_type: "client_credentials" }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`UPS OAuth failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as UPSOAuthResponse;
+  const expiresIn = Number(data.expires_in);
+
+  tokenCaches[cacheKey] = {
+    accessToken: data.access_token,
+    expiresAt: now + (expiresIn - UPS_TOKEN_EXPIRY_BUFFER_SECONDS) * 1000,
+  };
+
+  return data.access_token;
+}
+
+function toUPSAddress(address: FedExAddress): UPSAddress {
+  const upsAddress: UPSAddress = {
+    AddressLine: address.streetLines,
+    City: address.city,
+    StateProvinceCode: address.stateOrProvinceCode,
+    PostalCode: address.postalCode,
+    CountryCode: address.countryCode,
+  };
+  if (address.residential) {
+    upsAddress.ResidentialAddressIndicator = "";
+  }
+  return upsAddress;
+}
+
+function toUPSPackages(packages: FedExPackageLineItem[]) {
+  return packages.flatMap((pkg) =>
+    Array.from({ length: pkg.groupPackageCount }, () => ({
+      PackagingType: { Code: "02" },
+      Dimensions: {
+        UnitOfMeasurement: { Code: "IN" as const },
+        Length: String(pkg.dimensions.length),
+        Width: String(pkg.dimensions.width),
+        Height: String(pkg.dimensions.height),
+      },
+      PackageWeight: {
+        UnitOfMeasurement: { Code: "LBS" as const },
+        Weight: String(pkg.weight.value),
+      },
+    })),
+  );
+}
+
+export function buildUPSRateRequest(
+  request: CarrierRateRequest,
+  accountNumber: string,
+  shipDate: Date = new Date(),
+): UPSRateRequest {
+  const packages = toUPSPackages(request.packages);
+  const totalWeight = packages.reduce(
+    (sum, pkg) => sum + Number(pkg.PackageWeight.Weight),
+    0,
+  );
+  const pickupDate = shipDate.toISOString().split("T")[0].replace(/-/g, "");
+
+  return {
+    RateRequest: {
+      Request: { RequestOption: "Shoptimeintransit" },
+      Shipment: {
+        Shipper: {
+          ShipperNumber: accountNumber,
+          Address: toUPSAddress(request.origin),
+        },
+        ShipTo: { Address: toUPSAddress(request.destination) },
+        ShipFrom: { Address: toUPSAddress(request.origin) },
+        PaymentDetails: {
+          ShipmentCharge: [
+            { Type: "01", BillShipper: { AccountNumber: accountNumber } },
+          ],
+        },
+        ShipmentRatingOptions: { NegotiatedRatesIndicator: "" },
+        DeliveryTimeInformation: {
+          PackageBillType: "03",
+          Pickup: { Date: pickupDate },
+        },
+        ShipmentTotalWeight: {
+          UnitOfMeasurement: { Code: "LBS" },
+          Weight: (Math.round(totalWeight * 100) / 100).toString(),
+        },
+        NumOfPieces: String(packages.length),
+        Package: packages,
+      },
+    },
+  };
+}
+
+export async function callUPSRateAPI(
+  rateRequest: UPSRateRequest,
+  accessToken: string,
+  useSandbox: boolean = false,
+): Promise<UPSRateResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CARRIER_API_TIMEOUT_MS);
+  const rateEndpoint = `${getUPSApiBase(useSandbox)}/api/rating/${UPS_RATING_API_VERSION}/Shoptimeintransit`;
+
+  try {
+    const response = await fetch(rateEndpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+        transId: crypto.randomUUID(),
+        transactionSrc: "carrier-rate-service",
+      },
+      body: JSON.stringify(rateRequest),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`UPS Rating API failed: ${response.status} - ${errorText}`);
+    }
+
+    return (await response.json()) as UPSRateResponse;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("UPS Rating API request timed out");
+    }
+    throw error;
+  }
+}
+
+function parseUPSDate(value: string | undefined): string | null {
+  // UPS dates are YYYYMMDD
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+export function parseUPSRateResponse(
+  response: UPSRateResponse,
+  isInternational: boolean,
+): CarrierRate[] {
+  const rated = response.RateResponse?.RatedShipment;
+  if (!rated) return [];
+
+  const shipments: UPSRatedShipment[] = Array.isArray(rated) ? rated : [rated];
+  const rates: CarrierRate[] = [];
+
+  for (const shipment of shipments) {
+    const service = UPS_SERVICES[shipment.Service.Code];
+    if (!service || service.international !== isInternational) continue;
+
+    // Prefer negotiated (account) rates over published rates
+    const charge =
+      shipment.NegotiatedRateCharges?.TotalCharge?.MonetaryValue ??
+      shipment.TotalCharges?.MonetaryValue;
+    const amount = charge === undefined ? NaN : parseFloat(charge);
+    if (isNaN(amount)) continue;
+
+    const arrival = shipment.TimeInTransit?.ServiceSummary?.EstimatedArrival;
+    const transitText =
+      arrival?.BusinessDaysInTransit ??
+      shipment.GuaranteedDelivery?.BusinessDaysInTransit;
+    const transitDays = transitText ? parseInt(transitText, 10) || 1 : 1;
+
+    rates.push({
+      carrier: "ups",
+      serviceType: service.serviceType,
+      serviceName: service.name,
+      totalChargeCents: Math.round(amount * 100),
+      transitDays,
+      deliveryDate: parseUPSDate(arrival?.Arrival?.Date),
+      deliveryTimestamp: null,
+      deliveryDayOfWeek: null,
+    });
+  }
+
+  return rates;
+}
+
+const UPS_GROUND_SERVICE_TYPES = new Set(
+  Object.values(UPS_SERVICES)
+    .filter((service) => service.ground)
+    .map((service) => service.serviceType),
+);
+
+export const upsCarrierAdapter: CarrierAdapter = {
+  id: "ups",
+  supportsHazmat: false,
+  supportsInternational: true,
+
+  isConfigured(env) {
+    const { clientId, clientSecret, accountNumber } = getUPSCredentials(env);
+    return Boolean(clientId && clientSecret && accountNumber);
+  },
+
+  isGroundService(serviceType) {
+    return UPS_GROUND_SERVICE_TYPES.has(serviceType);
+  },
+
+  async getRates(request, { env, logger }) {
+    const { accountNumber, useSandbox } = getUPSCredentials(env);
+    const accessToken = await getUPSAccessToken(env);
+    const rateRequest = buildUPSRateRequest(
+      request,
+      accountNumber,
+      request.shipDate,
+    );
+
+    logger.debugPayload("UPS rate request", rateRequest);
+    const response = await callUPSRateAPI(rateRequest, accessToken, useSandbox);
+    logger.debugPayload("UPS rate response", response);
+
+    if (response.response?.errors?.length) {
+      throw new Error(
+        `UPS Rating API returned errors: ${response.response.errors
+          .map((e) => e.code)
+          .join(", ")}`,
+      );
+    }
+
+    return parseUPSRateResponse(response, request.isInternational);
+  },
+};
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
+import {
+  buildUSPSRateRequest,
+  parseUSPSRatePrice,
+  uspsCarrierAdapter,
+} from "./usps";
+import { createLogger } from "./logger";
+import { getDefaultRuntimeConfig } from "./runtime-config";
+import type {
+  Env,
+  CarrierRateRequest,
+  FedExPackageLineItem,
+  USPSBaseRateRequest,
+} from "../types";
+
+function createPackage(weight: number, count = 1): FedExPackageLineItem {
+  return {
+    weight: { units: "LB", value: weight },
+    dimensions: { length: 12, width: 10, height: 6, units: "IN" },
+    groupPackageCount: count,
+  };
+}
+
+function createRequest(packages: FedExPackageLineItem[]): CarrierRateRequest {
+  return {
+    origin: {
+      streetLines: ["9500 NW 12th St"],
+      city: "Miami",
+      stateOrProvinceCode: "FL",
+      postalCode: "33172-2831",
+      countryCode: "US",
+    },
+    destination: {
+      streetLines: ["123 Main St"],
+      city: "Snowflake",
+      stateOrProvinceCode: "AZ",
+      postalCode: "85937",
+      countryCode: "US",
+    },
+    packages,
+    includeHazmat: false,
+    isInternational: false,
+  };
+}
+
+// Flat prices per mail class, per package
+const PRICES: Record<string, number> = {
+  USPS_GROUND_ADVANTAGE: 11.25,
+  PRIORITY_MAIL: 19.5,
+  PRIORITY_MAIL_EXPRESS: 62.1,
+};
+
+describe("buildUSPSRateRequest", () => {
+  it("uses five-digit ZIPs and the package dimensions", () => {
+    const request = buildUSPSRateRequest(
+      "33172-2831",
+      "85937",
+      createPackage(4.5),
+      "PRIORITY_MAIL",
+      new Date("2026-03-02T15:00:00Z"),
+    );
+
+    expect(request).toMatchObject({
+      originZIPCode: "33172",
+      destinationZIPCode: "85937",
+      weight: 4.5,
+      length: 12,
+      width: 10,
+      height: 6,
+      mailClass: "PRIORITY_MAIL",
+      mailingDate: "2026-03-02",
+    });
+  });
+});
+
+describe("parseUSPSRatePrice", () => {
+  it("reads totalBasePrice, falling back to the first rate", () => {
+    expect(parseUSPSRatePrice({ totalBasePrice: 9.8 })).toBe(9.8);
+    expect(parseUSPSRatePrice({ rates: [{ price: 7.25 }] })).toBe(7.25);
+    expect(parseUSPSRatePrice({})).toBeNull();
+  });
+});
+
+describe("uspsCarrierAdapter", () => {
+  const config = getDefaultRuntimeConfig();
+  const logger = createLogger(false);
+  const env = {
+    USPS_CLIENT_ID: "usps-id",
+    USPS_CLIENT_SECRET: "usps-secret",
+  } as Env;
+
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/oauth2/v3/token")) {
+        return new Response(
+          JSON.stringify({ access_token: "usps-token", token_type: "Bearer", expires_in: 28800 }),
+        );
+      }
+      const body = JSON.parse(String(init?.body)) as USPSBaseRateRequest;
+      return new Response(JSON.stringify({ totalBasePrice: PRICES[body.mailClass] }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("is domestic-only and cannot quote hazmat", () => {
+    expect(uspsCarrierAdapter.supportsInternational).toBe(false);
+    expect(uspsCarrierAdapter.supportsHazmat).toBe(false);
+    expect(uspsCarrierAdapter.isConfigured(env)).toBe(true);
+    expect(uspsCarrierAdapter.isConfigured({} as Env)).toBe(false);
+  });
+
+  it("sums per-package prices for each mail class", async () => {
+    const rates = await uspsCarrierAdapter.getRates(
+      createRequest([createPackage(5, 2), createPackage(3)]),
+      { env, config, logger },
+    );
+
+    expect(rates.map((r) => r.serviceType)).toEqual([
+      "USPS_GROUND_ADVANTAGE",
+      "USPS_PRIORITY_MAIL",
+      "USPS_PRIORITY_MAIL_EXPRESS",
+    ]);
+    expect(rates[0]).toMatchObject({
+      carrier: "usps",
+      totalChargeCents: 3375,
+      transitDays: 5,
+      deliveryDate: null,
+    });
+    expect(rates[2].totalChargeCents).toBe(18630);
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.filter((url) => url.endsWith("/oauth2/v3/token"))).toHaveLength(1);
+    expect(urls.filter((url) => url.includes("/base-rates/search"))).toHaveLength(9);
+  });
+
+  it("treats only Ground Advantage as ground", () => {
+    expect(uspsCarrierAdapter.isGroundService("USPS_GROUND_ADVANTAGE", config)).toBe(true);
+    expect(uspsCarrierAdapter.isGroundService("USPS_PRIORITY_MAIL", config)).toBe(false);
+  });
+
+  it("skips a mail class when any package has no price", async () => {
+    fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/oauth2/v3/token")) {
+        return new Response(
+          JSON.stringify({ access_token: "usps-token", token_type: "Bearer", expires_in: 28800 }),
+        );
+      }
+      const body = JSON.parse(String(init?.body)) as USPSBaseRateRequest;
+      return new Response(
+        JSON.stringify(body.mailClass === "PRIORITY_MAIL_EXPRESS" ? {} : { totalBasePrice: 10 }),
+      );
+    });
+
+    const rates = await uspsCarrierAdapter.getRates(createRequest([createPackage(5)]), {
+      env,
+      config,
+      logger,
+    });
+
+    expect(rates.map((r) => r.serviceType)).not.toContain("USPS_PRIORITY_MAIL_EXPRESS");
+  });
+
+  it("returns no rates without calling USPS when a package is over 70 lbs", async () => {
+    const rates = await uspsCarrierAdapter.getRates(createRequest([createPackage(71)]), {
+      env,
+      config,
+      logger,
+    });
+
+    expect(rates).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
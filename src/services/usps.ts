@@ -0,0 +1,225 @@
+import type {
+  Env,
+  CarrierAdapter,
+  CarrierRate,
+  CarrierRateRequest,
+  FedExPackageLineItem,
+  USPSBaseRateRequest,
+  USPSBaseRateResponse,
+  USPSMailClass,
+  USPSOAuthResponse,
+} from "../types";
+import {
+  USPS_TOKEN_EXPIRY_BUFFER_SECONDS,
+  USPS_SERVICES,
+  USPS_MAX_PACKAGE_WEIGHT_LBS,
+  CARRIER_API_TIMEOUT_MS,
+  getUSPSApiBase,
+} from "../config";
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Separate token caches for sandbox (TEM) and production
+const tokenCaches: { sandbox: CachedToken | null; production: CachedToken | null } = {
+  sandbox: null,
+  production: null,
+};
+
+export function getUSPSCredentials(env: Env): {
+  clientId: string;
+  clientSecret: string;
+  useSandbox: boolean;
+} {
+  return {
+    clientId: env.USPS_CLIENT_ID || "",
+    clientSecret: env.USPS_CLIENT_SECRET || "",
+    useSandbox: env.USPS_SANDBOX === "true",
+  };
+}
+
+/**
+ * OAuth token for the USPS APIs (the REST successor to Web Tools RateV4)
+ */
+export async function getUSPSAccessToken(env: Env): Promise<string> {
+  const now = Date.now();
+  const { clientId, clientSecret, useSandbox } = getUSPSCredentials(env);
+  const cacheKey = useSandbox ? "sandbox" : "production";
+  const cachedToken = tokenCaches[cacheKey];
+
+  if (cachedToken && cachedToken.expiresAt > now) {
+    return cachedToken.accessToken;
+  }
+
+  const oauthEndpoint = `${getUSPSApiBase(useSandbox)}/oauth2/v3/token`;
+
+  const response = await fetch(oauthEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      grant_type: "client_credentials",
+      client_id: clientId,
+      client_secret: clientSecret,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`USPS OAuth failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as USPSOAuthResponse;
+
+  tokenCaches[cacheKey] = {
+    accessToken: data.access_token,
+    expiresAt:
+      now + (data.expires_in - USPS_TOKEN_EXPIRY_BUFFER_SECONDS) * 1000,
+  };
+
+  return data.access_token;
+}
+
+export function buildUSPSRateRequest(
+  originZip: string,
+  destinationZip: string,
+  pkg: FedExPackageLineItem,
+  mailClass: USPSMailClass,
+  mailingDate: Date = new Date(),
+): USPSBaseRateRequest {
+  return {
+    originZIPCode: originZip.trim().substring(0, 5),
+    destinationZIPCode: destinationZip.trim().substring(0, 5),
+    weight: pkg.weight.value,
+    length: pkg.dimensions.length,
+    width: pkg.dimensions.width,
+    height: pkg.dimensions.height,
+    mailClass,
+    processingCategory: "MACHINABLE",
+    rateIndicator: "SP",
+    destinationEntryFacilityType: "NONE",
+    priceType: "COMMERCIAL",
+    mailingDate: mailingDate.toISOString().split("T")[0],
+  };
+}
+
+export async function callUSPSRateAPI(
+  rateRequest: USPSBaseRateRequest,
+  accessToken: string,
+  useSandbox: boolean = false,
+): Promise<USPSBaseRateResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CARRIER_API_TIMEOUT_MS);
+  const rateEndpoint = `${getUSPSApiBase(useSandbox)}/prices/v3/base-rates/search`;
+
+  try {
+    const response = await fetch(rateEndpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(rateRequest),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`USPS Prices API failed: ${response.status} - ${errorText}`);
+    }
+
+    return (await response.json()) as USPSBaseRateResponse;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("USPS Prices API request timed out");
+    }
+    throw error;
+  }
+}
+
+export function parseUSPSRatePrice(response: USPSBaseRateResponse): number | null {
+  if (typeof response.totalBasePrice === "number") {
+    return response.totalBasePrice;
+  }
+  const price = response.rates?.[0]?.price;
+  return typeof price === "number" ? price : null;
+}
+
+const USPS_GROUND_SERVICE_TYPES = new Set(
+  Object.values(USPS_SERVICES)
+    .filter((service) => service.ground)
+    .map((service) => service.serviceType),
+);
+
+export const uspsCarrierAdapter: CarrierAdapter = {
+  id: "usps",
+  supportsHazmat: false,
+  supportsInternational: false,
+
+  isConfigured(env) {
+    const { clientId, clientSecret } = getUSPSCredentials(env);
+    return Boolean(clientId && clientSecret);
+  },
+
+  isGroundService(serviceType) {
+    return USPS_GROUND_SERVICE_TYPES.has(serviceType);
+  },
+
+  /**
+   * The Prices API rates one package and one mail class per call, so each
+   * mail class is the sum of its per-package prices.
+   */
+  async getRates(request: CarrierRateRequest, { env, logger }) {
+    if (
+      request.packages.some((pkg) => pkg.weight.value > USPS_MAX_PACKAGE_WEIGHT_LBS)
+    ) {
+      return [];
+    }
+
+    const { useSandbox } = getUSPSCredentials(env);
+    const accessToken = await getUSPSAccessToken(env);
+    const packages = request.packages.flatMap((pkg) =>
+      Array.from({ length: pkg.groupPackageCount }, () => pkg),
+    );
+
+    const rates: CarrierRate[] = [];
+
+    for (const [mailClass, service] of Object.entries(USPS_SERVICES)) {
+      const prices = await Promise.all(
+        packages.map(async (pkg) => {
+          const rateRequest = buildUSPSRateRequest(
+            request.origin.postalCode,
+            request.destination.postalCode,
+            pkg,
+            mailClass as USPSMailClass,
+            request.shipDate,
+          );
+          logger.debugPayload("USPS rate request", rateRequest);
+          const response = await callUSPSRateAPI(rateRequest, accessToken, useSandbox);
+          logger.debugPayload("USPS rate response", response);
+          return parseUSPSRatePrice(response);
+        }),
+      );
+
+      if (prices.some((price) => price === null)) continue;
+
+      const total = (prices as number[]).reduce((sum, price) => sum + price, 0);
+      rates.push({
+        carrier: "usps",
+        serviceType: service.serviceType,
+        serviceName: service.name,
+        totalChargeCents: Math.round(total * 100),
+        transitDays: service.transitDays,
+        deliveryDate: null,
+        deliveryTimestamp: null,
+        deliveryDayOfWeek: null,
+      });
+    }
+
+    return rates;
+  },
+};
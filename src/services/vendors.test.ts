@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getItemVendorProfile,
+  isShippedByVendor,
+  calculateVendorFlatFee,
+  addVendorFlatFee,
+  buildVendorShippedRates,
+} from "./vendors";
+import { getDeliveryCalendars } from "./calendar";
+import { CALENDAR_CONFIG, SHIP_SCHEDULE } from "../config";
+import type { ShopifyCartItem, ShopifyRate, VendorProfile } from "../types";
+
+function createCartItem(overrides: Partial<ShopifyCartItem> = {}): ShopifyCartItem {
+  return {
+    name: "Topcoat",
+    sku: "TOPCOAT-1",
+    quantity: 1,
+    grams: 5000,
+    price: 5000,
+    vendor: "Hentzen",
+    requires_shipping: true,
+    taxable: true,
+    fulfillment_service: "manual",
+    properties: {},
+    product_id: 1,
+    variant_id: 1,
+    ...overrides,
+  };
+}
+
+const HENTZEN: VendorProfile = {
+  vendor: "Hentzen",
+  address: {
+    streetLines: ["6937 W Mill Rd"],
+    city: "Milwaukee",
+    stateOrProvinceCode: "WI",
+    postalCode: "53218",
+    countryCode: "US",
+  },
+  handlingDays: 3,
+  useOurFedExAccount: false,
+  flatFees: { perShipmentCents: 1500, perItemCents: 200 },
+  transitDays: { min: 2, max: 4 },
+};
+
+const GROUND: ShopifyRate = {
+  service_name: "FedEx Ground",
+  service_code: "FEDEX_GROUND",
+  total_price: "2550",
+  currency: "USD",
+  min_delivery_date: "2024-01-12",
+  max_delivery_date: "2024-01-12",
+};
+
+describe("getItemVendorProfile", () => {
+  it("matches the item vendor ignoring case", () => {
+    expect(getItemVendorProfile(createCartItem({ vendor: " hentzen " }), [HENTZEN])).toBe(HENTZEN);
+    expect(getItemVendorProfile(createCartItem({ vendor: "JDL" }), [HENTZEN])).toBeNull();
+  });
+});
+
+describe("isShippedByVendor", () => {
+  it("is true only for vendors off our FedEx account", () => {
+    expect(isShippedByVendor(HENTZEN)).toBe(true);
+    expect(isShippedByVendor({ ...HENTZEN, useOurFedExAccount: true })).toBe(false);
+    expect(isShippedByVendor(null)).toBe(false);
+  });
+});
+
+describe("calculateVendorFlatFee", () => {
+  it("charges the shipment fee plus the item fee per unit", () => {
+    const items = [createCartItem({ quantity: 2 }), createCartItem({ sku: "THINNER-1" })];
+    expect(calculateVendorFlatFee(HENTZEN, items)).toBe(2100);
+  });
+
+  it("is zero without flat fees", () => {
+    expect(calculateVendorFlatFee({ ...HENTZEN, flatFees: undefined }, [createCartItem()])).toBe(0);
+  });
+});
+
+describe("addVendorFlatFee", () => {
+  it("adds the fee to each rate and notes it", () => {
+    const [rate] = addVendorFlatFee([{ ...GROUND, description: "Delivery by Fri" }], HENTZEN, [
+      createCartItem(),
+    ]);
+
+    expect(rate.total_price).toBe("4250");
+    expect(rate.description).toBe("Delivery by Fri · Includes $17.00 Hentzen drop-ship fee");
+  });
+
+  it("leaves rates alone when there is no fee", () => {
+    const rates = [GROUND];
+    expect(addVendorFlatFee(rates, { ...HENTZEN, flatFees: undefined }, [createCartItem()])).toBe(
+      rates,
+    );
+  });
+});
+
+describe("buildVendorShippedRates", () => {
+  it("offers each service for free within the vendor's handling and transit days", () => {
+    const calendars = getDeliveryCalendars(CALENDAR_CONFIG, SHIP_SCHEDULE);
+    // Tuesday 9am in Miami: three handling days ship Friday, Jan 12
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-09T14:00:00Z"));
+    let rates: ShopifyRate[];
+    try {
+      rates = buildVendorShippedRates([GROUND], HENTZEN, [createCartItem()], calendars);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    // FedEx works MLK Day, so two to four transit days land Jan 16 to 18
+    expect(rates).toEqual([
+      {
+        service_name: "FedEx Ground",
+        service_code: "FEDEX_GROUND",
+        total_price: "0",
+        description: "Shipped by Hentzen",
+        currency: "USD",
+        min_delivery_date: "2024-01-16",
+        max_delivery_date: "2024-01-18",
+      },
+    ]);
+  });
+});
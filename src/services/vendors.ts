@@ -0,0 +1,93 @@
+import type { ShopifyCartItem, ShopifyRate, VendorProfile } from "../types";
+import { VENDOR_TRANSIT_DAYS } from "../config";
+import type { DeliveryCalendars } from "./calendar";
+import { addTransitRange, calculateDeliveryDates } from "./leadtimes";
+import { formatCents } from "./hazmat-fees";
+
+// Service offered when every shipment goes out on a vendor's own account
+export const VENDOR_SHIPPING_SERVICE = {
+  service_name: "Standard Shipping",
+  service_code: "VENDOR_SHIPPING",
+};
+
+export function getItemVendorProfile(
+  item: ShopifyCartItem,
+  profiles: VendorProfile[],
+): VendorProfile | null {
+  const vendor = item.vendor?.trim().toLowerCase();
+  if (!vendor) return null;
+  return (
+    profiles.find((profile) => profile.vendor.trim().toLowerCase() === vendor) ??
+    null
+  );
+}
+
+// Vendors off our FedEx account quote nothing; their flat fees are the price
+export function isShippedByVendor(profile: VendorProfile | null): boolean {
+  return profile !== null && !profile.useOurFedExAccount;
+}
+
+export function calculateVendorFlatFee(
+  profile: VendorProfile,
+  items: ShopifyCartItem[],
+): number {
+  if (!profile.flatFees) return 0;
+  const units = items.reduce((sum, item) => sum + item.quantity, 0);
+  return profile.flatFees.perShipmentCents + profile.flatFees.perItemCents * units;
+}
+
+/**
+ * Add the vendor's flat fees for its shipment to each of its rates
+ */
+export function addVendorFlatFee(
+  rates: ShopifyRate[],
+  profile: VendorProfile,
+  items: ShopifyCartItem[],
+): ShopifyRate[] {
+  const feeCents = calculateVendorFlatFee(profile, items);
+  if (feeCents === 0) {
+    return rates;
+  }
+
+  const feeNote = `Includes ${formatCents(feeCents)} ${profile.vendor} drop-ship fee`;
+  return rates.map((rate) => ({
+    ...rate,
+    total_price: (parseInt(rate.total_price, 10) + feeCents).toString(),
+    description: rate.description ? `${rate.description} · ${feeNote}` : feeNote,
+  }));
+}
+
+/**
+ * Rates for a shipment on the vendor's own account, one for each of the
+ * given services. The vendor charges nothing beyond its flat fees, added
+ * separately, and delivers within its transit days of shipping.
+ */
+export function buildVendorShippedRates(
+  services: Pick<ShopifyRate, "service_name" | "service_code">[],
+  profile: VendorProfile,
+  items: ShopifyCartItem[],
+  calendars: DeliveryCalendars,
+): ShopifyRate[] {
+  const transitDays = profile.transitDays ?? VENDOR_TRANSIT_DAYS;
+  const dates = addTransitRange(
+    calculateDeliveryDates(
+      items,
+      transitDays.min,
+      profile.handlingDays,
+      new Date(),
+      calendars,
+    ),
+    transitDays.max - transitDays.min,
+    calendars.carrier,
+  );
+
+  return services.map((service) => ({
+    service_name: service.service_name,
+    service_code: service.service_code,
+    total_price: "0",
+    description: `Shipped by ${profile.vendor}`,
+    currency: "USD",
+    min_delivery_date: dates.minDeliveryDateISO,
+    max_delivery_date: dates.maxDeliveryDateISO,
+  }));
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  getItemWarehouse,
+  groupItemsByOrigin,
+  getOriginCalendars,
+} from "./warehouses";
+import { getDefaultRuntimeConfig } from "./runtime-config";
+import type { ShopifyCartItem, VendorProfile, WarehouseConfig } from "../types";
+
+function createCartItem(overrides: Partial<ShopifyCartItem> = {}): ShopifyCartItem {
+  return {
+    name: "Primer",
+    sku: "PRIMER-1",
+    quantity: 1,
+    grams: 5000,
+    price: 5000,
+    vendor: "JDL",
+    requires_shipping: true,
+    taxable: true,
+    fulfillment_service: "manual",
+    properties: {},
+    product_id: 1,
+    variant_id: 1,
+    ...overrides,
+  };
+}
+
+const ORLANDO: WarehouseConfig = {
+  id: "orlando",
+  name: "Orlando",
+  address: {
+    streetLines: ["100 Distribution Way"],
+    city: "Orlando",
+    stateOrProvinceCode: "FL",
+    postalCode: "32824",
+    countryCode: "US",
+  },
+  inventoryTags: ["ORL", "stock-2"],
+  vendors: [],
+};
+
+const HENTZEN: WarehouseConfig = {
+  id: "hentzen",
+  name: "Hentzen Coatings",
+  address: {
+    streetLines: ["6937 W Mill Rd"],
+    city: "Milwaukee",
+    stateOrProvinceCode: "WI",
+    postalCode: "53218",
+    countryCode: "US",
+  },
+  inventoryTags: [],
+  vendors: ["Hentzen"],
+  calendar: { observeFederalHolidays: true, closures: ["2024-01-10"] },
+};
+
+const WAREHOUSES = [ORLANDO, HENTZEN];
+
+describe("getItemWarehouse", () => {
+  it("matches the _warehouse property to a warehouse id or inventory tag", () => {
+    expect(
+      getItemWarehouse(createCartItem({ properties: { _warehouse: "orlando" } }), WAREHOUSES),
+    ).toBe(ORLANDO);
+    expect(
+      getItemWarehouse(createCartItem({ properties: { _warehouse: " orl " } }), WAREHOUSES),
+    ).toBe(ORLANDO);
+  });
+
+  it("maps vendors to their drop-ship warehouse", () => {
+    expect(getItemWarehouse(createCartItem({ vendor: "HENTZEN" }), WAREHOUSES)).toBe(HENTZEN);
+  });
+
+  it("prefers the _warehouse property over the vendor", () => {
+    const item = createCartItem({ vendor: "Hentzen", properties: { _warehouse: "stock-2" } });
+    expect(getItemWarehouse(item, WAREHOUSES)).toBe(ORLANDO);
+  });
+
+  it("ships unmatched items from the Shopify origin", () => {
+    expect(getItemWarehouse(createCartItem(), WAREHOUSES)).toBeNull();
+    expect(
+      getItemWarehouse(createCartItem({ properties: { _warehouse: "tampa" } }), WAREHOUSES),
+    ).toBeNull();
+  });
+});
+
+describe("groupItemsByOrigin", () => {
+  it("groups shippable items by origin in cart order", () => {
+    const primer = createCartItem();
+    const topcoat = createCartItem({ sku: "TOPCOAT-1", vendor: "Hentzen" });
+    const brush = createCartItem({ sku: "BRUSH-1" });
+    const giftCard = createCartItem({ sku: "GIFT", vendor: "Hentzen", requires_shipping: false });
+
+    expect(groupItemsByOrigin([topcoat, primer, giftCard, brush], WAREHOUSES)).toEqual([
+      { warehouse: HENTZEN, vendorProfile: null, items: [topcoat] },
+      { warehouse: null, vendorProfile: null, items: [primer, brush] },
+    ]);
+  });
+
+  it("routes vendor items to their vendor profile unless a warehouse is tagged", () => {
+    const profile: VendorProfile = {
+      vendor: "Hentzen",
+      address: HENTZEN.address,
+      handlingDays: 3,
+      useOurFedExAccount: true,
+    };
+    const dropShipped = createCartItem({ sku: "TOPCOAT-1", vendor: "Hentzen" });
+    const stocked = createCartItem({
+      sku: "TOPCOAT-2",
+      vendor: "Hentzen",
+      properties: { _warehouse: "ORL" },
+    });
+
+    expect(groupItemsByOrigin([dropShipped, stocked], WAREHOUSES, [profile])).toEqual([
+      { warehouse: null, vendorProfile: profile, items: [dropShipped] },
+      { warehouse: ORLANDO, vendorProfile: null, items: [stocked] },
+    ]);
+  });
+
+  it("keeps every item at the Shopify origin without warehouses", () => {
+    const items = [createCartItem(), createCartItem({ vendor: "Hentzen" })];
+    expect(groupItemsByOrigin(items, [])).toEqual([
+      { warehouse: null, vendorProfile: null, items },
+    ]);
+  });
+});
+
+describe("getOriginCalendars", () => {
+  it("uses the warehouse calendar and falls back to the store's", () => {
+    const config = getDefaultRuntimeConfig();
+    const closure = new Date("2024-01-10T00:00:00Z");
+
+    expect(getOriginCalendars(HENTZEN, config).warehouse.isBusinessDay(closure)).toBe(false);
+    expect(getOriginCalendars(ORLANDO, config).warehouse.isBusinessDay(closure)).toBe(true);
+    expect(getOriginCalendars(ORLANDO, config).schedule).toBe(config.shipSchedule);
+  });
+});
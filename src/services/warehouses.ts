@@ -0,0 +1,101 @@
+import type {
+  CalendarConfig,
+  RuntimeConfig,
+  ShipScheduleConfig,
+  ShopifyCartItem,
+  VendorProfile,
+  WarehouseConfig,
+} from "../types";
+import { getDeliveryCalendars, type DeliveryCalendars } from "./calendar";
+import { getItemVendorProfile } from "./vendors";
+
+/**
+ * Items that ship from one origin: a warehouse, a drop-ship vendor, or
+ * the Shopify origin when both are null.
+ */
+export interface OriginGroup {
+  warehouse: WarehouseConfig | null;
+  vendorProfile: VendorProfile | null;
+  items: ShopifyCartItem[];
+}
+
+function normalize(value: string | undefined): string {
+  return value?.trim().toLowerCase() ?? "";
+}
+
+function findTaggedWarehouse(
+  item: ShopifyCartItem,
+  warehouses: WarehouseConfig[],
+): WarehouseConfig | null {
+  const tag = normalize(item.properties?._warehouse);
+  if (!tag) return null;
+  return (
+    warehouses.find(
+      (warehouse) =>
+        normalize(warehouse.id) === tag ||
+        warehouse.inventoryTags.some((inventoryTag) => normalize(inventoryTag) === tag),
+    ) ?? null
+  );
+}
+
+/**
+ * The warehouse an item ships from: the one whose id or inventory tag
+ * matches its _warehouse property, else the one listing its vendor.
+ * Returns null for items shipping from the Shopify origin.
+ */
+export function getItemWarehouse(
+  item: ShopifyCartItem,
+  warehouses: WarehouseConfig[],
+): WarehouseConfig | null {
+  const tagged = findTaggedWarehouse(item, warehouses);
+  if (tagged) return tagged;
+
+  const vendor = normalize(item.vendor);
+  if (!vendor) return null;
+  return (
+    warehouses.find((warehouse) =>
+      warehouse.vendors.some((name) => normalize(name) === vendor),
+    ) ?? null
+  );
+}
+
+/**
+ * Group shippable items by origin, in the order each origin first
+ * appears in the cart. A _warehouse property wins over a vendor profile,
+ * which wins over a warehouse's vendor list.
+ */
+export function groupItemsByOrigin(
+  items: ShopifyCartItem[],
+  warehouses: WarehouseConfig[],
+  vendorProfiles: VendorProfile[] = [],
+): OriginGroup[] {
+  const groups: OriginGroup[] = [];
+  for (const item of items) {
+    if (!item.requires_shipping) continue;
+    const tagged = findTaggedWarehouse(item, warehouses);
+    const vendorProfile = tagged ? null : getItemVendorProfile(item, vendorProfiles);
+    const warehouse = vendorProfile ? null : getItemWarehouse(item, warehouses);
+    const group = groups.find(
+      (candidate) =>
+        candidate.warehouse === warehouse &&
+        candidate.vendorProfile === vendorProfile,
+    );
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ warehouse, vendorProfile, items: [item] });
+    }
+  }
+  return groups;
+}
+
+// Origins without their own calendar follow the store's
+export function getOriginCalendars(
+  origin: { calendar?: CalendarConfig; shipSchedule?: ShipScheduleConfig },
+  config: RuntimeConfig,
+): DeliveryCalendars {
+  return getDeliveryCalendars(
+    origin.calendar ?? config.calendar,
+    origin.shipSchedule ?? config.shipSchedule,
+  );
+}
@@ -0,0 +1,47 @@
+import type { FedExAddress, FedExPackageLineItem, FedExPayor, ParsedFedExRate } from "./fedex";
+import type { Env, RuntimeConfig } from "./config";
+import type { Logger } from "../services/logger";
+
+export type CarrierId = "fedex" | "ups" | "usps";
+
+/**
+ * A quote from any carrier, normalized to the ParsedFedExRate shape.
+ * serviceType is unique across carriers (e.g. FEDEX_GROUND, UPS_GROUND).
+ */
+export interface CarrierRate extends ParsedFedExRate {
+  carrier: CarrierId;
+}
+
+/**
+ * Shipment to rate. Addresses and packages use the FedEx shapes that
+ * getPackagesForCart already produces; each adapter maps them to its own API.
+ */
+export interface CarrierRateRequest {
+  origin: FedExAddress;
+  destination: FedExAddress;
+  packages: FedExPackageLineItem[];
+  includeHazmat: boolean;
+  isInternational: boolean;
+  payor?: FedExPayor;
+  // Day the shipment is tendered to the carrier; defaults to today
+  shipDate?: Date;
+}
+
+export interface CarrierRatingContext {
+  env: Env;
+  config: RuntimeConfig;
+  logger: Logger;
+}
+
+export interface CarrierAdapter {
+  id: CarrierId;
+  // Carriers that cannot quote dangerous goods are skipped for hazmat carts
+  supportsHazmat: boolean;
+  supportsInternational: boolean;
+  isConfigured(env: Env): boolean;
+  isGroundService(serviceType: string, config: RuntimeConfig): boolean;
+  getRates(
+    request: CarrierRateRequest,
+    context: CarrierRatingContext,
+  ): Promise<CarrierRate[]>;
+}
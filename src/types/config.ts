@@ -1,3 +1,6 @@
+import type { CustomerType, RouteType } from "./shopify";
+import type { FedExAddress } from "./fedex";
+
 export interface BoxConfig {
   name: string;
   length: number;
@@ -5,11 +8,244 @@ export interface BoxConfig {
   height: number;
   maxWeightLbs: number;
   emptyWeightLbs: number;
+  // Cost of the box and dunnage, used by cost-optimized packing
+  materialCostCents?: number;
+}
+
+/**
+ * Hazmat handling fees in cents for one kind of service. A cart with hazmat
+ * items pays per_order once, per_package for every package, and
+ * per_hazmat_package for each package holding dangerous goods, or
+ * per_inaccessible_package when that package is declared INACCESSIBLE.
+ */
+export interface HazmatFeeSchedule {
+  per_order: number;
+  per_package: number;
+  per_hazmat_package: number;
+  per_inaccessible_package: number;
 }
 
 export interface HazmatFees {
-  ground_per_order: number;
-  air_per_order: number;
+  ground: HazmatFeeSchedule;
+  air: HazmatFeeSchedule;
+  international: HazmatFeeSchedule;
+}
+
+/**
+ * Hazard classes that may not share a box, after the 49 CFR 177.848
+ * segregation table. Entries are symmetric: listing "5.1" under "3" also
+ * keeps Class 3 out of boxes holding 5.1.
+ */
+export interface HazmatSegregationConfig {
+  incompatibleClasses: Record<string, string[]>;
+  // Keep non-hazmat items out of boxes holding hazmat items
+  separateNonHazmat: boolean;
+}
+
+/**
+ * Conditions a rate must meet for a rule to apply. Every listed condition
+ * must match; omitted conditions match anything. skus and vendors match
+ * when any cart item has one of them.
+ */
+export interface RateRuleConditions {
+  services?: string[];
+  routeTypes?: RouteType[];
+  customerTypes?: CustomerType[];
+  minSubtotalCents?: number;
+  maxSubtotalCents?: number;
+  destinationStates?: string[];
+  destinationCountries?: string[];
+  skus?: string[];
+  vendors?: string[];
+}
+
+export type RateRuleAction =
+  | { type: "markup_percent"; percent: number }
+  | { type: "markup_fixed"; cents: number }
+  | { type: "discount_percent"; percent: number }
+  | { type: "discount_fixed"; cents: number }
+  | { type: "free_shipping" }
+  | { type: "price_floor"; cents: number }
+  | { type: "price_ceiling"; cents: number }
+  | { type: "hide_service" };
+
+export type RateRuleActionType = RateRuleAction["type"];
+
+export interface RateRule {
+  name: string;
+  // Lower numbers run first; equal priorities keep their listed order
+  priority: number;
+  conditions: RateRuleConditions;
+  action: RateRuleAction;
+  // Appended to the rate description when the rule applies
+  description?: string;
+  // Skip the remaining rules for a rate once this one applies
+  stop?: boolean;
+}
+
+/**
+ * A yearly holiday: a fixed date, observed on the Friday before or Monday
+ * after when it falls on a weekend, or the nth weekday of a month where
+ * nth -1 is the last one. Months are 1-12 and weekdays 0 (Sunday) to 6.
+ */
+export type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; month: number; weekday: number; nth: number };
+
+export interface CalendarConfig {
+  // Close the warehouse on US federal holidays, not only FedEx holidays
+  observeFederalHolidays: boolean;
+  // Company closure dates (YYYY-MM-DD) on which no orders ship
+  closures: string[];
+}
+
+/**
+ * When orders leave the warehouse. Times are "HH:MM" in the origin's IANA
+ * timezone; pickups lists the carrier pickup time for each weekday,
+ * Sunday first, or null on days nothing ships.
+ */
+export interface ShipScheduleConfig {
+  timezone: string;
+  // Orders placed after this time are handled from the next pickup day
+  cutoffTime: string;
+  pickups: (string | null)[];
+}
+
+/**
+ * A stocking location or drop-ship point we rate from. Items ship from a
+ * warehouse when their _warehouse property names its id or one of its
+ * inventory tags, or when their vendor is listed; all other items ship
+ * from the Shopify origin.
+ */
+export interface WarehouseConfig {
+  id: string;
+  name: string;
+  address: FedExAddress;
+  inventoryTags: string[];
+  vendors: string[];
+  // Handling calendar; defaults to the store's calendar and ship schedule
+  calendar?: CalendarConfig;
+  shipSchedule?: ShipScheduleConfig;
+}
+
+export interface VendorFlatFees {
+  perShipmentCents: number;
+  // Charged for each unit of the vendor's items
+  perItemCents: number;
+}
+
+/**
+ * A vendor that drop-ships its own items. Vendors on our FedEx account are
+ * quoted from their address; the others ship on their own account and
+ * charge only their flat fees, which are added to every rate.
+ */
+export interface VendorProfile {
+  // Shopify vendor name, matched ignoring case
+  vendor: string;
+  address: FedExAddress;
+  // Business days the vendor needs before its shipment leaves
+  handlingDays: number;
+  useOurFedExAccount: boolean;
+  flatFees?: VendorFlatFees;
+  // Transit of shipments on the vendor's own account
+  transitDays?: { min: number; max: number };
+  calendar?: CalendarConfig;
+  shipSchedule?: ShipScheduleConfig;
+}
+
+export interface FallbackZoneRange {
+  fromZip3: string;
+  toZip3: string;
+  zone: number;
+}
+
+export interface FallbackServiceRate {
+  zone: number;
+  serviceType: string;
+  baseCents: number;
+  perLbCents: number;
+  transitDays: number;
+}
+
+/**
+ * Zone and weight table used to estimate domestic rates when FedEx is down
+ */
+export interface FallbackRateTable {
+  zones: FallbackZoneRange[];
+  rates: FallbackServiceRate[];
+}
+
+export interface PalletConfig {
+  // Footprint and deck height of an empty pallet, inches
+  length: number;
+  width: number;
+  height: number;
+  // Tallest loaded pallet we build, including the deck
+  maxHeight: number;
+  tareWeightLbs: number;
+}
+
+/**
+ * LTL freight quoting for heavy orders
+ */
+export interface FreightConfig {
+  pallet: PalletConfig;
+  freightClass: string; // FedEx freight class, e.g. "CLASS_055"
+  // Orders at least this heavy get an LTL quote next to the parcel rates
+  minWeightLbs: number;
+}
+
+export interface ServiceAllowList {
+  domesticGround: string[];
+  domesticAir: string[];
+  international: string[];
+}
+
+/**
+ * Versioned configuration document stored as JSON in the CONFIG_KV binding
+ */
+export interface RuntimeConfigDocument {
+  version: number;
+  // Bumped on every admin write; absent until the first one
+  revision?: number;
+  boxes: BoxConfig[];
+  hazmatFees: HazmatFees;
+  hazmatSegregation?: HazmatSegregationConfig;
+  rateRules?: RateRule[];
+  calendar?: CalendarConfig;
+  shipSchedule?: ShipScheduleConfig;
+  warehouses?: WarehouseConfig[];
+  vendorProfiles?: VendorProfile[];
+  localDeliveryZips: string[];
+  services: ServiceAllowList;
+  fallbackRateTable?: FallbackRateTable;
+  freight?: FreightConfig;
+}
+
+export interface RuntimeConfig {
+  version: number;
+  boxes: BoxConfig[];
+  hazmatFees: HazmatFees;
+  hazmatSegregation: HazmatSegregationConfig;
+  rateRules: RateRule[];
+  calendar: CalendarConfig;
+  shipSchedule: ShipScheduleConfig;
+  warehouses: WarehouseConfig[];
+  vendorProfiles: VendorProfile[];
+  localDeliveryZips: Set<string>;
+  services: ServiceAllowList;
+  fallbackRateTable: FallbackRateTable;
+  freight: FreightConfig;
+  source: "kv" | "default";
+}
+
+export interface AuditEntry {
+  actor: string;
+  action: string;
+  target: string;
+  before: unknown;
+  after: unknown;
+  timestamp: string;
 }
 
 export interface Env {
@@ -24,5 +260,35 @@ export interface Env {
   // Set to 'true' to use FedEx sandbox/test environment and credentials
   FEDEX_SANDBOX?: string;
   DEFAULT_HANDLING_DAYS?: string;
+  // 'greedy' (default) or 'cost_optimized' box selection
+  PACKING_MODE?: string;
+  // Set to 'true' to also offer rates that ship in-stock items first
+  SPLIT_SHIPMENTS?: string;
+  // Set to 'true' to classify residential addresses with FedEx Address Validation
+  FEDEX_ADDRESS_VALIDATION?: string;
+  // Comma-separated carriers to rate: fedex, ups, usps (default: fedex)
+  ENABLED_CARRIERS?: string;
+  UPS_CLIENT_ID?: string;
+  UPS_CLIENT_SECRET?: string;
+  UPS_ACCOUNT_NUMBER?: string;
+  UPS_SANDBOX?: string;
+  USPS_CLIENT_ID?: string;
+  USPS_CLIENT_SECRET?: string;
+  USPS_SANDBOX?: string;
+  // FedEx Freight (LTL) account; LTL is quoted only when set
+  FEDEX_FREIGHT_ACCOUNT_NUMBER?: string;
+  // Runtime configuration (boxes, fees, zips, services); falls back to src/config.ts
+  CONFIG_KV?: KVNamespace;
+  // Cache of parsed carrier quotes and address classifications
+  RATE_CACHE?: KVNamespace;
+  RATE_CACHE_TTL_SECONDS?: string;
+  // Max age of the last successful quote used when FedEx is unavailable
+  STALE_RATE_MAX_AGE_SECONDS?: string;
+  // Comma-separated "name:token" pairs allowed to call /admin routes
+  ADMIN_API_KEYS?: string;
+  // Shopify app client secret used to verify X-Shopify-Hmac-Sha256
+  SHOPIFY_API_SECRET?: string;
+  // Set to 'true' to skip HMAC verification for ?test= requests
+  SHOPIFY_HMAC_ALLOW_TEST?: string;
   LOG?: string; // Set to 'full' to enable verbose request/response logging
 }
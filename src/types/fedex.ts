@@ -29,6 +29,7 @@ export interface FedExDimensions {
 export interface FedExDangerousGoodsDetail {
   accessibility: "ACCESSIBLE" | "INACCESSIBLE";
   regulationType: "DOT" | "IATA" | "DOT_IATA";
+  options?: ("HAZARDOUS_MATERIALS" | "LIMITED_QUANTITIES_COMMODITIES")[];
   cargo?: boolean;
   signatory?: {
     contactName: string;
@@ -49,6 +50,13 @@ export interface FedExPackageLineItem {
   packageSpecialServices?: FedExSpecialServicesRequested;
 }
 
+export type FedExPaymentType = "SENDER" | "RECIPIENT" | "THIRD_PARTY";
+
+export interface FedExPayor {
+  paymentType: FedExPaymentType;
+  accountNumber: string;
+}
+
 export interface FedExRateRequest {
   accountNumber: {
     value: string;
@@ -67,7 +75,7 @@ export interface FedExRateRequest {
       address: FedExAddress;
     };
     shippingChargesPayment?: {
-      paymentType: "SENDER" | "RECIPIENT" | "THIRD_PARTY";
+      paymentType: FedExPaymentType;
       payor?: {
         responsibleParty: {
           accountNumber: {
@@ -130,6 +138,7 @@ export interface FedExRateReplyDetail {
     transitDays?: {
       description?: string;
       minimumTransitTime?: string;
+      maximumTransitTime?: string;
     };
     deliveryTimestamp?: string;
     transitTime?: string;
@@ -168,11 +177,102 @@ export interface FedExError {
   parameterList?: { key: string; value: string }[];
 }
 
+export type FedExAddressClassification =
+  | "RESIDENTIAL"
+  | "BUSINESS"
+  | "MIXED"
+  | "UNKNOWN";
+
+export interface FedExAddressValidationRequest {
+  addressesToValidate: {
+    address: FedExAddress;
+  }[];
+}
+
+export interface FedExResolvedAddress {
+  classification?: FedExAddressClassification;
+  streetLinesToken?: string[];
+  city?: string;
+  stateOrProvinceCode?: string;
+  postalCode?: string;
+  countryCode?: string;
+}
+
+export interface FedExAddressValidationResponse {
+  transactionId?: string;
+  output?: {
+    resolvedAddresses?: FedExResolvedAddress[];
+    alerts?: FedExAlert[];
+  };
+  errors?: FedExError[];
+}
+
+export interface FedExFreightLineItem {
+  id: string;
+  freightClass: string; // e.g. "CLASS_055"
+  handlingUnits: number;
+  pieces: number;
+  subPackagingType: "PALLET";
+  weight: FedExWeight;
+  dimensions: FedExDimensions;
+  hazardousMaterials?: "HAZARDOUS_MATERIALS";
+}
+
+export interface FedExFreightRateRequest {
+  accountNumber: {
+    value: string;
+  };
+  rateRequestControlParameters?: {
+    returnTransitTimes: boolean;
+  };
+  freightRequestedShipment: {
+    shipper: {
+      address: FedExAddress;
+    };
+    recipient: {
+      address: FedExAddress;
+    };
+    shippingChargesPayment: {
+      paymentType: "SENDER";
+      payor: {
+        responsibleParty: {
+          address: FedExAddress;
+          accountNumber: {
+            value: string;
+          };
+        };
+      };
+    };
+    shipDateStamp: string;
+    rateRequestType: ("LIST" | "ACCOUNT")[];
+    freightShipmentDetail: {
+      role: "SHIPPER";
+      accountNumber: {
+        value: string;
+      };
+      fedExFreightBillingContactAndAddress: {
+        address: FedExAddress;
+      };
+      lineItem: FedExFreightLineItem[];
+      totalHandlingUnits: number;
+    };
+    requestedPackageLineItems: {
+      subPackagingType: "PALLET";
+      groupPackageCount: number;
+      weight: FedExWeight;
+      dimensions: FedExDimensions;
+      associatedFreightLineItems: { id: string }[];
+    }[];
+  };
+}
+
 export interface ParsedFedExRate {
   serviceType: string;
   serviceName: string;
   totalChargeCents: number;
   transitDays: number;
+  // Longest transit when the carrier quotes a range, e.g. FedEx Ground
+  maxTransitDays?: number;
   deliveryDate: string | null;
   deliveryTimestamp: string | null; // Full timestamp e.g. "2026-03-26T08:30:00"
   deliveryDayOfWeek: string | null; // e.g. "Thu"
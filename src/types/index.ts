@@ -1,3 +1,6 @@
 export * from './shopify';
 export * from './fedex';
 export * from './config';
+export * from './carrier';
+export * from './ups';
+export * from './usps';
@@ -17,6 +17,8 @@ export interface ShopifyAddress {
   address1: string;
   address2: string;
   phone: string;
+  // Present when the customer entered a company; used to detect business addresses
+  company_name?: string | null;
 }
 
 export interface ShopifyCartItem {
@@ -48,6 +50,12 @@ export interface ShopifyRateResponse {
   rates: ShopifyRate[];
 }
 
+export type RouteType =
+  | 'local_delivery'
+  | 'domestic'
+  | 'international_military'
+  | 'freight_forwarding';
+
 export type CustomerType =
   | 'international_military'
   | 'freight_forwarding'
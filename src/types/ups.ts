@@ -0,0 +1,91 @@
+export interface UPSOAuthResponse {
+  access_token: string;
+  token_type: string;
+  // UPS returns expires_in as a string of seconds
+  expires_in: string | number;
+  status?: string;
+}
+
+export interface UPSAddress {
+  AddressLine?: string[];
+  City: string;
+  StateProvinceCode?: string;
+  PostalCode: string;
+  CountryCode: string;
+  ResidentialAddressIndicator?: string;
+}
+
+export interface UPSPackage {
+  PackagingType: { Code: string };
+  Dimensions: {
+    UnitOfMeasurement: { Code: "IN" | "CM" };
+    Length: string;
+    Width: string;
+    Height: string;
+  };
+  PackageWeight: {
+    UnitOfMeasurement: { Code: "LBS" | "KGS" };
+    Weight: string;
+  };
+}
+
+export interface UPSRateRequest {
+  RateRequest: {
+    Request: {
+      RequestOption: "Shop" | "Shoptimeintransit";
+    };
+    Shipment: {
+      Shipper: { ShipperNumber: string; Address: UPSAddress };
+      ShipTo: { Address: UPSAddress };
+      ShipFrom: { Address: UPSAddress };
+      PaymentDetails: {
+        ShipmentCharge: {
+          Type: "01";
+          BillShipper: { AccountNumber: string };
+        }[];
+      };
+      ShipmentRatingOptions?: { NegotiatedRatesIndicator: string };
+      DeliveryTimeInformation?: {
+        PackageBillType: "03";
+        Pickup: { Date: string };
+      };
+      ShipmentTotalWeight?: {
+        UnitOfMeasurement: { Code: "LBS" | "KGS" };
+        Weight: string;
+      };
+      NumOfPieces?: string;
+      Package: UPSPackage[];
+    };
+  };
+}
+
+export interface UPSMoney {
+  CurrencyCode?: string;
+  MonetaryValue: string;
+}
+
+export interface UPSRatedShipment {
+  Service: { Code: string; Description?: string };
+  TotalCharges?: UPSMoney;
+  NegotiatedRateCharges?: { TotalCharge?: UPSMoney };
+  GuaranteedDelivery?: { BusinessDaysInTransit?: string };
+  TimeInTransit?: {
+    ServiceSummary?: {
+      EstimatedArrival?: {
+        BusinessDaysInTransit?: string;
+        Arrival?: { Date?: string; Time?: string };
+        DayOfWeek?: string;
+      };
+    };
+  };
+}
+
+export interface UPSRateResponse {
+  RateResponse?: {
+    // UPS returns a single object instead of an array when only one service is rated
+    RatedShipment?: UPSRatedShipment | UPSRatedShipment[];
+  };
+  response?: {
+    errors?: { code: string; message: string }[];
+  };
+}
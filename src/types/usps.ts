@@ -0,0 +1,39 @@
+export interface USPSOAuthResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+export type USPSMailClass =
+  | "USPS_GROUND_ADVANTAGE"
+  | "PRIORITY_MAIL"
+  | "PRIORITY_MAIL_EXPRESS";
+
+export interface USPSBaseRateRequest {
+  originZIPCode: string;
+  destinationZIPCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  mailClass: USPSMailClass;
+  processingCategory: "MACHINABLE" | "NONSTANDARD";
+  rateIndicator: "SP";
+  destinationEntryFacilityType: "NONE";
+  priceType: "COMMERCIAL" | "RETAIL";
+  mailingDate?: string;
+}
+
+export interface USPSBaseRateResponse {
+  totalBasePrice?: number;
+  rates?: {
+    SKU?: string;
+    description?: string;
+    price: number;
+    mailClass?: string;
+  }[];
+  error?: {
+    code?: string;
+    message?: string;
+  };
+}